@@ -17,6 +17,7 @@ import { CalendarPage } from "@/pages/CalendarPage";
 import { Settings } from "@/pages/Settings";
 import { ProjectSettings } from "@/pages/ProjectSettings";
 import { AdminDashboard } from "@/pages/AdminDashboard";
+import { Trash } from "@/pages/Trash";
 import { ResetPassword } from "@/pages/ResetPassword";
 import NotFound from "./pages/NotFound";
 
@@ -46,6 +47,7 @@ const App = () => (
                 <Route path="/calendar" element={<CalendarPage />} />
                 <Route path="/team" element={<Team />} />
                 <Route path="/admin" element={<AdminDashboard />} />
+                <Route path="/trash" element={<Trash />} />
                 <Route path="/settings" element={<Settings />} />
               </Route>
               <Route path="*" element={<NotFound />} />
@@ -2,10 +2,13 @@ import React from 'react';
 import { Outlet } from 'react-router-dom';
 import { Sidebar } from '@/components/navigation/Sidebar';
 import { Header } from '@/components/navigation/Header';
+import { ConflictResolutionDialog } from '@/components/sync/ConflictResolutionDialog';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useUndoShortcuts } from '@/hooks/useUndoShortcuts';
 
 export function MainLayout() {
   const isMobile = useIsMobile();
+  useUndoShortcuts();
   
   return (
     <div className="flex h-screen w-full overflow-hidden bg-background">
@@ -16,6 +19,7 @@ export function MainLayout() {
           <Outlet />
         </main>
       </div>
+      <ConflictResolutionDialog />
     </div>
   );
 }
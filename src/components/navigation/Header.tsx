@@ -1,6 +1,6 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
-import { Search, Bell, Plus, Command } from 'lucide-react';
+import { Search, Bell, Plus, Command, CloudOff, RefreshCw } from 'lucide-react';
 import { cn } from '@/lib/utils';
 import { useProject } from '@/contexts/ProjectContext';
 import { useAuth } from '@/contexts/AuthContext';
@@ -21,6 +21,7 @@ import {
   DialogTitle,
 } from '@/components/ui/dialog';
 import { Input } from '@/components/ui/input';
+import { StatusBadge } from '@/components/tasks/StatusBadge';
 
 export function Header() {
   const navigate = useNavigate();
@@ -35,7 +36,10 @@ export function Header() {
     setCurrentTaskId,
     searchQuery,
     setSearchQuery,
-    projects
+    projects,
+    getTaskStatus,
+    isOnline,
+    queuedMutationCount
   } = useProject();
   
   const [searchOpen, setSearchOpen] = useState(false);
@@ -103,6 +107,24 @@ export function Header() {
 
         {/* Right section */}
         <div className="flex items-center gap-2 md:gap-3">
+          {/* Offline / pending sync */}
+          {(!isOnline || queuedMutationCount > 0) && (
+            <div
+              className="flex items-center gap-1.5 px-2 py-1 rounded-full bg-muted text-xs text-muted-foreground"
+              title={isOnline
+                ? 'Syncing changes made while offline'
+                : 'You are offline. Changes are saved on this device and synced when you reconnect.'}
+            >
+              {isOnline
+                ? <RefreshCw className="h-3.5 w-3.5 animate-spin" />
+                : <CloudOff className="h-3.5 w-3.5" />}
+              {!isMobile && <span>{isOnline ? 'Syncing' : 'Offline'}</span>}
+              {queuedMutationCount > 0 && (
+                <span className="font-medium text-foreground">{queuedMutationCount}</span>
+              )}
+            </div>
+          )}
+
           {/* Quick create */}
           <Button 
             size={isMobile ? "icon" : "sm"}
@@ -225,14 +247,7 @@ export function Header() {
                       {project?.title}
                     </p>
                   </div>
-                  <span className={cn(
-                    'text-xs px-2 py-0.5 rounded-full capitalize whitespace-nowrap',
-                    task.status === 'done' && 'bg-status-done/10 text-status-done',
-                    task.status === 'in-progress' && 'bg-status-progress/10 text-status-progress',
-                    task.status === 'blocked' && 'bg-status-blocked/10 text-status-blocked'
-                  )}>
-                    {task.status.replace('-', ' ')}
-                  </span>
+                  <StatusBadge status={getTaskStatus(task)} className="py-0.5" />
                 </button>
               );
             })}
@@ -7,6 +7,7 @@ import {
   Users, 
   Calendar, 
   Settings,
+  Trash2,
   ChevronLeft,
   ChevronRight,
   Plus,
@@ -102,8 +103,9 @@ export function Sidebar() {
         </div>
       </nav>
 
-      {/* Settings */}
-      <div className="p-3 border-t border-sidebar-border">
+      {/* Trash & settings */}
+      <div className="p-3 border-t border-sidebar-border space-y-1">
+        <SidebarNavLink to="/trash" icon={Trash2} label="Trash" collapsed={collapsed && !isMobile} onClick={onNavigate} />
         <SidebarNavLink to="/settings" icon={Settings} label="Settings" collapsed={collapsed && !isMobile} onClick={onNavigate} />
       </div>
     </>
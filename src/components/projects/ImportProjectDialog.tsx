@@ -0,0 +1,220 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Upload, AlertTriangle, Users, UserX, ArrowRight } from 'lucide-react';
+import { toast } from 'sonner';
+import { useProject } from '@/contexts/ProjectContext';
+import { Status } from '@/types';
+import { DEFAULT_WORKFLOW } from '@/lib/workflow';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  ExternalBoard,
+  SOURCE_LABELS,
+  defaultStatusMapping,
+  parseExportFile,
+  planProjectImport,
+} from '@/lib/importers';
+
+interface ImportProjectDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function ImportProjectDialog({ open, onOpenChange }: ImportProjectDialogProps) {
+  const navigate = useNavigate();
+  const { teamMembers, importProject } = useProject();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [board, setBoard] = useState<ExternalBoard | null>(null);
+  const [statusMapping, setStatusMapping] = useState<Record<string, Status>>({});
+
+  // Dry run: nothing is written until the user confirms
+  const plan = useMemo(
+    () => (board ? planProjectImport(board, teamMembers, statusMapping) : null),
+    [board, teamMembers, statusMapping]
+  );
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) {
+      setBoard(null);
+      setStatusMapping({});
+    }
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    try {
+      const parsed = parseExportFile(file.name, await file.text());
+      if (parsed.cards.length === 0) {
+        toast.error('Nothing to import', { description: 'The export does not contain any tasks.' });
+        return;
+      }
+      setBoard(parsed);
+      setStatusMapping(defaultStatusMapping(parsed));
+    } catch (error) {
+      toast.error('Cannot read export', {
+        description: error instanceof Error ? error.message : 'The file could not be read',
+      });
+    }
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) handleFile(file);
+  };
+
+  const handleImport = () => {
+    if (!plan) return;
+    const project = importProject(plan);
+    toast.success(`Imported ${project.title}`, {
+      description: `${plan.tasks.length} tasks and ${plan.comments.length} comments`,
+    });
+    handleOpenChange(false);
+    navigate(`/projects/${project.id}`);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-2xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Project</DialogTitle>
+          <DialogDescription>
+            {board
+              ? `${SOURCE_LABELS[board.source]} export · review what will be created before importing`
+              : 'Bring a board over from Trello (JSON), Jira (CSV or XML) or Asana (JSON).'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!board || !plan ? (
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={(e) => {
+              e.preventDefault();
+              const file = e.dataTransfer.files?.[0];
+              if (file) handleFile(file);
+            }}
+            onClick={() => fileInputRef.current?.click()}
+            className="border-2 border-dashed border-border rounded-lg p-10 text-center cursor-pointer hover:border-primary/50 hover:bg-muted/30 transition-colors"
+          >
+            <Upload className="h-8 w-8 mx-auto text-muted-foreground mb-3" />
+            <p className="text-sm font-medium text-foreground">Drop an export file here or click to browse</p>
+            <p className="text-xs text-muted-foreground mt-1">.json, .csv or .xml</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,.csv,.xml,application/json,text/csv,text/xml,application/xml"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-5 pr-1">
+            {/* Summary */}
+            <div className="p-3 rounded-lg bg-muted/50">
+              <div className="flex items-center gap-2">
+                <div
+                  className="w-6 h-6 rounded flex items-center justify-center text-xs font-bold text-primary-foreground"
+                  style={{ backgroundColor: plan.project.color }}
+                >
+                  {plan.project.title.charAt(0)}
+                </div>
+                <p className="font-medium text-foreground">{plan.project.title}</p>
+              </div>
+              <p className="text-sm text-muted-foreground mt-1">
+                {plan.tasks.length} tasks · {plan.comments.length} comments · {plan.project.teamMemberIds.length} team members
+              </p>
+            </div>
+
+            {/* Status mapping */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-foreground">Statuses</h3>
+              <div className="space-y-1.5">
+                {board.statusNames.map(name => (
+                  <div key={name} className="flex items-center gap-3">
+                    <span className="flex-1 text-sm truncate">
+                      {name}
+                      <span className="text-muted-foreground"> ({board.cards.filter(c => c.statusName === name).length})</span>
+                    </span>
+                    <ArrowRight className="h-4 w-4 text-muted-foreground shrink-0" />
+                    <Select
+                      value={statusMapping[name]}
+                      onValueChange={(value) => setStatusMapping(prev => ({ ...prev, [name]: value as Status }))}
+                    >
+                      <SelectTrigger className="w-40 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {DEFAULT_WORKFLOW.map(status => (
+                          <SelectItem key={status.id} value={status.id}>{status.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            {/* People */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-foreground">People</h3>
+              {plan.matchedPeople.length > 0 && (
+                <p className="text-sm flex items-start gap-2">
+                  <Users className="h-4 w-4 text-success mt-0.5 shrink-0" />
+                  <span>
+                    Matched: {plan.matchedPeople.map(p => p.member.name).join(', ')}
+                  </span>
+                </p>
+              )}
+              {plan.unmatchedPeople.length > 0 && (
+                <p className="text-sm flex items-start gap-2 text-muted-foreground">
+                  <UserX className="h-4 w-4 mt-0.5 shrink-0" />
+                  <span>
+                    Not on the team (assignments dropped, comments keep their name): {plan.unmatchedPeople.join(', ')}
+                  </span>
+                </p>
+              )}
+              {plan.matchedPeople.length === 0 && plan.unmatchedPeople.length === 0 && (
+                <p className="text-sm text-muted-foreground">No people in this export</p>
+              )}
+            </div>
+
+            {plan.warnings.length > 0 && (
+              <div className="space-y-1">
+                {plan.warnings.map(warning => (
+                  <p key={warning} className="text-sm text-warning flex items-start gap-2">
+                    <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                    {warning}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!plan}>
+            Import Project
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
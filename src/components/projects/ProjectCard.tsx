@@ -4,6 +4,8 @@ import { Calendar, Users, ArrowRight } from 'lucide-react';
 import { Project, Task } from '@/types';
 import { useProject } from '@/contexts/ProjectContext';
 import { cn } from '@/lib/utils';
+import { projectCompletion, topLevelTasks } from '@/lib/subtasks';
+import { isDoneStatus, projectWorkflow } from '@/lib/workflow';
 import { format } from 'date-fns';
 
 interface ProjectCardProps {
@@ -15,9 +17,12 @@ export function ProjectCard({ project }: ProjectCardProps) {
   const { getProjectTasks, teamMembers } = useProject();
   
   const tasks = getProjectTasks(project.id);
-  const completedTasks = tasks.filter(t => t.status === 'done').length;
-  const totalTasks = tasks.length;
-  const progress = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0;
+  const workflow = projectWorkflow(project);
+  // Subtasks are counted through their parent's progress rather than as tasks of their own
+  const rootTasks = topLevelTasks(tasks);
+  const completedTasks = rootTasks.filter(t => isDoneStatus(workflow, t.status)).length;
+  const totalTasks = rootTasks.length;
+  const progress = projectCompletion(tasks, workflow) * 100;
 
   const projectMembers = teamMembers.filter(m => project.teamMemberIds.includes(m.id));
 
@@ -0,0 +1,143 @@
+import React, { useState } from 'react';
+import { Plus, SlidersHorizontal, X } from 'lucide-react';
+import { CustomFieldDefinition, CustomFieldType } from '@/types';
+import { generateId } from '@/data/mockData';
+import { CUSTOM_FIELD_TYPE_LABELS, hasOptions } from '@/lib/customFields';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface CustomFieldSettingsProps {
+  fields: CustomFieldDefinition[];
+  onChange: (fields: CustomFieldDefinition[]) => void;
+  // Only managers and admins can change the fields; others see them read-only
+  canEdit: boolean;
+}
+
+const parseOptions = (text: string) =>
+  Array.from(new Set(text.split(',').map(option => option.trim()).filter(Boolean)));
+
+export function CustomFieldSettings({ fields, onChange, canEdit }: CustomFieldSettingsProps) {
+  const [newName, setNewName] = useState('');
+  const [newType, setNewType] = useState<CustomFieldType>('text');
+  const [newOptions, setNewOptions] = useState('');
+
+  const updateField = (id: string, changes: Partial<CustomFieldDefinition>) => {
+    onChange(fields.map(field => (field.id === id ? { ...field, ...changes } : field)));
+  };
+
+  const canAdd = newName.trim() !== '' && (!hasOptions(newType) || parseOptions(newOptions).length > 0);
+
+  const handleAdd = () => {
+    if (!canAdd) return;
+    onChange([
+      ...fields,
+      {
+        id: generateId('fld'),
+        name: newName.trim(),
+        type: newType,
+        options: hasOptions(newType) ? parseOptions(newOptions) : undefined,
+      },
+    ]);
+    setNewName('');
+    setNewOptions('');
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <SlidersHorizontal className="h-5 w-5" />
+          Custom Fields
+        </CardTitle>
+        <CardDescription>
+          Extra fields on every task in this project.
+          {!canEdit && ' Only managers and admins can change them.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {fields.length > 0 ? (
+          <div className="space-y-3">
+            {fields.map(field => (
+              <div key={field.id} className="p-3 rounded-lg border border-border bg-card space-y-2">
+                <div className="flex items-center gap-3">
+                  <Input
+                    value={field.name}
+                    onChange={(e) => updateField(field.id, { name: e.target.value })}
+                    disabled={!canEdit}
+                    className="flex-1"
+                    aria-label="Field name"
+                  />
+                  {/* The type is fixed once tasks may hold values for the field */}
+                  <Badge variant="secondary" className="shrink-0">{CUSTOM_FIELD_TYPE_LABELS[field.type]}</Badge>
+                  {canEdit && (
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="text-muted-foreground hover:text-destructive shrink-0"
+                      onClick={() => onChange(fields.filter(f => f.id !== field.id))}
+                      aria-label={`Remove field "${field.name}"`}
+                    >
+                      <X className="h-4 w-4" />
+                    </Button>
+                  )}
+                </div>
+                {hasOptions(field.type) && (
+                  <Input
+                    key={(field.options ?? []).join(',')}
+                    defaultValue={(field.options ?? []).join(', ')}
+                    onBlur={(e) => updateField(field.id, { options: parseOptions(e.target.value) })}
+                    disabled={!canEdit}
+                    placeholder="Options, comma-separated"
+                    className="text-sm"
+                    aria-label="Options"
+                  />
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="py-4 text-center text-sm text-muted-foreground">No custom fields yet.</p>
+        )}
+
+        {canEdit && (
+          <div className="space-y-2 pt-2 border-t border-border">
+            <div className="flex gap-2">
+              <Input
+                value={newName}
+                onChange={(e) => setNewName(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+                placeholder="New field name, e.g. Grant code"
+                className="flex-1"
+              />
+              <Select value={newType} onValueChange={(value) => setNewType(value as CustomFieldType)}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(CUSTOM_FIELD_TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button variant="outline" onClick={handleAdd} disabled={!canAdd} className="gap-2">
+                <Plus className="h-4 w-4" />
+                Add
+              </Button>
+            </div>
+            {hasOptions(newType) && (
+              <Input
+                value={newOptions}
+                onChange={(e) => setNewOptions(e.target.value)}
+                placeholder="Options, comma-separated"
+                className="text-sm"
+              />
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,87 @@
+import React from 'react';
+import { LayoutTemplate, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useToast } from '@/hooks/use-toast';
+import { useTaskTemplates } from '@/hooks/useTaskTemplates';
+import { templatesForProject } from '@/lib/taskTemplates';
+import { getSafeErrorMessage, logError } from '@/lib/errorHandler';
+import { TYPE_LABELS } from '@/types';
+
+interface TaskTemplateSettingsProps {
+  projectId: string;
+}
+
+export function TaskTemplateSettings({ projectId }: TaskTemplateSettingsProps) {
+  const { templates, isLoading, error, deleteTemplate } = useTaskTemplates();
+  const { toast } = useToast();
+  const projectTemplates = templatesForProject(templates, projectId);
+
+  const handleDelete = async (id: string, name: string) => {
+    try {
+      const deleted = await deleteTemplate(id);
+      toast(deleted
+        ? { title: 'Template deleted', description: `"${name}" is no longer available.` }
+        : { title: 'Template not deleted', description: 'Only its creator or an admin can delete this template.', variant: 'destructive' });
+    } catch (err) {
+      logError('deleteTemplate', err);
+      toast({ title: 'Template not deleted', description: getSafeErrorMessage(err), variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <LayoutTemplate className="h-5 w-5" />
+          Task Templates
+        </CardTitle>
+        <CardDescription>
+          Templates offered when creating tasks in this project. Save a task as a template from its menu.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="py-6 flex justify-center">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : error ? (
+          <p className="py-6 text-center text-sm text-destructive">Templates could not be loaded.</p>
+        ) : projectTemplates.length > 0 ? (
+          <div className="space-y-3">
+            {projectTemplates.map(template => (
+              <div
+                key={template.id}
+                className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-card"
+              >
+                <div className="min-w-0">
+                  <p className="font-medium text-foreground truncate">{template.name}</p>
+                  <p className="text-sm text-muted-foreground truncate">{template.titlePattern}</p>
+                </div>
+                <div className="flex items-center gap-3 shrink-0">
+                  <Badge variant="outline">{TYPE_LABELS[template.type]}</Badge>
+                  <Badge variant="secondary">{template.projectId ? 'This project' : 'All projects'}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="text-muted-foreground hover:text-destructive"
+                    onClick={() => handleDelete(template.id, template.name)}
+                    aria-label={`Delete template "${template.name}"`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="py-8 text-center text-muted-foreground">
+            <p>No templates yet.</p>
+            <p className="text-sm mt-1">Open a task and choose "Save as Template" to create one.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
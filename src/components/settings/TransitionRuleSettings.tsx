@@ -0,0 +1,209 @@
+import React from 'react';
+import { Plus, ShieldCheck, X } from 'lucide-react';
+import {
+  Role,
+  TaskType,
+  TransitionGuard,
+  TransitionRequirement,
+  TransitionRules,
+  WorkflowStatus,
+  ROLE_LABELS,
+  TYPE_LABELS,
+} from '@/types';
+import { generateId } from '@/data/mockData';
+import { TRANSITION_REQUIREMENTS, isMoveAllowed, setMoveAllowed } from '@/lib/transitions';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface TransitionRuleSettingsProps {
+  rules: TransitionRules | undefined;
+  onChange: (rules: TransitionRules) => void;
+  // The workflow as currently edited, so new statuses can get rules before saving
+  workflow: WorkflowStatus[];
+  // Only managers and admins can change the rules; others see them read-only
+  canEdit: boolean;
+}
+
+interface ToggleChipsProps<T extends string> {
+  options: Record<T, string>;
+  selected: T[];
+  onChange: (selected: T[]) => void;
+  disabled: boolean;
+}
+
+function ToggleChips<T extends string>({ options, selected, onChange, disabled }: ToggleChipsProps<T>) {
+  return (
+    <div className="flex flex-wrap gap-1.5">
+      {(Object.keys(options) as T[]).map(option => {
+        const isSelected = selected.includes(option);
+        return (
+          <button
+            key={option}
+            type="button"
+            disabled={disabled}
+            onClick={() => onChange(isSelected ? selected.filter(o => o !== option) : [...selected, option])}
+            className={cn(
+              'px-2 py-0.5 rounded-full border text-xs transition-colors disabled:cursor-default',
+              isSelected
+                ? 'bg-primary/10 border-primary text-primary'
+                : 'bg-card border-border text-muted-foreground hover:border-primary/50'
+            )}
+          >
+            {options[option]}
+          </button>
+        );
+      })}
+    </div>
+  );
+}
+
+const REQUIREMENT_LABELS = Object.fromEntries(
+  Object.entries(TRANSITION_REQUIREMENTS).map(([key, definition]) => [key, definition.label])
+) as Record<TransitionRequirement, string>;
+
+export function TransitionRuleSettings({ rules, onChange, workflow, canEdit }: TransitionRuleSettingsProps) {
+  const guards = rules?.guards ?? [];
+
+  const updateGuard = (id: string, changes: Partial<TransitionGuard>) => {
+    onChange({ ...rules, guards: guards.map(guard => (guard.id === id ? { ...guard, ...changes } : guard)) });
+  };
+
+  const addGuard = () => {
+    const done = workflow.find(s => s.category === 'done') ?? workflow[workflow.length - 1];
+    onChange({ ...rules, guards: [...guards, { id: generateId('rule'), to: done.id, requires: [] }] });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="h-5 w-5" />
+          Transition Rules
+        </CardTitle>
+        <CardDescription>
+          Which moves between statuses are allowed, who may make them and what a task needs first.
+          {!canEdit && ' Only managers and admins can change them.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {/* Allowed moves */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground">Allowed moves</h3>
+          <div className="overflow-x-auto rounded-lg border border-border">
+            <table className="w-full text-xs">
+              <thead className="bg-muted/50 text-muted-foreground">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium">From \ To</th>
+                  {workflow.map(to => (
+                    <th key={to.id} className="px-2 py-2 font-medium text-center whitespace-nowrap">{to.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {workflow.map(from => (
+                  <tr key={from.id} className="border-t border-border">
+                    <td className="px-3 py-2 font-medium text-foreground whitespace-nowrap">{from.label}</td>
+                    {workflow.map(to => (
+                      <td key={to.id} className="px-2 py-2 text-center">
+                        {from.id === to.id ? (
+                          <span className="text-muted-foreground">—</span>
+                        ) : (
+                          <Checkbox
+                            checked={isMoveAllowed(rules, from.id, to.id)}
+                            onCheckedChange={(checked) =>
+                              onChange(setMoveAllowed(rules, workflow, from.id, to.id, checked === true))
+                            }
+                            disabled={!canEdit}
+                            aria-label={`Allow moving from ${from.label} to ${to.label}`}
+                          />
+                        )}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+
+        {/* Guards */}
+        <div className="space-y-2">
+          <h3 className="text-sm font-semibold text-foreground">Before a task moves to a status</h3>
+          {guards.length > 0 ? (
+            <div className="space-y-3">
+              {guards.map(guard => (
+                <div key={guard.id} className="p-3 rounded-lg border border-border bg-card space-y-3">
+                  <div className="flex items-center gap-2">
+                    <span className="text-sm text-muted-foreground shrink-0">Moving to</span>
+                    <Select
+                      value={guard.to}
+                      onValueChange={(to) => updateGuard(guard.id, { to })}
+                      disabled={!canEdit}
+                    >
+                      <SelectTrigger className="w-44 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {workflow.map(status => (
+                          <SelectItem key={status.id} value={status.id}>{status.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {canEdit && (
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="ml-auto h-8 w-8 text-muted-foreground hover:text-destructive"
+                        onClick={() => onChange({ ...rules, guards: guards.filter(g => g.id !== guard.id) })}
+                        aria-label="Remove rule"
+                      >
+                        <X className="h-4 w-4" />
+                      </Button>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-[7rem_1fr] gap-x-3 gap-y-2 items-start text-sm">
+                    <span className="text-muted-foreground pt-0.5">Task types</span>
+                    <ToggleChips<TaskType>
+                      options={TYPE_LABELS}
+                      selected={guard.taskTypes ?? []}
+                      onChange={(taskTypes) => updateGuard(guard.id, { taskTypes })}
+                      disabled={!canEdit}
+                    />
+                    <span className="text-muted-foreground pt-0.5">Only roles</span>
+                    <ToggleChips<Role>
+                      options={ROLE_LABELS}
+                      selected={guard.roles ?? []}
+                      onChange={(roles) => updateGuard(guard.id, { roles })}
+                      disabled={!canEdit}
+                    />
+                    <span className="text-muted-foreground pt-0.5">Requires</span>
+                    <ToggleChips<TransitionRequirement>
+                      options={REQUIREMENT_LABELS}
+                      selected={guard.requires ?? []}
+                      onChange={(requires) => updateGuard(guard.id, { requires })}
+                      disabled={!canEdit}
+                    />
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    No task type selected means every type; no role means anyone.
+                  </p>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="py-4 text-center text-sm text-muted-foreground">Tasks can move freely.</p>
+          )}
+          {canEdit && (
+            <Button variant="outline" size="sm" onClick={addGuard} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add Rule
+            </Button>
+          )}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,44 @@
+import React from 'react';
+import { Trash2 } from 'lucide-react';
+import { useProject } from '@/contexts/ProjectContext';
+import { Label } from '@/components/ui/label';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { TRASH_RETENTION_OPTIONS } from '@/lib/trash';
+
+export function TrashSettings() {
+  const { preferences, updatePreferences } = useProject();
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="text-lg flex items-center gap-2">
+          <Trash2 className="h-5 w-5" />
+          Trash
+        </CardTitle>
+        <CardDescription>Deleted projects and tasks can be restored from the trash until they expire.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <div className="flex items-center justify-between gap-4">
+          <div className="space-y-0.5">
+            <Label className="text-sm font-medium">Keep deleted items for</Label>
+            <p className="text-sm text-muted-foreground">Older items are deleted permanently, including their attachments</p>
+          </div>
+          <Select
+            value={String(preferences.trashRetentionDays)}
+            onValueChange={(value) => updatePreferences({ trashRetentionDays: Number(value) })}
+          >
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <SelectItem key={days} value={String(days)}>{days} days</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,135 @@
+import React from 'react';
+import { Gauge, Plus, X } from 'lucide-react';
+import { WipLimit, WipScope, WorkflowStatus } from '@/types';
+import { newWipLimit } from '@/lib/wipLimits';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+const SCOPE_LABELS: Record<WipScope, string> = {
+  column: 'Whole column',
+  assignee: 'Per assignee',
+};
+
+interface WipLimitSettingsProps {
+  limits: WipLimit[];
+  onChange: (limits: WipLimit[]) => void;
+  // The workflow as currently edited, so new statuses can get limits before saving
+  workflow: WorkflowStatus[];
+  // Only managers and admins can change the limits; others see them read-only
+  canEdit: boolean;
+}
+
+export function WipLimitSettings({ limits, onChange, workflow, canEdit }: WipLimitSettingsProps) {
+  const updateLimit = (id: string, changes: Partial<WipLimit>) => {
+    onChange(limits.map(limit => (limit.id === id ? { ...limit, ...changes } : limit)));
+  };
+
+  // An empty box removes that limit
+  const parseLimit = (value: string) => (value === '' ? undefined : Number(value));
+
+  const addLimit = () => {
+    const active = workflow.find(s => s.category === 'active') ?? workflow[0];
+    onChange([...limits, newWipLimit(active.id)]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gauge className="h-5 w-5" />
+          WIP Limits
+        </CardTitle>
+        <CardDescription>
+          How many tasks a status should hold. Columns over a soft limit are highlighted; moves past a
+          hard limit are refused unless a manager overrides.
+          {!canEdit && ' Only managers and admins can change the limits.'}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {limits.length > 0 ? (
+          <div className="space-y-2">
+            <div className="flex items-center gap-2 px-2 text-xs text-muted-foreground">
+              <span className="flex-1">Status</span>
+              <span className="w-36">Counts</span>
+              <span className="w-20">Soft</span>
+              <span className="w-20">Hard</span>
+              {canEdit && <span className="w-8" />}
+            </div>
+            {limits.map(limit => (
+              <div key={limit.id} className="flex items-center gap-2 p-2 rounded-lg border border-border bg-card">
+                <Select
+                  value={limit.status}
+                  onValueChange={(status) => updateLimit(limit.id, { status })}
+                  disabled={!canEdit}
+                >
+                  <SelectTrigger className="flex-1 h-8">
+                    <SelectValue placeholder="Removed status" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {workflow.map(status => (
+                      <SelectItem key={status.id} value={status.id}>{status.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={limit.scope}
+                  onValueChange={(value) => updateLimit(limit.id, { scope: value as WipScope })}
+                  disabled={!canEdit}
+                >
+                  <SelectTrigger className="w-36 h-8 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(SCOPE_LABELS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min={1}
+                  value={limit.soft ?? ''}
+                  onChange={(e) => updateLimit(limit.id, { soft: parseLimit(e.target.value) })}
+                  disabled={!canEdit}
+                  className="w-20 h-8 shrink-0"
+                  aria-label="Soft limit"
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  value={limit.hard ?? ''}
+                  onChange={(e) => updateLimit(limit.id, { hard: parseLimit(e.target.value) })}
+                  disabled={!canEdit}
+                  className="w-20 h-8 shrink-0"
+                  aria-label="Hard limit"
+                />
+                {canEdit && (
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => onChange(limits.filter(l => l.id !== limit.id))}
+                    aria-label="Remove limit"
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                )}
+              </div>
+            ))}
+          </div>
+        ) : (
+          <p className="py-4 text-center text-sm text-muted-foreground">No WIP limits yet.</p>
+        )}
+
+        {canEdit && (
+          <Button variant="outline" size="sm" onClick={addLimit} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Limit
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
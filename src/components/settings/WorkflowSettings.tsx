@@ -0,0 +1,190 @@
+import React, { useState } from 'react';
+import { ArrowDown, ArrowUp, Bell, BellOff, Plus, Workflow, X } from 'lucide-react';
+import { StatusCategory, WorkflowStatus } from '@/types';
+import { STATUS_CATEGORY_LABELS, WORKFLOW_PRESETS, newWorkflowStatus } from '@/lib/workflow';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface WorkflowSettingsProps {
+  statuses: WorkflowStatus[];
+  onChange: (statuses: WorkflowStatus[]) => void;
+  // Tasks currently in each status, by status id
+  taskCounts: Record<string, number>;
+  // Only managers and admins can change the workflow; others see it read-only
+  canEdit: boolean;
+}
+
+export function WorkflowSettings({ statuses, onChange, taskCounts, canEdit }: WorkflowSettingsProps) {
+  const [newLabel, setNewLabel] = useState('');
+  const [newCategory, setNewCategory] = useState<StatusCategory>('active');
+
+  const updateStatus = (id: string, changes: Partial<WorkflowStatus>) => {
+    onChange(statuses.map(status => (status.id === id ? { ...status, ...changes } : status)));
+  };
+
+  const moveStatus = (index: number, offset: -1 | 1) => {
+    const target = index + offset;
+    if (target < 0 || target >= statuses.length) return;
+    const next = [...statuses];
+    [next[index], next[target]] = [next[target], next[index]];
+    onChange(next);
+  };
+
+  const handleAdd = () => {
+    if (!newLabel.trim()) return;
+    onChange([...statuses, newWorkflowStatus(newLabel.trim(), newCategory)]);
+    setNewLabel('');
+  };
+
+  const applyPreset = (name: string) => {
+    const preset = WORKFLOW_PRESETS.find(p => p.name === name);
+    if (preset) onChange(preset.statuses.map(status => ({ ...status })));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Workflow className="h-5 w-5" />
+              Workflow
+            </CardTitle>
+            <CardDescription>
+              The board columns of this project, in order. Tasks in a removed status move to the first
+              status of the same kind when you save.
+              {!canEdit && ' Only managers and admins can change the workflow.'}
+            </CardDescription>
+          </div>
+          {canEdit && (
+            <Select value="" onValueChange={applyPreset}>
+              <SelectTrigger className="w-40 shrink-0">
+                <SelectValue placeholder="Use a preset" />
+              </SelectTrigger>
+              <SelectContent>
+                {WORKFLOW_PRESETS.map(preset => (
+                  <SelectItem key={preset.name} value={preset.name}>{preset.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          {statuses.map((status, index) => (
+            <div key={status.id} className="flex items-center gap-2 p-2 rounded-lg border border-border bg-card">
+              <input
+                type="color"
+                value={status.color}
+                onChange={(e) => updateStatus(status.id, { color: e.target.value })}
+                disabled={!canEdit}
+                className="h-8 w-8 shrink-0 cursor-pointer rounded border-0 bg-transparent p-0 disabled:cursor-default"
+                aria-label={`Color of "${status.label}"`}
+              />
+              <Input
+                value={status.label}
+                onChange={(e) => updateStatus(status.id, { label: e.target.value })}
+                disabled={!canEdit}
+                className="flex-1 h-8"
+                aria-label="Status name"
+              />
+              <Select
+                value={status.category}
+                onValueChange={(value) => updateStatus(status.id, { category: value as StatusCategory })}
+                disabled={!canEdit}
+              >
+                <SelectTrigger className="w-32 h-8 shrink-0">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(STATUS_CATEGORY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <span className="w-14 shrink-0 text-right text-xs text-muted-foreground">
+                {taskCounts[status.id] ?? 0} {taskCounts[status.id] === 1 ? 'task' : 'tasks'}
+              </span>
+              <Button
+                variant="ghost"
+                size="icon"
+                className={cn('h-8 w-8 shrink-0', status.notify ? 'text-primary' : 'text-muted-foreground')}
+                onClick={() => updateStatus(status.id, { notify: !status.notify })}
+                disabled={!canEdit}
+                title={status.notify ? 'Assignees are emailed when a task moves here' : 'No email when a task moves here'}
+                aria-label={`Email assignees on "${status.label}"`}
+                aria-pressed={!!status.notify}
+              >
+                {status.notify ? <Bell className="h-4 w-4" /> : <BellOff className="h-4 w-4" />}
+              </Button>
+              {canEdit && (
+                <>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => moveStatus(index, -1)}
+                    disabled={index === 0}
+                    aria-label={`Move "${status.label}" up`}
+                  >
+                    <ArrowUp className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0"
+                    onClick={() => moveStatus(index, 1)}
+                    disabled={index === statuses.length - 1}
+                    aria-label={`Move "${status.label}" down`}
+                  >
+                    <ArrowDown className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8 shrink-0 text-muted-foreground hover:text-destructive"
+                    onClick={() => onChange(statuses.filter(s => s.id !== status.id))}
+                    disabled={statuses.length === 1}
+                    aria-label={`Remove status "${status.label}"`}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </>
+              )}
+            </div>
+          ))}
+        </div>
+
+        {canEdit && (
+          <div className="flex gap-2 pt-2 border-t border-border">
+            <Input
+              value={newLabel}
+              onChange={(e) => setNewLabel(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAdd()}
+              placeholder="New status, e.g. Ethics Review"
+              className="flex-1"
+            />
+            <Select value={newCategory} onValueChange={(value) => setNewCategory(value as StatusCategory)}>
+              <SelectTrigger className="w-32">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(STATUS_CATEGORY_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button variant="outline" onClick={handleAdd} disabled={!newLabel.trim()} className="gap-2">
+              <Plus className="h-4 w-4" />
+              Add
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,272 @@
+import React, { useRef, useState } from 'react';
+import { format } from 'date-fns';
+import { Download, Upload, Loader2, Archive, AlertTriangle, CheckCircle2 } from 'lucide-react';
+import { useProject } from '@/contexts/ProjectContext';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getSafeErrorMessage, logError } from '@/lib/errorHandler';
+import { fetchAttachmentRows } from '@/lib/workspaceApi';
+import { downloadBlob } from '@/lib/download';
+import {
+  ParsedArchive,
+  RestoreMode,
+  SkippedRecord,
+  createArchive,
+  archiveFileName,
+  parseArchive,
+  planRestore,
+} from '@/lib/workspaceArchive';
+
+interface RestoreReport {
+  added: { projects: number; tasks: number; comments: number; notifications: number; attachments: number };
+  skipped: SkippedRecord[];
+}
+
+export function WorkspaceBackup() {
+  const { projects, tasks, comments, notifications, preferences, restoreWorkspace } = useProject();
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [isExporting, setIsExporting] = useState(false);
+  const [isRestoring, setIsRestoring] = useState(false);
+  const [parsed, setParsed] = useState<ParsedArchive | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('merge');
+  const [confirmReplace, setConfirmReplace] = useState(false);
+  const [report, setReport] = useState<RestoreReport | null>(null);
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const attachments = await fetchAttachmentRows(tasks.map(t => t.id));
+      const archive = createArchive({ projects, tasks, comments, notifications, preferences, attachments });
+      const blob = new Blob([JSON.stringify(archive, null, 2)], { type: 'application/json' });
+      downloadBlob(blob, archiveFileName(archive));
+      toast({ title: 'Backup created', description: `${projects.length} projects and ${tasks.length} tasks saved` });
+    } catch (error) {
+      logError('exportWorkspace', error);
+      toast({ title: 'Backup failed', description: getSafeErrorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleFileSelect = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setReport(null);
+    try {
+      setParsed(parseArchive(await file.text()));
+      setFileName(file.name);
+    } catch (error) {
+      setParsed(null);
+      toast({
+        title: 'Cannot read backup',
+        description: error instanceof Error ? error.message : 'The file could not be read',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!parsed) return;
+    setIsRestoring(true);
+    try {
+      const plan = planRestore(parsed, { projects, tasks, comments, notifications }, mode);
+      const skipped = await restoreWorkspace(plan);
+      const countAttachments = (records: SkippedRecord[]) => records.filter(r => r.kind === 'attachment').length;
+      const failedAttachments = countAttachments(skipped) - countAttachments(plan.skipped);
+      setReport({
+        added: {
+          projects: plan.projects.length,
+          tasks: plan.tasks.length,
+          comments: plan.comments.length,
+          notifications: plan.notifications.length,
+          attachments: plan.attachments.length - failedAttachments,
+        },
+        skipped,
+      });
+      setParsed(null);
+      toast({ title: 'Backup restored' });
+    } catch (error) {
+      logError('restoreWorkspace', error);
+      toast({ title: 'Restore failed', description: getSafeErrorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsRestoring(false);
+      setConfirmReplace(false);
+    }
+  };
+
+  const archiveData = parsed?.archive.data;
+
+  return (
+    <>
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Archive className="h-5 w-5" />
+            Backup
+          </CardTitle>
+          <CardDescription>
+            Download everything in this workspace as a single file: projects, tasks, comments,
+            notifications, preferences and attachment details.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Button onClick={handleExport} disabled={isExporting} className="w-full sm:w-auto">
+            {isExporting ? (
+              <>
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Preparing...
+              </>
+            ) : (
+              <>
+                <Download className="h-4 w-4 mr-2" />
+                Download Backup
+              </>
+            )}
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-lg flex items-center gap-2">
+            <Upload className="h-5 w-5" />
+            Restore
+          </CardTitle>
+          <CardDescription>Restore a backup into this account. Restored items get new IDs, so nothing is overwritten.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-5">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            onChange={handleFileSelect}
+            className="hidden"
+          />
+          <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isRestoring}>
+            <Upload className="h-4 w-4 mr-2" />
+            Choose Backup File
+          </Button>
+
+          {parsed && archiveData && (
+            <div className="space-y-4">
+              <div className="p-3 rounded-lg bg-muted/50 text-sm space-y-1">
+                <p className="font-medium text-foreground">{fileName}</p>
+                <p className="text-muted-foreground">
+                  Created {format(new Date(parsed.archive.exportedAt), 'MMM d, yyyy HH:mm')} ·{' '}
+                  {archiveData.projects.length} projects · {archiveData.tasks.length} tasks ·{' '}
+                  {archiveData.comments.length} comments · {archiveData.attachments.length} attachments
+                </p>
+                {parsed.invalid.length > 0 && (
+                  <p className="text-warning">{parsed.invalid.length} invalid records will be skipped</p>
+                )}
+              </div>
+
+              <RadioGroup value={mode} onValueChange={(value) => setMode(value as RestoreMode)} className="space-y-2">
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="merge" id="restore-merge" className="mt-0.5" />
+                  <Label htmlFor="restore-merge" className="space-y-0.5 cursor-pointer">
+                    <span className="text-sm font-medium">Merge</span>
+                    <p className="text-sm text-muted-foreground font-normal">
+                      Keep the current workspace and add anything from the backup that is not already here.
+                    </p>
+                  </Label>
+                </div>
+                <div className="flex items-start gap-3">
+                  <RadioGroupItem value="replace" id="restore-replace" className="mt-0.5" />
+                  <Label htmlFor="restore-replace" className="space-y-0.5 cursor-pointer">
+                    <span className="text-sm font-medium">Replace</span>
+                    <p className="text-sm text-muted-foreground font-normal">
+                      Delete the current projects and notifications, then restore the backup and its preferences.
+                    </p>
+                  </Label>
+                </div>
+              </RadioGroup>
+
+              <div className="flex gap-2">
+                <Button
+                  onClick={() => (mode === 'replace' ? setConfirmReplace(true) : handleRestore())}
+                  disabled={isRestoring}
+                >
+                  {isRestoring ? (
+                    <>
+                      <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                      Restoring...
+                    </>
+                  ) : (
+                    'Restore Backup'
+                  )}
+                </Button>
+                <Button variant="ghost" onClick={() => setParsed(null)} disabled={isRestoring}>
+                  Cancel
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {report && (
+            <div className="space-y-3">
+              <div className="flex items-center gap-2 text-sm">
+                <CheckCircle2 className="h-4 w-4 text-success" />
+                <span>
+                  Restored {report.added.projects} projects, {report.added.tasks} tasks, {report.added.comments} comments,{' '}
+                  {report.added.notifications} notifications and {report.added.attachments} attachments.
+                </span>
+              </div>
+              {report.skipped.length > 0 && (
+                <div className="rounded-lg border border-border text-sm">
+                  <p className="px-3 py-2 font-medium border-b border-border">
+                    Skipped {report.skipped.length} item{report.skipped.length === 1 ? '' : 's'}
+                  </p>
+                  <ul className="max-h-60 overflow-y-auto divide-y divide-border">
+                    {report.skipped.map((item, index) => (
+                      <li key={`${item.kind}-${item.id}-${index}`} className="px-3 py-2 flex justify-between gap-4">
+                        <span className="truncate">
+                          <span className="text-muted-foreground capitalize">{item.kind}</span>{' '}
+                          {item.label || item.id}
+                        </span>
+                        <span className="text-muted-foreground shrink-0">{item.reason}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmReplace} onOpenChange={setConfirmReplace}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2 text-destructive">
+              <AlertTriangle className="h-5 w-5" />
+              Replace Workspace
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              This deletes all {projects.length} current projects with their tasks and comments before restoring the
+              backup. This action <strong>cannot be undone</strong>.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={handleRestore}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Replace and Restore
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
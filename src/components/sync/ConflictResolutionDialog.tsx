@@ -0,0 +1,136 @@
+import React from 'react';
+import { format } from 'date-fns';
+import { AlertTriangle } from 'lucide-react';
+import { useProject } from '@/contexts/ProjectContext';
+import { Task, PRIORITY_LABELS, Priority } from '@/types';
+import { findStatus } from '@/lib/workflow';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+
+const FIELD_LABELS: Partial<Record<keyof Task, string>> = {
+  title: 'Title',
+  description: 'Description',
+  status: 'Status',
+  priority: 'Priority',
+  assigneeIds: 'Assignees',
+  dueDate: 'Due date',
+  tags: 'Tags',
+};
+
+export function ConflictResolutionDialog() {
+  const { conflicts, resolveConflict, teamMembers, getProjectWorkflow } = useProject();
+  const conflict = conflicts[0];
+
+  if (!conflict) return null;
+
+  const { mutation, local, remote } = conflict;
+
+  const formatValue = (field: keyof Task, value: unknown): string => {
+    if (value === undefined || value === null || value === '') return '—';
+    if (field === 'status') {
+      return findStatus(getProjectWorkflow(remote?.projectId ?? local?.projectId ?? ''), String(value)).label;
+    }
+    if (field === 'priority') return PRIORITY_LABELS[value as Priority] ?? String(value);
+    if (field === 'assigneeIds') {
+      const names = (value as string[]).map(id => teamMembers.find(m => m.id === id)?.name ?? id);
+      return names.length > 0 ? names.join(', ') : '—';
+    }
+    if (field === 'dueDate') return format(new Date(value as string), 'MMM d, yyyy');
+    if (Array.isArray(value)) return value.length > 0 ? value.join(', ') : '—';
+    return String(value);
+  };
+
+  // Only the fields this client touched are worth comparing
+  const changedFields = (
+    mutation.kind === 'updateTask'
+      ? Object.keys(mutation.changes)
+      : mutation.kind === 'updateTaskStatus' ? ['status'] : []
+  ) as (keyof Task)[];
+
+  const taskTitle = remote?.title ?? local?.title ?? 'A deleted task';
+
+  let description: string;
+  if (mutation.kind === 'addComment') {
+    description = 'You commented on a task while offline, but a teammate deleted it before your comment could be saved.';
+  } else if (!remote) {
+    description = 'You changed this task while offline, but a teammate deleted it in the meantime.';
+  } else if (mutation.kind === 'deleteTask') {
+    description = 'You deleted this task while offline, but a teammate has changed it since.';
+  } else {
+    description = 'You changed this task while offline, and a teammate changed it too. Choose which version to keep.';
+  }
+
+  const canKeepMine = !!remote && mutation.kind !== 'addComment';
+
+  return (
+    <Dialog open>
+      <DialogContent
+        className="sm:max-w-lg"
+        onInteractOutside={e => e.preventDefault()}
+        onEscapeKeyDown={e => e.preventDefault()}
+      >
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="h-5 w-5 text-warning" />
+            Sync conflict
+          </DialogTitle>
+          <DialogDescription>
+            <span className="font-medium text-foreground">{taskTitle}</span>
+            {' — '}
+            {description}
+          </DialogDescription>
+        </DialogHeader>
+
+        {mutation.kind === 'addComment' && (
+          <p className="text-sm rounded-lg bg-muted p-3 whitespace-pre-wrap">{mutation.comment.content}</p>
+        )}
+
+        {remote && changedFields.length > 0 && (
+          <div className="rounded-lg border border-border overflow-hidden text-sm">
+            <div className="grid grid-cols-3 bg-muted/50 px-3 py-2 font-medium text-muted-foreground">
+              <span>Field</span>
+              <span>Yours</span>
+              <span>Theirs</span>
+            </div>
+            {changedFields.map(field => (
+              <div key={field} className="grid grid-cols-3 gap-2 px-3 py-2 border-t border-border">
+                <span className="text-muted-foreground">{FIELD_LABELS[field] ?? field}</span>
+                <span className="break-words">{formatValue(field, local?.[field])}</span>
+                <span className="break-words">{formatValue(field, remote[field])}</span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {canKeepMine ? (
+            <>
+              <Button variant="outline" onClick={() => resolveConflict(conflict.id, 'theirs')}>
+                Keep theirs
+              </Button>
+              <Button onClick={() => resolveConflict(conflict.id, 'mine')}>
+                {mutation.kind === 'deleteTask' ? 'Delete anyway' : 'Keep mine'}
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => resolveConflict(conflict.id, 'theirs')}>
+              Discard my change
+            </Button>
+          )}
+        </DialogFooter>
+        {conflicts.length > 1 && (
+          <p className="text-xs text-muted-foreground text-center">
+            {conflicts.length - 1} more conflict{conflicts.length > 2 ? 's' : ''} after this one
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -13,9 +13,10 @@ import {
   subWeeks,
   isToday,
   parseISO,
+  endOfDay,
 } from 'date-fns';
 import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
-import { ChevronLeft, ChevronRight, LayoutGrid, List, GripVertical } from 'lucide-react';
+import { ChevronLeft, ChevronRight, LayoutGrid, List, GripVertical, Repeat } from 'lucide-react';
 import { useProject } from '@/contexts/ProjectContext';
 import { Button } from '@/components/ui/button';
 import { cn } from '@/lib/utils';
@@ -27,6 +28,7 @@ import {
   TooltipTrigger,
 } from '@/components/ui/tooltip';
 import { toast } from '@/hooks/use-toast';
+import { describeRecurrence, upcomingOccurrences } from '@/lib/recurrence';
 
 interface CalendarViewProps {
   projectId: string;
@@ -70,6 +72,23 @@ export function CalendarView({ projectId }: CalendarViewProps) {
     return map;
   }, [projectTasks]);
 
+  // Later occurrences of recurring tasks, shown as ghosts until they are created
+  const ghostsByDate = useMemo(() => {
+    const map = new Map<string, Task[]>();
+    const rangeStart = days[0];
+    const rangeEnd = endOfDay(days[days.length - 1]);
+    projectTasks.forEach(task => {
+      if (!task.recurrence || !task.dueDate) return;
+      upcomingOccurrences(task.recurrence, task.dueDate, rangeEnd)
+        .filter(date => date >= rangeStart)
+        .forEach(date => {
+          const dateKey = format(date, 'yyyy-MM-dd');
+          map.set(dateKey, [...(map.get(dateKey) || []), task]);
+        });
+    });
+    return map;
+  }, [projectTasks, days]);
+
   const handleDragEnd = (result: DropResult) => {
     if (!result.destination) return;
 
@@ -197,6 +216,10 @@ export function CalendarView({ projectId }: CalendarViewProps) {
             {days.map((day) => {
               const dateKey = format(day, 'yyyy-MM-dd');
               const dayTasks = tasksByDate.get(dateKey) || [];
+              const dayGhosts = ghostsByDate.get(dateKey) || [];
+              // Month cells fit three entries; real tasks take the slots first
+              const visibleGhosts = mode === 'week' ? dayGhosts : dayGhosts.slice(0, Math.max(0, 3 - dayTasks.length));
+              const hiddenCount = dayTasks.length + dayGhosts.length - 3;
               const isCurrentMonth = isSameMonth(day, currentDate);
               const isCurrentDay = isToday(day);
 
@@ -224,9 +247,9 @@ export function CalendarView({ projectId }: CalendarViewProps) {
                         >
                           {format(day, 'd')}
                         </span>
-                        {dayTasks.length > 3 && mode === 'month' && (
+                        {hiddenCount > 0 && mode === 'month' && (
                           <span className="text-xs text-muted-foreground">
-                            +{dayTasks.length - 3} more
+                            +{hiddenCount} more
                           </span>
                         )}
                       </div>
@@ -295,6 +318,30 @@ export function CalendarView({ projectId }: CalendarViewProps) {
                             )}
                           </Draggable>
                         ))}
+                        {visibleGhosts.map(task => (
+                          <Tooltip key={`${task.id}-ghost`}>
+                            <TooltipTrigger asChild>
+                              <button
+                                onClick={() => setCurrentTaskId(task.id)}
+                                className="w-full text-left px-1.5 py-1 rounded text-xs border border-dashed border-border text-muted-foreground opacity-70 hover:opacity-100 transition-opacity"
+                              >
+                                <div className="flex items-center gap-1">
+                                  <Repeat className="h-3 w-3 flex-shrink-0" />
+                                  <span className="truncate">{task.title}</span>
+                                </div>
+                              </button>
+                            </TooltipTrigger>
+                            <TooltipContent side="right" className="max-w-xs">
+                              <div className="space-y-1">
+                                <p className="font-medium">{task.title}</p>
+                                <p className="text-xs text-muted-foreground">{describeRecurrence(task.recurrence!)}</p>
+                                <p className="text-xs text-muted-foreground italic">
+                                  Upcoming occurrence, created when the current one is done
+                                </p>
+                              </div>
+                            </TooltipContent>
+                          </Tooltip>
+                        ))}
                         {provided.placeholder}
                       </div>
                     </div>
@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { useProject } from '@/contexts/ProjectContext';
-import { Task, TaskType, Priority, Status, TYPE_LABELS, PRIORITY_LABELS, STATUS_LABELS } from '@/types';
+import { TaskType, Priority, Status, CustomFieldValue, TYPE_LABELS, PRIORITY_LABELS } from '@/types';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
@@ -21,6 +21,12 @@ import {
 import { cn } from '@/lib/utils';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { useTaskTemplates } from '@/hooks/useTaskTemplates';
+import { taskFromTemplate, templatesForProject } from '@/lib/taskTemplates';
+import { initialStatus, projectWorkflow } from '@/lib/workflow';
+import { NewTask } from '@/lib/taskImport';
+import { normalizeCustomValues } from '@/lib/customFields';
+import { CustomFieldInput } from './CustomFieldInput';
 
 interface CreateTaskDialogProps {
   open: boolean;
@@ -30,39 +36,81 @@ interface CreateTaskDialogProps {
 
 export function CreateTaskDialog({ open, onOpenChange, projectId }: CreateTaskDialogProps) {
   const { addTask, teamMembers, projects } = useProject();
+  const { templates } = useTaskTemplates(open);
+  const projectTemplates = templatesForProject(templates, projectId);
+  const project = projects.find(p => p.id === projectId);
+  const customFields = project?.customFields ?? [];
+  const workflow = projectWorkflow(project);
   
   const [title, setTitle] = useState('');
   const [description, setDescription] = useState('');
   const [type, setType] = useState<TaskType>('general');
   const [priority, setPriority] = useState<Priority>('medium');
-  const [status, setStatus] = useState<Status>('todo');
+  const [status, setStatus] = useState<Status>(() => initialStatus(workflow));
   const [assigneeIds, setAssigneeIds] = useState<string[]>([]);
   const [dueDate, setDueDate] = useState('');
   const [tags, setTags] = useState('');
+  const [customValues, setCustomValues] = useState<Record<string, CustomFieldValue>>({});
   const [isSubmitting, setIsSubmitting] = useState(false);
+  // Task built from the chosen template; supplies the fields the form doesn't show
+  const [templateId, setTemplateId] = useState('none');
+  const [templateTask, setTemplateTask] = useState<NewTask | null>(null);
+  // The dialog outlives project switches, so fall back when the status isn't in this workflow
+  const selectedStatus = workflow.some(s => s.id === status) ? status : initialStatus(workflow);
 
-  const handleSubmit = async (e: React.FormEvent) => {
+  const applyTemplate = (id: string) => {
+    setTemplateId(id);
+    const template = templates.find(t => t.id === id);
+    if (!template) {
+      setTemplateTask(null);
+      return;
+    }
+    if (!project) return;
+    const task = taskFromTemplate(template, project);
+    setTemplateTask(task);
+    setTitle(task.title);
+    setDescription(task.description);
+    setType(task.type);
+    setPriority(task.priority);
+    setDueDate(task.dueDate ?? '');
+    setTags(task.tags.join(', '));
+    setCustomValues(task.customFieldValues ?? {});
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
-    
+    createTask();
+  };
+
+  const createTask = async (overrideWip = false) => {
     if (!title.trim()) return;
 
     setIsSubmitting(true);
 
-    const newTask = addTask({
+    const created = addTask({
+      // Type-specific fields only fit if the type wasn't changed afterwards
+      ...(templateTask && templateTask.type === type ? templateTask : {}),
       projectId,
       title: title.trim(),
       description: description.trim(),
       type,
       priority,
-      status,
+      status: selectedStatus,
       assigneeIds,
       dueDate: dueDate || undefined,
       tags: tags.split(',').map(t => t.trim()).filter(Boolean),
-    });
+      customFieldValues: normalizeCustomValues(customFields, customValues),
+    }, overrideWip);
+    if (!created.ok) {
+      toast.error(created.reason, created.canOverride
+        ? { action: { label: 'Create anyway', onClick: () => createTask(true) } }
+        : undefined);
+      setIsSubmitting(false);
+      return;
+    }
 
     // Send email notifications to assignees
     if (assigneeIds.length > 0) {
-      const project = projects.find(p => p.id === projectId);
       const assignees = teamMembers
         .filter(m => assigneeIds.includes(m.id))
         .map(m => ({ name: m.name, email: m.email }));
@@ -98,10 +146,13 @@ export function CreateTaskDialog({ open, onOpenChange, projectId }: CreateTaskDi
     setDescription('');
     setType('general');
     setPriority('medium');
-    setStatus('todo');
+    setStatus(initialStatus(workflow));
     setAssigneeIds([]);
     setDueDate('');
     setTags('');
+    setCustomValues({});
+    setTemplateId('none');
+    setTemplateTask(null);
     setIsSubmitting(false);
     
     onOpenChange(false);
@@ -115,12 +166,32 @@ export function CreateTaskDialog({ open, onOpenChange, projectId }: CreateTaskDi
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="sm:max-w-lg">
+      <DialogContent className="sm:max-w-lg max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Create New Task</DialogTitle>
         </DialogHeader>
         
         <form onSubmit={handleSubmit} className="space-y-4">
+          {projectTemplates.length > 0 && (
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Start from template</label>
+              <Select value={templateId} onValueChange={applyTemplate}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">Blank task</SelectItem>
+                  {projectTemplates.map(template => (
+                    <SelectItem key={template.id} value={template.id}>
+                      {template.name}
+                      {!template.projectId && <span className="text-muted-foreground"> · All projects</span>}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="space-y-2">
             <label className="text-sm font-medium text-foreground">Title *</label>
             <Input
@@ -174,13 +245,13 @@ export function CreateTaskDialog({ open, onOpenChange, projectId }: CreateTaskDi
           <div className="grid grid-cols-2 gap-4">
             <div className="space-y-2">
               <label className="text-sm font-medium text-foreground">Status</label>
-              <Select value={status} onValueChange={(v) => setStatus(v as Status)}>
+              <Select value={selectedStatus} onValueChange={(v) => setStatus(v as Status)}>
                 <SelectTrigger>
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  {Object.entries(STATUS_LABELS).map(([value, label]) => (
-                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  {workflow.map(option => (
+                    <SelectItem key={option.id} value={option.id}>{option.label}</SelectItem>
                   ))}
                 </SelectContent>
               </Select>
@@ -232,6 +303,21 @@ export function CreateTaskDialog({ open, onOpenChange, projectId }: CreateTaskDi
             />
           </div>
 
+          {customFields.length > 0 && (
+            <div className="grid grid-cols-2 gap-4">
+              {customFields.map(field => (
+                <div key={field.id} className="space-y-2">
+                  <label className="text-sm font-medium text-foreground">{field.name}</label>
+                  <CustomFieldInput
+                    field={field}
+                    value={customValues[field.id]}
+                    onChange={(value) => setCustomValues(prev => ({ ...prev, [field.id]: value }))}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+
           <DialogFooter>
             <Button type="button" variant="ghost" onClick={() => onOpenChange(false)} disabled={isSubmitting}>
               Cancel
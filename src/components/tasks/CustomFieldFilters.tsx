@@ -0,0 +1,127 @@
+import React from 'react';
+import { Filter } from 'lucide-react';
+import { useProject } from '@/contexts/ProjectContext';
+import { CustomFieldDefinition } from '@/types';
+import { CustomFieldFilter, EMPTY_OPTION, isActiveFilter } from '@/lib/customFields';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface CustomFieldFiltersProps {
+  fields: CustomFieldDefinition[];
+  filters: Record<string, CustomFieldFilter>;
+  onChange: (filters: Record<string, CustomFieldFilter>) => void;
+}
+
+const ANY = '__any';
+
+export function CustomFieldFilters({ fields, filters, onChange }: CustomFieldFiltersProps) {
+  const { teamMembers } = useProject();
+  const activeCount = fields.filter(field => isActiveFilter(filters[field.id])).length;
+
+  const setFilter = (fieldId: string, changes: CustomFieldFilter) => {
+    onChange({ ...filters, [fieldId]: { ...filters[fieldId], ...changes } });
+  };
+
+  const renderControl = (field: CustomFieldDefinition) => {
+    const filter = filters[field.id] ?? {};
+    switch (field.type) {
+      case 'text':
+      case 'url':
+        return (
+          <Input
+            value={filter.query ?? ''}
+            onChange={(e) => setFilter(field.id, { query: e.target.value })}
+            placeholder="Contains..."
+            className="h-8 text-sm"
+          />
+        );
+      case 'number':
+      case 'date': {
+        const type = field.type === 'number' ? 'number' : 'date';
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type={type}
+              value={filter.min ?? ''}
+              onChange={(e) => setFilter(field.id, { min: e.target.value })}
+              placeholder="From"
+              className="h-8 text-sm"
+              aria-label={`${field.name} from`}
+            />
+            <span className="text-muted-foreground text-sm">–</span>
+            <Input
+              type={type}
+              value={filter.max ?? ''}
+              onChange={(e) => setFilter(field.id, { max: e.target.value })}
+              placeholder="To"
+              className="h-8 text-sm"
+              aria-label={`${field.name} to`}
+            />
+          </div>
+        );
+      }
+      default: {
+        const options = field.type === 'checkbox'
+          ? [{ value: 'checked', label: 'Checked' }, { value: 'unchecked', label: 'Not checked' }]
+          : [
+              ...(field.type === 'user'
+                ? teamMembers.map(m => ({ value: m.id, label: m.name }))
+                : (field.options ?? []).map(option => ({ value: option, label: option }))),
+              { value: EMPTY_OPTION, label: 'Not set' },
+            ];
+        return (
+          <Select
+            value={filter.option ?? ANY}
+            onValueChange={(value) => setFilter(field.id, { option: value === ANY ? undefined : value })}
+          >
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={ANY}>Any</SelectItem>
+              {options.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      }
+    }
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button variant="outline" className="gap-2">
+          <Filter className="h-4 w-4" />
+          Fields
+          {activeCount > 0 && (
+            <span className="text-xs px-1.5 rounded-full bg-primary text-primary-foreground">{activeCount}</span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="start" className="w-80 space-y-3">
+        {fields.map(field => (
+          <div key={field.id} className="space-y-1.5">
+            <Label className="text-xs text-muted-foreground">{field.name}</Label>
+            {renderControl(field)}
+          </div>
+        ))}
+        {activeCount > 0 && (
+          <Button variant="ghost" size="sm" className="w-full" onClick={() => onChange({})}>
+            Clear field filters
+          </Button>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,134 @@
+import React from 'react';
+import { useProject } from '@/contexts/ProjectContext';
+import { CustomFieldDefinition, CustomFieldValue } from '@/types';
+import { isValidUrl } from '@/lib/customFields';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface CustomFieldInputProps {
+  field: CustomFieldDefinition;
+  value: CustomFieldValue | undefined;
+  onChange: (value: CustomFieldValue | undefined) => void;
+  // Typed values are only reported when the input loses focus, so editing a
+  // saved task doesn't write (and record an undo step) on every keystroke
+  commitOnBlur?: boolean;
+}
+
+const NONE = '__none';
+
+export function CustomFieldInput({ field, value, onChange, commitOnBlur = false }: CustomFieldInputProps) {
+  const { teamMembers } = useProject();
+
+  // While typing into a form, numbers stay text until normalizeCustomValues runs
+  const parseTyped = (raw: string): CustomFieldValue | undefined => {
+    if (!commitOnBlur) return raw;
+    const text = raw.trim();
+    if (!text) return undefined;
+    if (field.type === 'number') {
+      const number = Number(text);
+      return Number.isFinite(number) ? number : value;
+    }
+    return text;
+  };
+
+  switch (field.type) {
+    case 'text':
+    case 'number':
+    case 'url': {
+      const text = value === undefined ? '' : String(value);
+      const invalidUrl = field.type === 'url' && text !== '' && !isValidUrl(text);
+      const inputProps = {
+        type: field.type === 'number' ? 'number' : field.type === 'url' ? 'url' : 'text',
+        placeholder: field.type === 'url' ? 'https://...' : undefined,
+        className: cn('h-9', invalidUrl && 'border-destructive'),
+      };
+      return commitOnBlur ? (
+        <Input
+          key={text}
+          {...inputProps}
+          defaultValue={text}
+          onBlur={(e) => e.target.value !== text && onChange(parseTyped(e.target.value))}
+          onKeyDown={(e) => e.key === 'Enter' && e.currentTarget.blur()}
+        />
+      ) : (
+        <Input {...inputProps} value={text} onChange={(e) => onChange(parseTyped(e.target.value))} />
+      );
+    }
+
+    case 'date':
+      return (
+        <Input
+          type="date"
+          className="h-9"
+          value={typeof value === 'string' ? value : ''}
+          onChange={(e) => onChange(e.target.value || undefined)}
+        />
+      );
+
+    case 'checkbox':
+      return (
+        <Checkbox
+          checked={value === true}
+          onCheckedChange={(checked) => onChange(checked === true)}
+          aria-label={field.name}
+        />
+      );
+
+    case 'select':
+    case 'user': {
+      const options = field.type === 'user'
+        ? teamMembers.map(m => ({ value: m.id, label: m.name }))
+        : (field.options ?? []).map(option => ({ value: option, label: option }));
+      return (
+        <Select
+          value={typeof value === 'string' ? value : NONE}
+          onValueChange={(next) => onChange(next === NONE ? undefined : next)}
+        >
+          <SelectTrigger className="h-9">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={NONE}>None</SelectItem>
+            {options.map(option => (
+              <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    case 'multi-select': {
+      const selected = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-1.5">
+          {(field.options ?? []).map(option => {
+            const isSelected = selected.includes(option);
+            return (
+              <button
+                key={option}
+                type="button"
+                onClick={() => onChange(isSelected ? selected.filter(o => o !== option) : [...selected, option])}
+                className={cn(
+                  'px-2 py-0.5 rounded-full border text-xs transition-colors',
+                  isSelected
+                    ? 'bg-primary/10 border-primary text-primary'
+                    : 'bg-card border-border text-muted-foreground hover:border-primary/50'
+                )}
+              >
+                {option}
+              </button>
+            );
+          })}
+        </div>
+      );
+    }
+  }
+}
@@ -0,0 +1,210 @@
+import React, { useState } from 'react';
+import { ChevronUp, ChevronDown, Download, FileSpreadsheet, FileText } from 'lucide-react';
+import { toast } from 'sonner';
+import { useProject } from '@/contexts/ProjectContext';
+import { Task, WorkflowStatus, TYPE_LABELS } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { cn } from '@/lib/utils';
+import { toCsv } from '@/lib/csv';
+import { createXlsx } from '@/lib/xlsx';
+import { downloadBlob } from '@/lib/download';
+import { getSafeErrorMessage, logError } from '@/lib/errorHandler';
+import {
+  EXPORT_COLUMNS,
+  ExportColumn,
+  buildExportRows,
+  defaultExportColumns,
+  exportFileName,
+  toCsvRows,
+} from '@/lib/taskExport';
+
+interface ExportTasksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // The rows exactly as the list shows them: filtered and sorted
+  tasks: Task[];
+  workflow: WorkflowStatus[];
+  projectTitle: string;
+}
+
+type ExportFormat = 'csv' | 'xlsx';
+
+interface ColumnChoice {
+  column: ExportColumn;
+  enabled: boolean;
+}
+
+const groupLabel = (group: string) => (group === 'Basics' ? '' : TYPE_LABELS[group as keyof typeof TYPE_LABELS]);
+
+function initialColumns(tasks: Task[]): ColumnChoice[] {
+  const defaults = defaultExportColumns(tasks);
+  return [
+    ...defaults.map(column => ({ column, enabled: true })),
+    ...EXPORT_COLUMNS.filter(def => !defaults.includes(def.column)).map(def => ({ column: def.column, enabled: false })),
+  ];
+}
+
+export function ExportTasksDialog({ open, onOpenChange, tasks, workflow, projectTitle }: ExportTasksDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg max-h-[90vh] flex flex-col">
+        {/* Content unmounts on close, so every opening starts from the defaults for the current rows */}
+        <ExportTasksForm tasks={tasks} workflow={workflow} projectTitle={projectTitle} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface ExportTasksFormProps {
+  tasks: Task[];
+  workflow: WorkflowStatus[];
+  projectTitle: string;
+  onDone: () => void;
+}
+
+function ExportTasksForm({ tasks, workflow, projectTitle, onDone }: ExportTasksFormProps) {
+  const { teamMembers } = useProject();
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('xlsx');
+  const [columns, setColumns] = useState<ColumnChoice[]>(() => initialColumns(tasks));
+
+  const selected = columns.filter(choice => choice.enabled).map(choice => choice.column);
+
+  const toggleColumn = (column: ExportColumn, enabled: boolean) => {
+    setColumns(prev => prev.map(choice => (choice.column === column ? { ...choice, enabled } : choice)));
+  };
+
+  const moveColumn = (index: number, offset: -1 | 1) => {
+    setColumns(prev => {
+      const target = index + offset;
+      if (target < 0 || target >= prev.length) return prev;
+      const next = [...prev];
+      [next[index], next[target]] = [next[target], next[index]];
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    try {
+      const rows = buildExportRows(tasks, selected, teamMembers, workflow);
+      if (exportFormat === 'csv') {
+        // The byte order mark makes Excel read the file as UTF-8
+        const blob = new Blob(['\uFEFF', toCsv(toCsvRows(rows))], { type: 'text/csv;charset=utf-8' });
+        downloadBlob(blob, exportFileName(projectTitle, 'csv'));
+      } else {
+        downloadBlob(createXlsx(rows, projectTitle), exportFileName(projectTitle, 'xlsx'));
+      }
+      toast.success(`Exported ${tasks.length} ${tasks.length === 1 ? 'task' : 'tasks'}`);
+      onDone();
+    } catch (error) {
+      logError('exportTasks', error);
+      toast.error('Export failed', { description: getSafeErrorMessage(error) });
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Export Tasks</DialogTitle>
+        <DialogDescription>
+          {tasks.length} {tasks.length === 1 ? 'task' : 'tasks'} matching the current filters, in the current sort order.
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4 flex-1 overflow-hidden flex flex-col">
+        <RadioGroup
+          value={exportFormat}
+          onValueChange={(value) => setExportFormat(value as ExportFormat)}
+          className="grid grid-cols-2 gap-2"
+        >
+          {([
+            ['xlsx', 'Excel workbook', FileSpreadsheet],
+            ['csv', 'CSV', FileText],
+          ] as const).map(([value, label, Icon]) => (
+            <Label
+              key={value}
+              htmlFor={`export-${value}`}
+              className={cn(
+                'flex items-center gap-2 rounded-lg border p-3 cursor-pointer transition-colors',
+                exportFormat === value ? 'border-primary bg-primary/5' : 'border-border hover:bg-muted/50'
+              )}
+            >
+              <RadioGroupItem id={`export-${value}`} value={value} />
+              <Icon className="h-4 w-4 text-muted-foreground" />
+              {label}
+            </Label>
+          ))}
+        </RadioGroup>
+
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-foreground">Columns</h3>
+          <span className="text-xs text-muted-foreground">{selected.length} selected</span>
+        </div>
+
+        <div className="flex-1 overflow-y-auto rounded-lg border border-border divide-y divide-border">
+          {columns.map((choice, index) => {
+            const definition = EXPORT_COLUMNS.find(def => def.column === choice.column)!;
+            return (
+              <div key={choice.column} className="flex items-center gap-3 px-3 py-1.5">
+                <Checkbox
+                  id={`column-${choice.column}`}
+                  checked={choice.enabled}
+                  onCheckedChange={(checked) => toggleColumn(choice.column, checked === true)}
+                />
+                <Label
+                  htmlFor={`column-${choice.column}`}
+                  className={cn('flex-1 text-sm font-normal cursor-pointer', !choice.enabled && 'text-muted-foreground')}
+                >
+                  {definition.label}
+                  {groupLabel(definition.group) && (
+                    <span className="ml-2 text-xs text-muted-foreground">{groupLabel(definition.group)}</span>
+                  )}
+                </Label>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={index === 0}
+                  onClick={() => moveColumn(index, -1)}
+                  aria-label={`Move ${definition.label} up`}
+                >
+                  <ChevronUp className="h-4 w-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  disabled={index === columns.length - 1}
+                  onClick={() => moveColumn(index, 1)}
+                  aria-label={`Move ${definition.label} down`}
+                >
+                  <ChevronDown className="h-4 w-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <DialogFooter className="gap-2 sm:gap-0">
+        <Button variant="outline" onClick={onDone}>
+          Cancel
+        </Button>
+        <Button onClick={handleExport} disabled={selected.length === 0 || tasks.length === 0}>
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
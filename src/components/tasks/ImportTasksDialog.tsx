@@ -0,0 +1,286 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { Upload, FileSpreadsheet, AlertCircle, CheckCircle2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useProject } from '@/contexts/ProjectContext';
+import { TYPE_LABELS, PRIORITY_LABELS, TaskType } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Label } from '@/components/ui/label';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { cn } from '@/lib/utils';
+import { parseCsv } from '@/lib/csv';
+import { ColumnMapping, IMPORT_FIELDS, ImportField, buildImportRows, guessMapping } from '@/lib/taskImport';
+import { findStatus } from '@/lib/workflow';
+
+interface ImportTasksDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId: string;
+}
+
+const IGNORE = '__ignore';
+const PREVIEW_ROWS = 50;
+
+const FIELD_GROUPS = ['Basics', 'development', 'research', 'gis', 'marketing'] as const;
+
+export function ImportTasksDialog({ open, onOpenChange, projectId }: ImportTasksDialogProps) {
+  const { addTask, teamMembers, getProjectWorkflow } = useProject();
+  const workflow = getProjectWorkflow(projectId);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>([]);
+  const [skipInvalid, setSkipInvalid] = useState(false);
+
+  const importRows = useMemo(
+    () => buildImportRows(rows, mapping, { projectId, teamMembers, workflow }),
+    [rows, mapping, projectId, teamMembers, workflow]
+  );
+  const validRows = importRows.filter(row => row.task);
+  const invalidCount = importRows.length - validRows.length;
+  const hasTitle = mapping.includes('title');
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping([]);
+    setSkipInvalid(false);
+  };
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) reset();
+    onOpenChange(next);
+  };
+
+  const handleFile = async (file: File) => {
+    const [headerRow, ...dataRows] = parseCsv(await file.text());
+    if (!headerRow || dataRows.length === 0) {
+      toast.error('Nothing to import', { description: 'The file needs a header row and at least one task.' });
+      return;
+    }
+    setFileName(file.name);
+    setHeaders(headerRow.map(h => h.trim()));
+    setRows(dataRows);
+    setMapping(guessMapping(headerRow));
+  };
+
+  const handleFileSelect = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (file) handleFile(file);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    const file = event.dataTransfer.files?.[0];
+    if (file) handleFile(file);
+  };
+
+  const setColumnField = (column: number, value: string) => {
+    const field = value === IGNORE ? null : (value as ImportField);
+    setMapping(prev => prev.map((current, index) => {
+      if (index === column) return field;
+      // A field can only come from one column
+      return field && current === field ? null : current;
+    }));
+  };
+
+  const handleImport = () => {
+    const refused = validRows
+      .map(row => ({ task: row.task!, result: addTask(row.task!) }))
+      .filter(({ result }) => !result.ok);
+    // Rows only held back by a hard WIP limit can still go in if a manager says so
+    const overLimit = refused.filter(({ result }) => result.canOverride).map(({ task }) => task);
+    const imported = validRows.length - refused.length;
+    const skipped = [
+      invalidCount > 0 && `${invalidCount} row(s) with errors were skipped.`,
+      refused.length > 0 && `${refused.length} row(s) the workflow or WIP limits don't allow were skipped. ${refused[0].result.reason}`,
+    ].filter(Boolean);
+    toast.success(`Imported ${imported} task${imported === 1 ? '' : 's'}`, {
+      description: skipped.length > 0 ? skipped.join(' ') : undefined,
+      action: overLimit.length > 0
+        ? { label: 'Import anyway', onClick: () => overLimit.forEach(task => addTask(task, true)) }
+        : undefined,
+    });
+    handleOpenChange(false);
+  };
+
+  const canImport = hasTitle && validRows.length > 0 && (invalidCount === 0 || skipInvalid);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle>Import Tasks from CSV</DialogTitle>
+          <DialogDescription>
+            {fileName
+              ? `${fileName} · ${rows.length} row${rows.length === 1 ? '' : 's'}`
+              : 'Upload a spreadsheet exported as CSV. The first row must contain column names.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {!fileName ? (
+          <div
+            onDragOver={(e) => e.preventDefault()}
+            onDrop={handleDrop}
+            onClick={() => fileInputRef.current?.click()}
+            className="border-2 border-dashed border-border rounded-lg p-10 text-center cursor-pointer hover:border-primary/50 hover:bg-muted/30 transition-colors"
+          >
+            <Upload className="h-8 w-8 mx-auto text-muted-foreground mb-3" />
+            <p className="text-sm font-medium text-foreground">Drop a CSV file here or click to browse</p>
+            <p className="text-xs text-muted-foreground mt-1">Comma, semicolon and tab separated files are supported</p>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,text/csv,text/plain"
+              onChange={handleFileSelect}
+              className="hidden"
+            />
+          </div>
+        ) : (
+          <div className="flex-1 overflow-y-auto space-y-6 pr-1">
+            {/* Column mapping */}
+            <div className="space-y-2">
+              <h3 className="text-sm font-semibold text-foreground">Map columns</h3>
+              <div className="grid gap-2 sm:grid-cols-2">
+                {headers.map((header, column) => (
+                  <div key={column} className="flex items-center gap-2 p-2 rounded-lg bg-muted/40">
+                    <div className="flex-1 min-w-0">
+                      <p className="text-sm font-medium truncate">{header || `Column ${column + 1}`}</p>
+                      <p className="text-xs text-muted-foreground truncate">{rows[0]?.[column] || '—'}</p>
+                    </div>
+                    <Select value={mapping[column] ?? IGNORE} onValueChange={(value) => setColumnField(column, value)}>
+                      <SelectTrigger className="w-44 h-8 text-xs">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={IGNORE}>Don't import</SelectItem>
+                        {FIELD_GROUPS.map(group => (
+                          <SelectGroup key={group}>
+                            <SelectLabel>{group === 'Basics' ? group : TYPE_LABELS[group as TaskType]}</SelectLabel>
+                            {IMPORT_FIELDS.filter(def => def.group === group).map(def => (
+                              <SelectItem key={def.field} value={def.field}>{def.label}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+              {!hasTitle && (
+                <p className="text-sm text-destructive flex items-center gap-1.5">
+                  <AlertCircle className="h-4 w-4" />
+                  Map a column to Title to continue
+                </p>
+              )}
+            </div>
+
+            {/* Preview */}
+            {hasTitle && (
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <h3 className="text-sm font-semibold text-foreground">Preview</h3>
+                  <p className="text-xs text-muted-foreground">
+                    <span className="text-success font-medium">{validRows.length} ready</span>
+                    {invalidCount > 0 && <span className="text-destructive font-medium"> · {invalidCount} with errors</span>}
+                  </p>
+                </div>
+                <div className="border border-border rounded-lg overflow-hidden">
+                  <table className="w-full text-sm">
+                    <thead className="bg-muted/50 text-xs text-muted-foreground">
+                      <tr>
+                        <th className="px-3 py-2 text-left font-medium w-14">Row</th>
+                        <th className="px-3 py-2 text-left font-medium">Title</th>
+                        <th className="px-3 py-2 text-left font-medium hidden md:table-cell">Type</th>
+                        <th className="px-3 py-2 text-left font-medium hidden md:table-cell">Status</th>
+                        <th className="px-3 py-2 text-left font-medium hidden md:table-cell">Priority</th>
+                        <th className="px-3 py-2 text-left font-medium">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {importRows.slice(0, PREVIEW_ROWS).map(row => (
+                        <tr
+                          key={row.line}
+                          className={cn('border-t border-border align-top', row.errors.length > 0 && 'bg-destructive/5')}
+                        >
+                          <td className="px-3 py-2 text-muted-foreground">{row.line}</td>
+                          <td className="px-3 py-2 max-w-[220px] truncate">
+                            {row.task?.title ?? rows[row.line - 2][mapping.indexOf('title')] ?? ''}
+                          </td>
+                          <td className="px-3 py-2 hidden md:table-cell">{row.task && TYPE_LABELS[row.task.type]}</td>
+                          <td className="px-3 py-2 hidden md:table-cell">{row.task && findStatus(workflow, row.task.status).label}</td>
+                          <td className="px-3 py-2 hidden md:table-cell">{row.task && PRIORITY_LABELS[row.task.priority]}</td>
+                          <td className="px-3 py-2">
+                            {row.errors.length === 0 ? (
+                              <CheckCircle2 className="h-4 w-4 text-success" />
+                            ) : (
+                              <ul className="text-xs text-destructive space-y-0.5">
+                                {row.errors.map((error, i) => <li key={i}>{error}</li>)}
+                              </ul>
+                            )}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                  {importRows.length > PREVIEW_ROWS && (
+                    <p className="px-3 py-2 text-xs text-muted-foreground border-t border-border">
+                      Showing the first {PREVIEW_ROWS} of {importRows.length} rows
+                    </p>
+                  )}
+                </div>
+                {invalidCount > 0 && (
+                  <div className="flex items-center gap-2">
+                    <Checkbox
+                      id="skip-invalid"
+                      checked={skipInvalid}
+                      onCheckedChange={(checked) => setSkipInvalid(checked === true)}
+                    />
+                    <Label htmlFor="skip-invalid" className="text-sm font-normal cursor-pointer">
+                      Skip the {invalidCount} row{invalidCount === 1 ? '' : 's'} with errors and import the rest
+                    </Label>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="gap-2 sm:gap-0">
+          {fileName && (
+            <Button variant="ghost" onClick={reset} className="sm:mr-auto">
+              <FileSpreadsheet className="h-4 w-4 mr-2" />
+              Choose another file
+            </Button>
+          )}
+          <Button variant="outline" onClick={() => handleOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleImport} disabled={!canImport}>
+            Import {validRows.length > 0 ? validRows.length : ''} Task{validRows.length === 1 ? '' : 's'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,106 +1,287 @@
-import React from 'react';
-import { DragDropContext, Droppable, Draggable, DropResult } from '@hello-pangea/dnd';
+import React, { useRef, useState } from 'react';
+import { DragDropContext, Droppable, Draggable, DragStart, DropResult } from '@hello-pangea/dnd';
+import { AlertTriangle, ChevronDown, ChevronRight, Lock, Rows3 } from 'lucide-react';
+import { toast } from 'sonner';
 import { useProject } from '@/contexts/ProjectContext';
-import { Status, STATUS_ORDER, STATUS_LABELS } from '@/types';
+import { Status, Task } from '@/types';
 import { TaskCard } from './TaskCard';
 import { cn } from '@/lib/utils';
+import { sortByRank } from '@/lib/rank';
+import { describeWipViolation, statusViolations } from '@/lib/wipLimits';
+import { LaneGrouping, buildSwimlanes, laneGroupingOptions, laneUpdates } from '@/lib/swimlanes';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 
 interface KanbanBoardProps {
   projectId: string;
 }
 
+// Droppables and draggables are keyed by lane index, since a task with several
+// assignees or tags shows in more than one lane
+const laneItemId = (laneIndex: number, id: string) => `${laneIndex}::${id}`;
+const parseLaneItemId = (value: string): [number, string] => {
+  const at = value.indexOf('::');
+  return [Number(value.slice(0, at)), value.slice(at + 2)];
+};
+
+/**
+ * The column's new order when a card lands at `index` among the cards of one
+ * lane: it goes right above the card it was dropped on, or below the lane's last one.
+ */
+function placeInColumn(columnIds: string[], laneIds: string[], taskId: string, index: number): string[] {
+  const ids = columnIds.filter(id => id !== taskId);
+  const lane = laneIds.filter(id => id !== taskId);
+  const at = index < lane.length
+    ? ids.indexOf(lane[index])
+    : lane.length > 0 ? ids.indexOf(lane[lane.length - 1]) + 1 : ids.length;
+  ids.splice(at, 0, taskId);
+  return ids;
+}
+
 export function KanbanBoard({ projectId }: KanbanBoardProps) {
-  const { getProjectTasks, updateTaskStatus, setCurrentTaskId } = useProject();
-  const tasks = getProjectTasks(projectId);
+  const {
+    projects,
+    teamMembers,
+    getProjectTasks,
+    getProjectWorkflow,
+    reorderTasks,
+    checkTaskMove,
+    setCurrentTaskId,
+  } = useProject();
+  const project = projects.find(p => p.id === projectId);
+  const tasks = sortByRank(getProjectTasks(projectId));
+  const workflow = getProjectWorkflow(projectId);
+  const wipLimits = project?.wipLimits;
+  const fields = project?.customFields ?? [];
+  // Columns the dragged card may not move to, with the reason. They refuse the
+  // drop, so the card animates back to where it came from.
+  const [refusals, setRefusals] = useState<Record<Status, string>>({});
+  const hoveredStatus = useRef<Status | null>(null);
+  const [grouping, setGrouping] = useState<LaneGrouping>('none');
+  // Collapsed lanes by grouping and lane key
+  const [collapsedLanes, setCollapsedLanes] = useState<Record<string, boolean>>({});
 
-  const handleDragEnd = (result: DropResult) => {
-    if (!result.destination) return;
-    
-    const taskId = result.draggableId;
-    const newStatus = result.destination.droppableId as Status;
-    
-    updateTaskStatus(taskId, newStatus);
+  const lanes = buildSwimlanes(tasks, grouping, {
+    teamMembers,
+    projectMemberIds: project?.teamMemberIds ?? [],
+    fields,
+  });
+  const isGrouped = grouping !== 'none' && lanes.length > 1;
+
+  // Tasks whose status was removed from the workflow show in the first column
+  // until they are moved
+  const isInColumn = (task: Task, status: Status) =>
+    task.status === status || (status === workflow[0].id && !workflow.some(s => s.id === task.status));
+  const getTasksByStatus = (status: Status) => tasks.filter(t => isInColumn(t, status));
+
+  const toggleLane = (key: string) => {
+    const laneKey = `${grouping}:${key}`;
+    setCollapsedLanes(prev => ({ ...prev, [laneKey]: !prev[laneKey] }));
   };
 
-  const getTasksByStatus = (status: Status) => 
-    tasks.filter(t => t.status === status);
-
-  const getColumnColor = (status: Status) => {
-    switch (status) {
-      case 'backlog': return 'bg-status-backlog';
-      case 'todo': return 'bg-status-todo';
-      case 'in-progress': return 'bg-status-progress';
-      case 'review': return 'bg-status-review';
-      case 'blocked': return 'bg-status-blocked';
-      case 'done': return 'bg-status-done';
-      default: return 'bg-muted-foreground';
+  const handleDragStart = (start: DragStart) => {
+    const [, taskId] = parseLaneItemId(start.draggableId);
+    const next: Record<Status, string> = {};
+    workflow.forEach(({ id }) => {
+      const check = checkTaskMove(taskId, id);
+      // Managers can still drop over a hard WIP limit and then choose to override
+      if (!check.ok && !check.canOverride) next[id] = check.reason;
+    });
+    setRefusals(next);
+  };
+
+  const handleDragEnd = (result: DropResult) => {
+    const { source, destination, draggableId } = result;
+    const refusal = hoveredStatus.current ? refusals[hoveredStatus.current] : undefined;
+    setRefusals({});
+    if (!destination) {
+      if (refusal) toast.error(refusal);
+      return;
     }
+    if (source.droppableId === destination.droppableId && source.index === destination.index) return;
+
+    const [, taskId] = parseLaneItemId(draggableId);
+    const [fromLane] = parseLaneItemId(source.droppableId);
+    const [toLane, newStatus] = parseLaneItemId(destination.droppableId);
+    const task = tasks.find(t => t.id === taskId);
+    if (!task) return;
+
+    const laneIds = lanes[toLane].tasks.filter(t => isInColumn(t, newStatus)).map(t => t.id);
+    const columnIds = placeInColumn(getTasksByStatus(newStatus).map(t => t.id), laneIds, taskId, destination.index);
+    // Moving to another lane changes the field the board is grouped by
+    const changes = fromLane !== toLane
+      ? laneUpdates(task, grouping, lanes[fromLane].key, lanes[toLane].key, fields)
+      : {};
+
+    const drop = (overrideWip: boolean) => {
+      const moved = reorderTasks(projectId, newStatus, columnIds, overrideWip, { id: taskId, changes });
+      if (!moved.ok) {
+        toast.error(moved.reason, moved.canOverride
+          ? { action: { label: 'Move anyway', onClick: () => drop(true) } }
+          : undefined);
+      }
+    };
+    drop(false);
   };
 
   return (
-    <DragDropContext onDragEnd={handleDragEnd}>
-      <div className="h-full overflow-x-auto scrollbar-thin">
-        <div className="flex gap-4 p-6 min-w-max h-full">
-          {STATUS_ORDER.map(status => {
-            const columnTasks = getTasksByStatus(status);
-            return (
-              <div 
-                key={status}
-                className="flex flex-col w-72 flex-shrink-0"
-              >
-                {/* Column header */}
-                <div className="flex items-center gap-2 mb-3 px-1">
-                  <div className={cn('w-3 h-3 rounded-full', getColumnColor(status))} />
-                  <h3 className="font-semibold text-foreground">{STATUS_LABELS[status]}</h3>
-                  <span className="text-sm text-muted-foreground ml-auto">
-                    {columnTasks.length}
-                  </span>
-                </div>
+    <DragDropContext onDragStart={handleDragStart} onDragEnd={handleDragEnd}>
+      <div className="h-full flex flex-col">
+        {/* Swimlane picker */}
+        <div className="flex items-center gap-2 px-6 pt-4">
+          <Rows3 className="h-4 w-4 text-muted-foreground" />
+          <span className="text-sm text-muted-foreground">Swimlanes</span>
+          <Select value={grouping} onValueChange={(value) => setGrouping(value as LaneGrouping)}>
+            <SelectTrigger className="w-44 h-8">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {laneGroupingOptions(fields).map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
 
-                {/* Column content */}
-                <Droppable droppableId={status}>
-                  {(provided, snapshot) => (
-                    <div
-                      ref={provided.innerRef}
-                      {...provided.droppableProps}
-                      className={cn(
-                        'flex-1 rounded-xl p-2 transition-colors overflow-y-auto scrollbar-thin',
-                        snapshot.isDraggingOver ? 'bg-primary/5 ring-2 ring-primary/20' : 'bg-muted/30'
-                      )}
-                    >
-                      <div className="space-y-2">
-                        {columnTasks.map((task, index) => (
-                          <Draggable key={task.id} draggableId={task.id} index={index}>
-                            {(provided, snapshot) => (
-                              <div
-                                ref={provided.innerRef}
-                                {...provided.draggableProps}
-                                {...provided.dragHandleProps}
-                                onClick={() => setCurrentTaskId(task.id)}
-                                className={cn(
-                                  'transition-transform',
-                                  snapshot.isDragging && 'rotate-2 scale-105'
-                                )}
-                              >
-                                <TaskCard task={task} />
-                              </div>
-                            )}
-                          </Draggable>
-                        ))}
-                        {provided.placeholder}
+        <div className="flex-1 overflow-auto scrollbar-thin">
+          <div className={cn('flex flex-col gap-3 p-6 min-w-max', !isGrouped && 'h-full')}>
+            {/* Column headers */}
+            <div className="flex gap-4">
+              {workflow.map(({ id: status, label, color }) => {
+                const columnTasks = getTasksByStatus(status);
+                const refusal = refusals[status];
+                const overLimit = statusViolations(wipLimits, tasks, status);
+                const isOverHard = overLimit.some(v => v.level === 'hard');
+                const columnLimit = wipLimits?.find(l => l.status === status && l.scope === 'column');
+                const shownLimit = columnLimit?.hard ?? columnLimit?.soft;
+                return (
+                  <div key={status} className="w-72 flex-shrink-0 space-y-2">
+                    <div className="flex items-center gap-2 px-1">
+                      <div className="w-3 h-3 rounded-full" style={{ backgroundColor: color }} />
+                      <h3 className="font-semibold text-foreground">{label}</h3>
+                      <span
+                        className={cn(
+                          'text-sm ml-auto',
+                          isOverHard ? 'text-destructive font-medium' : overLimit.length > 0 ? 'text-warning font-medium' : 'text-muted-foreground'
+                        )}
+                        title={shownLimit !== undefined ? 'Tasks / WIP limit' : undefined}
+                      >
+                        {columnTasks.length}
+                        {shownLimit !== undefined && ` / ${shownLimit}`}
+                      </span>
+                    </div>
+                    {overLimit.length > 0 && !refusal && (
+                      <div
+                        className={cn(
+                          'flex items-start gap-2 p-2 rounded-lg text-xs',
+                          isOverHard ? 'bg-destructive/10 text-destructive' : 'bg-warning/10 text-warning'
+                        )}
+                      >
+                        <AlertTriangle className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        <span>
+                          Over the WIP limit:{' '}
+                          {overLimit
+                            .map(v => describeWipViolation(v, label, teamMembers.find(m => m.id === v.assigneeId)?.name))
+                            .join('; ')}
+                        </span>
+                      </div>
+                    )}
+                    {refusal && (
+                      <div className="flex items-start gap-2 p-2 rounded-lg bg-destructive/10 text-xs text-destructive">
+                        <Lock className="h-3.5 w-3.5 mt-0.5 shrink-0" />
+                        <span>{refusal}</span>
                       </div>
-                      
-                      {columnTasks.length === 0 && !snapshot.isDraggingOver && (
-                        <div className="text-center py-8 text-sm text-muted-foreground">
-                          No tasks
-                        </div>
-                      )}
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            {/* Lanes */}
+            {lanes.map((lane, laneIndex) => {
+              const isCollapsed = isGrouped && collapsedLanes[`${grouping}:${lane.key}`];
+              return (
+                <div key={lane.key} className={cn(!isGrouped && 'flex-1 flex flex-col min-h-0')}>
+                  {isGrouped && (
+                    <button
+                      type="button"
+                      onClick={() => toggleLane(lane.key)}
+                      className="sticky left-0 flex items-center gap-2 mb-2 px-1 text-sm font-medium text-foreground hover:text-primary"
+                      aria-expanded={!isCollapsed}
+                    >
+                      {isCollapsed ? <ChevronRight className="h-4 w-4" /> : <ChevronDown className="h-4 w-4" />}
+                      {lane.label}
+                      <span className="text-xs font-normal text-muted-foreground">{lane.tasks.length}</span>
+                    </button>
+                  )}
+                  {!isCollapsed && (
+                    <div className={cn('flex gap-4', !isGrouped && 'flex-1 min-h-0')}>
+                      {workflow.map(({ id: status }) => {
+                        const cellTasks = lane.tasks.filter(t => isInColumn(t, status));
+                        const refusal = refusals[status];
+                        const overLimit = statusViolations(wipLimits, tasks, status);
+                        const isOverHard = overLimit.some(v => v.level === 'hard');
+                        return (
+                          <div
+                            key={status}
+                            className="flex flex-col w-72 flex-shrink-0"
+                            // The dragged card ignores the pointer, so this tracks the column under it
+                            onMouseEnter={() => { hoveredStatus.current = status; }}
+                            onMouseLeave={() => { hoveredStatus.current = null; }}
+                          >
+                            <Droppable droppableId={laneItemId(laneIndex, status)} isDropDisabled={!!refusal}>
+                              {(provided, snapshot) => (
+                                <div
+                                  ref={provided.innerRef}
+                                  {...provided.droppableProps}
+                                  className={cn(
+                                    'flex-1 rounded-xl p-2 transition-colors overflow-y-auto scrollbar-thin',
+                                    isGrouped && 'min-h-24',
+                                    snapshot.isDraggingOver ? 'bg-primary/5 ring-2 ring-primary/20' : 'bg-muted/30',
+                                    !snapshot.isDraggingOver && overLimit.length > 0 && (isOverHard
+                                      ? 'bg-destructive/5 ring-1 ring-destructive/40'
+                                      : 'bg-warning/10 ring-1 ring-warning/40'),
+                                    refusal && 'opacity-60'
+                                  )}
+                                >
+                                  <div className="space-y-2">
+                                    {cellTasks.map((task, index) => (
+                                      <Draggable key={task.id} draggableId={laneItemId(laneIndex, task.id)} index={index}>
+                                        {(provided, snapshot) => (
+                                          <div
+                                            ref={provided.innerRef}
+                                            {...provided.draggableProps}
+                                            {...provided.dragHandleProps}
+                                            onClick={() => setCurrentTaskId(task.id)}
+                                            className={cn(
+                                              'transition-transform',
+                                              snapshot.isDragging && 'rotate-2 scale-105'
+                                            )}
+                                          >
+                                            <TaskCard task={task} />
+                                          </div>
+                                        )}
+                                      </Draggable>
+                                    ))}
+                                    {provided.placeholder}
+                                  </div>
+
+                                  {cellTasks.length === 0 && !snapshot.isDraggingOver && !isGrouped && (
+                                    <div className="text-center py-8 text-sm text-muted-foreground">
+                                      No tasks
+                                    </div>
+                                  )}
+                                </div>
+                              )}
+                            </Droppable>
+                          </div>
+                        );
+                      })}
                     </div>
                   )}
-                </Droppable>
-              </div>
-            );
-          })}
+                </div>
+              );
+            })}
+          </div>
         </div>
       </div>
     </DragDropContext>
@@ -1,8 +1,17 @@
 import React, { useState } from 'react';
-import { ArrowUpDown, Filter, Search } from 'lucide-react';
+import { ArrowUpDown, Download, Filter, Search } from 'lucide-react';
 import { useProject } from '@/contexts/ProjectContext';
-import { Task, Status, Priority, TaskType, STATUS_LABELS, PRIORITY_LABELS, TYPE_LABELS } from '@/types';
+import { Status, Priority, TaskType, PRIORITY_LABELS, TYPE_LABELS } from '@/types';
 import { cn } from '@/lib/utils';
+import { compareRank } from '@/lib/rank';
+import { findStatus, isDoneStatus } from '@/lib/workflow';
+import {
+  CustomFieldFilter,
+  compareCustomValues,
+  formatCustomValue,
+  isValidUrl,
+  matchesCustomFilter,
+} from '@/lib/customFields';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import {
@@ -13,20 +22,37 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { format } from 'date-fns';
+import { ExportTasksDialog } from './ExportTasksDialog';
+import { CustomFieldFilters } from './CustomFieldFilters';
+import { StatusBadge } from './StatusBadge';
+
+// Custom fields sort as "field:<id>"
+type SortKey = 'dueDate' | 'priority' | 'title' | 'manual' | `field:${string}`;
 
 interface ListViewProps {
   projectId: string;
 }
 
 export function ListView({ projectId }: ListViewProps) {
-  const { getProjectTasks, setCurrentTaskId, teamMembers, getTeamMember } = useProject();
+  const { projects, getProjectTasks, getProjectWorkflow, setCurrentTaskId, teamMembers, getTeamMember } = useProject();
   const [searchQuery, setSearchQuery] = useState('');
   const [statusFilter, setStatusFilter] = useState<Status | 'all'>('all');
   const [typeFilter, setTypeFilter] = useState<TaskType | 'all'>('all');
   const [priorityFilter, setPriorityFilter] = useState<Priority | 'all'>('all');
-  const [sortBy, setSortBy] = useState<'dueDate' | 'priority' | 'title'>('dueDate');
+  const [sortBy, setSortBy] = useState<SortKey>('dueDate');
+  const [fieldFilters, setFieldFilters] = useState<Record<string, CustomFieldFilter>>({});
+  const [exportOpen, setExportOpen] = useState(false);
 
   const tasks = getProjectTasks(projectId);
+  const workflow = getProjectWorkflow(projectId);
+  const statusIndex = (status: Status) => {
+    const index = workflow.findIndex(s => s.id === status);
+    return index === -1 ? workflow.length : index;
+  };
+  const customFields = projects.find(p => p.id === projectId)?.customFields ?? [];
+  const sortField = customFields.find(f => `field:${f.id}` === sortBy);
+  // Falls back to due date when the field being sorted on is removed
+  const activeSort: SortKey = sortBy.startsWith('field:') && !sortField ? 'dueDate' : sortBy;
 
   // Apply filters
   let filteredTasks = tasks.filter(task => {
@@ -34,12 +60,22 @@ export function ListView({ projectId }: ListViewProps) {
     if (typeFilter !== 'all' && task.type !== typeFilter) return false;
     if (priorityFilter !== 'all' && task.priority !== priorityFilter) return false;
     if (searchQuery && !task.title.toLowerCase().includes(searchQuery.toLowerCase())) return false;
+    if (customFields.some(field => fieldFilters[field.id]
+      && !matchesCustomFilter(field, task.customFieldValues?.[field.id], fieldFilters[field.id]))) return false;
     return true;
   });
 
   // Apply sorting
   filteredTasks = [...filteredTasks].sort((a, b) => {
-    switch (sortBy) {
+    if (sortField) {
+      return compareCustomValues(
+        sortField,
+        a.customFieldValues?.[sortField.id],
+        b.customFieldValues?.[sortField.id],
+        teamMembers
+      );
+    }
+    switch (activeSort) {
       case 'dueDate':
         if (!a.dueDate) return 1;
         if (!b.dueDate) return -1;
@@ -49,6 +85,9 @@ export function ListView({ projectId }: ListViewProps) {
         return priorityOrder[a.priority] - priorityOrder[b.priority];
       case 'title':
         return a.title.localeCompare(b.title);
+      case 'manual':
+        // Board order: column by column, then the cards' order within each column
+        return statusIndex(a.status) - statusIndex(b.status) || compareRank(a, b);
       default:
         return 0;
     }
@@ -63,17 +102,6 @@ export function ListView({ projectId }: ListViewProps) {
     }
   };
 
-  const getStatusColor = (status: Status) => {
-    switch (status) {
-      case 'backlog': return 'bg-status-backlog/10 text-status-backlog';
-      case 'todo': return 'bg-status-todo/10 text-status-todo';
-      case 'in-progress': return 'bg-status-progress/10 text-status-progress';
-      case 'review': return 'bg-status-review/10 text-status-review';
-      case 'blocked': return 'bg-status-blocked/10 text-status-blocked';
-      case 'done': return 'bg-status-done/10 text-status-done';
-    }
-  };
-
   return (
     <div className="h-full flex flex-col p-6">
       {/* Filters */}
@@ -94,8 +122,8 @@ export function ListView({ projectId }: ListViewProps) {
           </SelectTrigger>
           <SelectContent>
             <SelectItem value="all">All Status</SelectItem>
-            {Object.entries(STATUS_LABELS).map(([value, label]) => (
-              <SelectItem key={value} value={value}>{label}</SelectItem>
+            {workflow.map(status => (
+              <SelectItem key={status.id} value={status.id}>{status.label}</SelectItem>
             ))}
           </SelectContent>
         </Select>
@@ -124,7 +152,11 @@ export function ListView({ projectId }: ListViewProps) {
           </SelectContent>
         </Select>
 
-        <Select value={sortBy} onValueChange={(v) => setSortBy(v as 'dueDate' | 'priority' | 'title')}>
+        {customFields.length > 0 && (
+          <CustomFieldFilters fields={customFields} filters={fieldFilters} onChange={setFieldFilters} />
+        )}
+
+        <Select value={activeSort} onValueChange={(v) => setSortBy(v as SortKey)}>
           <SelectTrigger className="w-36">
             <ArrowUpDown className="h-4 w-4 mr-2" />
             <SelectValue placeholder="Sort by" />
@@ -133,8 +165,22 @@ export function ListView({ projectId }: ListViewProps) {
             <SelectItem value="dueDate">Due Date</SelectItem>
             <SelectItem value="priority">Priority</SelectItem>
             <SelectItem value="title">Title</SelectItem>
+            <SelectItem value="manual">Manual</SelectItem>
+            {customFields.map(field => (
+              <SelectItem key={field.id} value={`field:${field.id}`}>{field.name}</SelectItem>
+            ))}
           </SelectContent>
         </Select>
+
+        <Button
+          variant="outline"
+          className="ml-auto"
+          onClick={() => setExportOpen(true)}
+          disabled={filteredTasks.length === 0}
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Export
+        </Button>
       </div>
 
       {/* Table */}
@@ -148,12 +194,15 @@ export function ListView({ projectId }: ListViewProps) {
               <th className="px-4 py-3 font-medium w-24">Priority</th>
               <th className="px-4 py-3 font-medium w-32">Assignee</th>
               <th className="px-4 py-3 font-medium w-28">Due Date</th>
+              {customFields.map(field => (
+                <th key={field.id} className="px-4 py-3 font-medium whitespace-nowrap">{field.name}</th>
+              ))}
             </tr>
           </thead>
           <tbody className="divide-y divide-border">
             {filteredTasks.map(task => {
               const assignee = task.assigneeIds[0] ? getTeamMember(task.assigneeIds[0]) : null;
-              const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'done';
+              const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && !isDoneStatus(workflow, task.status);
               
               return (
                 <tr 
@@ -177,9 +226,7 @@ export function ListView({ projectId }: ListViewProps) {
                     </span>
                   </td>
                   <td className="px-4 py-3">
-                    <span className={cn('text-xs px-2 py-1 rounded-full', getStatusColor(task.status))}>
-                      {STATUS_LABELS[task.status]}
-                    </span>
+                    <StatusBadge status={findStatus(workflow, task.status)} />
                   </td>
                   <td className="px-4 py-3">
                     <span className={cn('text-xs px-2 py-1 rounded-full', getPriorityColor(task.priority))}>
@@ -206,6 +253,25 @@ export function ListView({ projectId }: ListViewProps) {
                       </span>
                     )}
                   </td>
+                  {customFields.map(field => {
+                    const value = task.customFieldValues?.[field.id];
+                    const text = formatCustomValue(field, value, teamMembers);
+                    return (
+                      <td key={field.id} className="px-4 py-3 text-sm text-foreground max-w-[12rem] truncate">
+                        {field.type === 'url' && typeof value === 'string' && isValidUrl(value) ? (
+                          <a
+                            href={value}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            onClick={(e) => e.stopPropagation()}
+                            className="text-primary hover:underline"
+                          >
+                            {text}
+                          </a>
+                        ) : text}
+                      </td>
+                    );
+                  })}
                 </tr>
               );
             })}
@@ -218,6 +284,14 @@ export function ListView({ projectId }: ListViewProps) {
           </div>
         )}
       </div>
+
+      <ExportTasksDialog
+        open={exportOpen}
+        onOpenChange={setExportOpen}
+        tasks={filteredTasks}
+        workflow={workflow}
+        projectTitle={projects.find(p => p.id === projectId)?.title ?? 'Project'}
+      />
     </div>
   );
 }
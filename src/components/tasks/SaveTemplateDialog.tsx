@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { useProject } from '@/contexts/ProjectContext';
+import { Task, TYPE_LABELS } from '@/types';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { RadioGroup, RadioGroupItem } from '@/components/ui/radio-group';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from '@/components/ui/dialog';
+import { useTaskTemplates } from '@/hooks/useTaskTemplates';
+import { TITLE_PLACEHOLDERS, templateFromTask } from '@/lib/taskTemplates';
+import { activityFieldLabel } from '@/lib/activity';
+import { getSafeErrorMessage, logError } from '@/lib/errorHandler';
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  task: Task;
+}
+
+export function SaveTemplateDialog({ open, onOpenChange, task }: SaveTemplateDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-lg">
+        {/* Content unmounts on close, so every opening starts from the task as it is now */}
+        <SaveTemplateForm task={task} onDone={() => onOpenChange(false)} />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface SaveTemplateFormProps {
+  task: Task;
+  onDone: () => void;
+}
+
+function SaveTemplateForm({ task, onDone }: SaveTemplateFormProps) {
+  const { projects } = useProject();
+  const { saveTemplate } = useTaskTemplates(false);
+  const [draft] = useState(() => templateFromTask(task));
+  const [name, setName] = useState(draft.name);
+  const [titlePattern, setTitlePattern] = useState(draft.titlePattern);
+  const [scope, setScope] = useState<'project' | 'workspace'>('project');
+  const [dueOffset, setDueOffset] = useState(draft.dueOffsetDays !== undefined ? String(draft.dueOffsetDays) : '');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const projectTitle = projects.find(p => p.id === task.projectId)?.title ?? 'this project';
+  const offset = dueOffset.trim() === '' ? undefined : Number(dueOffset);
+  const offsetValid = offset === undefined || (Number.isInteger(offset) && offset >= 0);
+
+  const included = [
+    task.description && 'description',
+    task.tags.length > 0 && `${task.tags.length} tag${task.tags.length === 1 ? '' : 's'}`,
+    draft.fields.checklist && `${draft.fields.checklist.length} checklist item${draft.fields.checklist.length === 1 ? '' : 's'}`,
+    ...Object.keys(draft.fields).filter(field => field !== 'checklist').map(field => activityFieldLabel(field).toLowerCase()),
+  ].filter(Boolean);
+
+  const handleSave = async () => {
+    if (!name.trim() || !titlePattern.trim() || !offsetValid) return;
+    setIsSaving(true);
+    try {
+      await saveTemplate({
+        ...draft,
+        name: name.trim(),
+        titlePattern: titlePattern.trim(),
+        projectId: scope === 'project' ? task.projectId : undefined,
+        dueOffsetDays: offset,
+      });
+      toast.success(`Saved template "${name.trim()}"`);
+      onDone();
+    } catch (error) {
+      logError('saveTemplate', error);
+      toast.error('Could not save the template', { description: getSafeErrorMessage(error) });
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <>
+      <DialogHeader>
+        <DialogTitle>Save as Template</DialogTitle>
+        <DialogDescription>
+          New {TYPE_LABELS[task.type].toLowerCase()} tasks can start from this one
+          {included.length > 0 ? `, including its ${included.join(', ')}.` : '.'}
+        </DialogDescription>
+      </DialogHeader>
+
+      <div className="space-y-4">
+        <div className="space-y-2">
+          <Label htmlFor="template-name">Template name</Label>
+          <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} />
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-title">Task title</Label>
+          <Input id="template-title" value={titlePattern} onChange={(e) => setTitlePattern(e.target.value)} />
+          <p className="text-xs text-muted-foreground">
+            Placeholders: {TITLE_PLACEHOLDERS.map(p => `${p.token} ${p.description}`).join('; ')}
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <Label htmlFor="template-offset">Due</Label>
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Input
+              id="template-offset"
+              type="number"
+              min={0}
+              value={dueOffset}
+              onChange={(e) => setDueOffset(e.target.value)}
+              placeholder="None"
+              className="w-24"
+            />
+            days after the task is created
+          </div>
+          {!offsetValid && <p className="text-xs text-destructive">Enter a whole number of days, or leave it empty.</p>}
+        </div>
+
+        <div className="space-y-2">
+          <Label>Available in</Label>
+          <RadioGroup value={scope} onValueChange={(value) => setScope(value as typeof scope)}>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="project" id="template-scope-project" />
+              <Label htmlFor="template-scope-project" className="font-normal">{projectTitle} only</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <RadioGroupItem value="workspace" id="template-scope-workspace" />
+              <Label htmlFor="template-scope-workspace" className="font-normal">All projects</Label>
+            </div>
+          </RadioGroup>
+        </div>
+      </div>
+
+      <DialogFooter>
+        <Button variant="ghost" onClick={onDone} disabled={isSaving}>
+          Cancel
+        </Button>
+        <Button onClick={handleSave} disabled={!name.trim() || !titlePattern.trim() || !offsetValid || isSaving}>
+          {isSaving ? 'Saving...' : 'Save Template'}
+        </Button>
+      </DialogFooter>
+    </>
+  );
+}
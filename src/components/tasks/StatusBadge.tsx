@@ -0,0 +1,20 @@
+import React from 'react';
+import { WorkflowStatus } from '@/types';
+import { cn } from '@/lib/utils';
+
+interface StatusBadgeProps {
+  status: WorkflowStatus;
+  className?: string;
+}
+
+// Workflow colors are user-chosen hex values, so they are applied inline
+export function StatusBadge({ status, className }: StatusBadgeProps) {
+  return (
+    <span
+      className={cn('text-xs px-2 py-1 rounded-full whitespace-nowrap', className)}
+      style={{ color: status.color, backgroundColor: `${status.color}1a` }}
+    >
+      {status.label}
+    </span>
+  );
+}
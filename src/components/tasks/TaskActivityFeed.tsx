@@ -0,0 +1,151 @@
+import React from 'react';
+import { ArrowRight, History, Loader2, MessageSquare, Paperclip, Plus } from 'lucide-react';
+import { format } from 'date-fns';
+import { useProject } from '@/contexts/ProjectContext';
+import { useTaskActivity } from '@/hooks/useTaskActivity';
+import { TaskActivity } from '@/types';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import {
+  activityFieldLabel,
+  assigneeDiff,
+  formatActivityValue,
+  groupActivity,
+} from '@/lib/activity';
+
+interface TaskActivityFeedProps {
+  taskId: string;
+}
+
+export function TaskActivityFeed({ taskId }: TaskActivityFeedProps) {
+  const { teamMembers, projects, getTeamMember } = useProject();
+  const { entries, isLoading, error } = useTaskActivity(taskId);
+  const context = { teamMembers, projects };
+
+  const memberName = (id: string) => getTeamMember(id)?.name ?? 'a former member';
+
+  const renderValue = (field: string, value: unknown) => {
+    const text = formatActivityValue(field, value, context);
+    return text === null
+      ? <span className="italic text-muted-foreground">none</span>
+      : <span className="break-words line-clamp-3">{text}</span>;
+  };
+
+  const renderEntry = (entry: TaskActivity) => {
+    switch (entry.kind) {
+      case 'created':
+        return (
+          <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+            <Plus className="h-3.5 w-3.5" />
+            Created the task
+          </p>
+        );
+      case 'comment': {
+        const { content } = (entry.newValue ?? {}) as { content?: string };
+        return (
+          <div className="space-y-1">
+            <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+              <MessageSquare className="h-3.5 w-3.5" />
+              Commented
+            </p>
+            {content && (
+              <p className="text-sm text-foreground border-l-2 border-border pl-2 line-clamp-3">{content}</p>
+            )}
+          </div>
+        );
+      }
+      case 'attachment': {
+        const { fileName, version } = (entry.newValue ?? {}) as { fileName?: string; version?: number };
+        return (
+          <p className="flex items-center gap-1.5 text-sm text-muted-foreground">
+            <Paperclip className="h-3.5 w-3.5" />
+            {version && version > 1 ? `Uploaded version ${version} of` : 'Uploaded'}
+            <span className="font-medium text-foreground truncate">{fileName}</span>
+          </p>
+        );
+      }
+      case 'updated': {
+        const field = entry.field ?? '';
+        const summary = field === 'assigneeIds'
+          ? (() => {
+              const { added, removed } = assigneeDiff(entry);
+              return [
+                added.length > 0 && `assigned ${added.map(memberName).join(', ')}`,
+                removed.length > 0 && `unassigned ${removed.map(memberName).join(', ')}`,
+              ].filter(Boolean).join('; ');
+            })()
+          : null;
+
+        return (
+          <div className="space-y-1">
+            <p className="text-sm text-muted-foreground">
+              Changed <span className="font-medium text-foreground">{activityFieldLabel(field)}</span>
+              {summary && <span> · {summary}</span>}
+            </p>
+            <div className="flex items-start gap-2 text-xs">
+              <div className="flex-1 min-w-0 px-2 py-1 rounded bg-destructive/5 text-muted-foreground line-through decoration-muted-foreground/50">
+                {renderValue(field, entry.oldValue)}
+              </div>
+              <ArrowRight className="h-3.5 w-3.5 mt-1 shrink-0 text-muted-foreground" />
+              <div className="flex-1 min-w-0 px-2 py-1 rounded bg-success/5 text-foreground">
+                {renderValue(field, entry.newValue)}
+              </div>
+            </div>
+          </div>
+        );
+      }
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-8 text-muted-foreground">
+        <Loader2 className="h-5 w-5 animate-spin" />
+      </div>
+    );
+  }
+
+  if (error) {
+    return (
+      <p className="text-sm text-muted-foreground text-center py-8">
+        Activity could not be loaded. Check your connection and try again.
+      </p>
+    );
+  }
+
+  if (entries.length === 0) {
+    return (
+      <div className="text-center py-8 text-muted-foreground">
+        <History className="h-8 w-8 mx-auto mb-2 opacity-50" />
+        <p className="text-sm">No activity recorded yet</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      {groupActivity(entries).map(group => {
+        const actor = group.actorId ? teamMembers.find(m => m.userId === group.actorId) : undefined;
+        return (
+          <div key={group.id} className="flex gap-3">
+            <Avatar className="h-7 w-7 flex-shrink-0">
+              <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                {actor?.initials || '??'}
+              </AvatarFallback>
+            </Avatar>
+            <div className="flex-1 min-w-0 space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="text-sm font-medium text-foreground">{actor?.name || 'Unknown user'}</span>
+                <span className="text-xs text-muted-foreground">
+                  {format(new Date(group.createdAt), 'MMM d, h:mm a')}
+                </span>
+              </div>
+              {group.entries.map(entry => (
+                <div key={entry.id}>{renderEntry(entry)}</div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
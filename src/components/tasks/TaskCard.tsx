@@ -1,8 +1,10 @@
 import React from 'react';
-import { Calendar, MessageSquare, Paperclip, AlertTriangle } from 'lucide-react';
+import { Calendar, MessageSquare, Paperclip, AlertTriangle, ListChecks, CornerDownRight } from 'lucide-react';
 import { Task, PRIORITY_LABELS, TYPE_LABELS } from '@/types';
 import { useProject } from '@/contexts/ProjectContext';
 import { cn } from '@/lib/utils';
+import { taskProgress } from '@/lib/subtasks';
+import { isBlockedStatus, isDoneStatus } from '@/lib/workflow';
 import { format } from 'date-fns';
 
 interface TaskCardProps {
@@ -10,8 +12,11 @@ interface TaskCardProps {
 }
 
 export function TaskCard({ task }: TaskCardProps) {
-  const { getTeamMember, getTaskComments } = useProject();
+  const { tasks, getTeamMember, getTaskComments, getProjectWorkflow } = useProject();
   const comments = getTaskComments(task.id);
+  const workflow = getProjectWorkflow(task.projectId);
+  const progress = taskProgress(task, tasks, workflow);
+  const parent = task.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
   const assignees = task.assigneeIds.map(id => getTeamMember(id)).filter(Boolean);
 
   const getPriorityColor = (priority: Task['priority']) => {
@@ -35,8 +40,9 @@ export function TaskCard({ task }: TaskCardProps) {
     }
   };
 
-  const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && task.status !== 'done';
-  const isBlocked = task.status === 'blocked';
+  const isOverdue = task.dueDate && new Date(task.dueDate) < new Date() && !isDoneStatus(workflow, task.status);
+  // In the Blocked column, or waiting on unfinished dependencies
+  const isBlocked = isBlockedStatus(workflow, task.status) || !!task.blockedBy?.length;
 
   return (
     <div className={cn(
@@ -60,6 +66,14 @@ export function TaskCard({ task }: TaskCardProps) {
         )}
       </div>
 
+      {/* Parent of a subtask */}
+      {parent && (
+        <p className="flex items-center gap-1 text-xs text-muted-foreground mb-1 truncate">
+          <CornerDownRight className="h-3 w-3 shrink-0" />
+          <span className="truncate">{parent.title}</span>
+        </p>
+      )}
+
       {/* Title */}
       <h4 className="font-medium text-foreground mb-2 line-clamp-2">{task.title}</h4>
 
@@ -111,6 +125,18 @@ export function TaskCard({ task }: TaskCardProps) {
 
         {/* Meta info */}
         <div className="flex items-center gap-3 text-muted-foreground">
+          {progress.total > 0 && (
+            <div
+              className={cn(
+                'flex items-center gap-1 text-xs',
+                progress.done === progress.total && 'text-success'
+              )}
+              title="Subtasks and checklist items done"
+            >
+              <ListChecks className="h-3.5 w-3.5" />
+              {progress.done}/{progress.total}
+            </div>
+          )}
           {comments.length > 0 && (
             <div className="flex items-center gap-1 text-xs">
               <MessageSquare className="h-3.5 w-3.5" />
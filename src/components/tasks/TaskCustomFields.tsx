@@ -0,0 +1,34 @@
+import React from 'react';
+import { useProject } from '@/contexts/ProjectContext';
+import { Task } from '@/types';
+import { withCustomValue } from '@/lib/customFields';
+import { CustomFieldInput } from './CustomFieldInput';
+
+interface TaskCustomFieldsProps {
+  task: Task;
+}
+
+export function TaskCustomFields({ task }: TaskCustomFieldsProps) {
+  const { projects, updateTask } = useProject();
+  const fields = projects.find(p => p.id === task.projectId)?.customFields ?? [];
+
+  if (fields.length === 0) return null;
+
+  return (
+    <div className="space-y-3">
+      {fields.map(field => (
+        <div key={field.id} className="space-y-2">
+          <label className="text-sm font-medium text-foreground">{field.name}</label>
+          <CustomFieldInput
+            field={field}
+            value={task.customFieldValues?.[field.id]}
+            onChange={(value) => updateTask(task.id, {
+              customFieldValues: withCustomValue(task.customFieldValues, field.id, value),
+            })}
+            commitOnBlur
+          />
+        </div>
+      ))}
+    </div>
+  );
+}
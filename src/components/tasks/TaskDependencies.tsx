@@ -0,0 +1,106 @@
+import React from 'react';
+import { Link2, Lock, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useProject } from '@/contexts/ProjectContext';
+import { Task } from '@/types';
+import { findDependencyCycle, getDependants } from '@/lib/dependencies';
+import { findStatus, isDoneStatus } from '@/lib/workflow';
+import { cn } from '@/lib/utils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+
+interface TaskDependenciesProps {
+  task: Task;
+}
+
+export function TaskDependencies({ task }: TaskDependenciesProps) {
+  const { tasks, updateTask, setCurrentTaskId, getProjectWorkflow } = useProject();
+  const workflow = getProjectWorkflow(task.projectId);
+  const dependencyIds = task.dependencies ?? [];
+  const predecessors = dependencyIds
+    .map(id => tasks.find(t => t.id === id))
+    .filter((t): t is Task => !!t);
+  const dependants = getDependants(tasks, task.id);
+  const candidates = tasks.filter(t =>
+    t.projectId === task.projectId && t.id !== task.id && !dependencyIds.includes(t.id)
+  );
+
+  const addDependency = (id: string) => {
+    const cycle = findDependencyCycle(tasks, task.id, id);
+    if (cycle) {
+      toast.error("Dependencies can't go in a loop", { description: cycle.map(t => t.title).join(' → ') });
+      return;
+    }
+    updateTask(task.id, { dependencies: [...dependencyIds, id] });
+  };
+
+  const removeDependency = (id: string) => {
+    const remaining = dependencyIds.filter(d => d !== id);
+    updateTask(task.id, { dependencies: remaining.length > 0 ? remaining : undefined });
+  };
+
+  const renderTask = (other: Task, onRemove?: () => void) => {
+    const isDone = isDoneStatus(workflow, other.status);
+    return (
+      <div key={other.id} className="flex items-center gap-2 group">
+        <button
+          onClick={() => setCurrentTaskId(other.id)}
+          className={cn(
+            'flex-1 min-w-0 text-left text-sm truncate hover:text-primary transition-colors',
+            isDone ? 'text-muted-foreground line-through' : 'text-foreground'
+          )}
+        >
+          {other.title}
+        </button>
+        <span className="text-xs text-muted-foreground shrink-0">{findStatus(workflow, other.status).label}</span>
+        {onRemove && (
+          <button
+            onClick={onRemove}
+            className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+            aria-label={`Remove dependency on "${other.title}"`}
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-3 pt-4 border-t border-border">
+      <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+        <Link2 className="h-4 w-4" />
+        Dependencies
+        {task.blockedBy?.length ? (
+          <span className="ml-auto flex items-center gap-1 text-xs font-normal text-destructive">
+            <Lock className="h-3 w-3" />
+            Blocked by {task.blockedBy.length} {task.blockedBy.length === 1 ? 'task' : 'tasks'}
+          </span>
+        ) : null}
+      </h3>
+
+      <div className="space-y-1">
+        <p className="text-xs text-muted-foreground">Waiting on</p>
+        {predecessors.map(other => renderTask(other, () => removeDependency(other.id)))}
+        {candidates.length > 0 && (
+          <Select value="" onValueChange={addDependency}>
+            <SelectTrigger className="h-8 text-sm">
+              <SelectValue placeholder="Add a task this one waits on..." />
+            </SelectTrigger>
+            <SelectContent>
+              {candidates.map(candidate => (
+                <SelectItem key={candidate.id} value={candidate.id}>{candidate.title}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+      </div>
+
+      {dependants.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs text-muted-foreground">Holding up</p>
+          {dependants.map(other => renderTask(other))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,15 +1,24 @@
-import React, { useState } from 'react';
-import { X, Calendar, User, Tag, MessageSquare, Send, MoreHorizontal, Trash2, Paperclip, Loader2 } from 'lucide-react';
+import React, { useState, useEffect } from 'react';
+import { X, Calendar, User, Tag, MessageSquare, Send, MoreHorizontal, Trash2, Paperclip, Loader2, RefreshCw, History, CornerLeftUp, LayoutTemplate } from 'lucide-react';
 import { useProject } from '@/contexts/ProjectContext';
-import { Task, Status, Priority, TaskType, STATUS_LABELS, PRIORITY_LABELS, TYPE_LABELS, ROLE_LABELS } from '@/types';
+import { Task, Status, Priority, TaskType, PRIORITY_LABELS, TYPE_LABELS, ROLE_LABELS } from '@/types';
 import { FileAttachments } from './FileAttachments';
+import { TaskActivityFeed } from './TaskActivityFeed';
+import { TaskSubtasks } from './TaskSubtasks';
+import { TaskDependencies } from './TaskDependencies';
+import { TaskSchedule } from './TaskSchedule';
+import { TaskRecurrence } from './TaskRecurrence';
+import { TaskCustomFields } from './TaskCustomFields';
+import { SaveTemplateDialog } from './SaveTemplateDialog';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { cn } from '@/lib/utils';
+import { findStatus, projectWorkflow } from '@/lib/workflow';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import {
   Select,
   SelectContent,
@@ -35,35 +44,63 @@ export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
     tasks,
     projects,
     updateTask, 
+    updateTaskStatus,
     deleteTask, 
     getTaskComments, 
     addComment, 
     getTeamMember, 
-    teamMembers 
+    teamMembers,
+    currentMemberId,
+    remoteTaskChanges,
+    clearRemoteTaskChange,
+    setCurrentTaskId,
   } = useProject();
   
   const task = tasks.find(t => t.id === taskId);
   const project = task ? projects.find(p => p.id === task.projectId) : undefined;
+  const parent = task?.parentId ? tasks.find(t => t.id === task.parentId) : undefined;
+  const workflow = projectWorkflow(project);
   const comments = getTaskComments(taskId);
   const [newComment, setNewComment] = useState('');
   const [isEditing, setIsEditing] = useState(false);
   const [editedTitle, setEditedTitle] = useState(task?.title || '');
   const [editedDescription, setEditedDescription] = useState(task?.description || '');
   const [isSendingComment, setIsSendingComment] = useState(false);
+  const [isSavingTemplate, setIsSavingTemplate] = useState(false);
+  const remoteChangeAt = remoteTaskChanges[taskId];
+
+  // Only flag teammate changes that arrive while this panel is open
+  useEffect(() => {
+    clearRemoteTaskChange(taskId);
+    return () => clearRemoteTaskChange(taskId);
+  }, [taskId, clearRemoteTaskChange]);
+
+  // Let the indicator fade out on its own after a few seconds
+  useEffect(() => {
+    if (!remoteChangeAt) return;
+    const timer = setTimeout(() => clearRemoteTaskChange(taskId), 8000);
+    return () => clearTimeout(timer);
+  }, [remoteChangeAt, taskId, clearRemoteTaskChange]);
 
   if (!task) return null;
 
-  const handleStatusChange = async (status: Status) => {
-    const previousStatus = task.status;
-    updateTask(taskId, { status });
+  const currentUser = currentMemberId ? getTeamMember(currentMemberId) : undefined;
+
+  const handleStatusChange = async (status: Status, overrideWip = false) => {
+    const moved = updateTaskStatus(taskId, status, overrideWip);
+    if (!moved.ok) {
+      toast.error(moved.reason, moved.canOverride
+        ? { action: { label: 'Move anyway', onClick: () => handleStatusChange(status, true) } }
+        : undefined);
+      return;
+    }
     
-    // Send notification only for 'done' or 'review' status changes
-    if ((status === 'done' || status === 'review') && task.assigneeIds.length > 0) {
+    // Only statuses the workflow marks for it notify the assignees
+    const newStatus = findStatus(workflow, status);
+    if (newStatus.notify && task.assigneeIds.length > 0) {
       const assignees = teamMembers
         .filter(m => task.assigneeIds.includes(m.id))
         .map(m => ({ name: m.name, email: m.email }));
-      
-      const currentUser = teamMembers[0];
 
       try {
         const { error } = await supabase.functions.invoke('send-status-notification', {
@@ -72,6 +109,9 @@ export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
             taskTitle: task.title,
             projectName: project?.title || 'Project',
             newStatus: status,
+            statusLabel: newStatus.label,
+            statusColor: newStatus.color,
+            statusCategory: newStatus.category,
             changedBy: currentUser?.name,
           },
         });
@@ -93,12 +133,17 @@ export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
     updateTask(taskId, { type });
   };
 
-  const handleAssigneeChange = (assigneeId: string) => {
+  const handleAssigneeChange = (assigneeId: string, overrideWip = false) => {
     const currentAssignees = task.assigneeIds;
     const newAssignees = currentAssignees.includes(assigneeId)
       ? currentAssignees.filter(id => id !== assigneeId)
       : [...currentAssignees, assigneeId];
-    updateTask(taskId, { assigneeIds: newAssignees });
+    const assigned = updateTask(taskId, { assigneeIds: newAssignees }, overrideWip);
+    if (!assigned.ok) {
+      toast.error(assigned.reason, assigned.canOverride
+        ? { action: { label: 'Assign anyway', onClick: () => handleAssigneeChange(assigneeId, true) } }
+        : undefined);
+    }
   };
 
   const handleAddComment = async () => {
@@ -106,11 +151,9 @@ export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
     
     setIsSendingComment(true);
     
-    // Get current user info (using first team member as fallback)
-    const currentUser = teamMembers[0];
     const commentAuthor = currentUser?.name || 'Team Member';
     
-    addComment(taskId, newComment.trim(), currentUser?.id || 'tm-5');
+    addComment(taskId, newComment.trim(), currentMemberId ?? '');
     
     // Send email notifications to all assignees
     if (task.assigneeIds.length > 0) {
@@ -151,24 +194,23 @@ export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
     onClose();
   };
 
-  const getStatusColor = (status: Status) => {
-    switch (status) {
-      case 'backlog': return 'bg-status-backlog';
-      case 'todo': return 'bg-status-todo';
-      case 'in-progress': return 'bg-status-progress';
-      case 'review': return 'bg-status-review';
-      case 'blocked': return 'bg-status-blocked';
-      case 'done': return 'bg-status-done';
-    }
-  };
-
   return (
     <div className="w-96 h-full border-l border-border bg-card flex flex-col animate-slide-in-right">
       {/* Header */}
       <div className="flex items-center justify-between p-4 border-b border-border">
         <div className="flex items-center gap-2">
-          <div className={cn('w-3 h-3 rounded-full', getStatusColor(task.status))} />
+          <div className="w-3 h-3 rounded-full" style={{ backgroundColor: findStatus(workflow, task.status).color }} />
           <span className="text-sm font-medium text-muted-foreground">{TYPE_LABELS[task.type]}</span>
+          {remoteChangeAt && (
+            <button
+              onClick={() => clearRemoteTaskChange(taskId)}
+              className="flex items-center gap-1 text-xs text-primary px-2 py-0.5 rounded-full bg-primary/10 animate-fade-in"
+              title={isEditing ? 'Your unsaved edits are kept' : 'Dismiss'}
+            >
+              <RefreshCw className="h-3 w-3" />
+              Updated by a teammate
+            </button>
+          )}
         </div>
         <div className="flex items-center gap-1">
           <DropdownMenu>
@@ -181,6 +223,10 @@ export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
               <DropdownMenuItem onClick={() => setIsEditing(true)}>
                 Edit Task
               </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => setIsSavingTemplate(true)}>
+                <LayoutTemplate className="h-4 w-4 mr-2" />
+                Save as Template
+              </DropdownMenuItem>
               <DropdownMenuItem onClick={handleDelete} className="text-destructive">
                 <Trash2 className="h-4 w-4 mr-2" />
                 Delete Task
@@ -193,243 +239,285 @@ export function TaskDetailPanel({ taskId, onClose }: TaskDetailPanelProps) {
         </div>
       </div>
 
-      {/* Content */}
-      <div className="flex-1 overflow-y-auto scrollbar-thin">
-        <div className="p-4 space-y-6">
-          {/* Title & Description */}
-          <div>
-            {isEditing ? (
-              <div className="space-y-3">
-                <Input
-                  value={editedTitle}
-                  onChange={(e) => setEditedTitle(e.target.value)}
-                  className="text-lg font-semibold"
-                />
-                <Textarea
-                  value={editedDescription}
-                  onChange={(e) => setEditedDescription(e.target.value)}
-                  placeholder="Add description..."
-                  rows={4}
-                />
-                <div className="flex gap-2">
-                  <Button size="sm" onClick={handleSaveEdits}>Save</Button>
-                  <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>Cancel</Button>
-                </div>
-              </div>
-            ) : (
-              <>
-                <h2 className="text-lg font-semibold text-foreground mb-2">{task.title}</h2>
-                <p className="text-sm text-muted-foreground">
-                  {task.description || 'No description'}
-                </p>
-              </>
-            )}
-          </div>
+      <Tabs defaultValue="details" className="flex-1 flex flex-col min-h-0">
+        <TabsList className="grid grid-cols-2 mx-4 mt-3">
+          <TabsTrigger value="details">Details</TabsTrigger>
+          <TabsTrigger value="activity" className="gap-2">
+            <History className="h-4 w-4" />
+            Activity
+          </TabsTrigger>
+        </TabsList>
 
-          {/* Status */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-foreground">Status</label>
-            <Select value={task.status} onValueChange={handleStatusChange}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {Object.entries(STATUS_LABELS).map(([value, label]) => (
-                  <SelectItem key={value} value={value}>{label}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
-
-          {/* Priority */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-foreground">Priority</label>
-            <Select value={task.priority} onValueChange={handlePriorityChange}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
-                  <SelectItem key={value} value={value}>{label}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+        {/* Content */}
+        <TabsContent value="details" className="flex-1 overflow-y-auto scrollbar-thin mt-0">
+          <div className="p-4 space-y-6">
+            {/* Title & Description */}
+            <div>
+              {isEditing ? (
+                <div className="space-y-3">
+                  <Input
+                    value={editedTitle}
+                    onChange={(e) => setEditedTitle(e.target.value)}
+                    className="text-lg font-semibold"
+                  />
+                  <Textarea
+                    value={editedDescription}
+                    onChange={(e) => setEditedDescription(e.target.value)}
+                    placeholder="Add description..."
+                    rows={4}
+                  />
+                  <div className="flex gap-2">
+                    <Button size="sm" onClick={handleSaveEdits}>Save</Button>
+                    <Button size="sm" variant="ghost" onClick={() => setIsEditing(false)}>Cancel</Button>
+                  </div>
+                </div>
+              ) : (
+                <>
+                  {parent && (
+                    <button
+                      onClick={() => setCurrentTaskId(parent.id)}
+                      className="flex items-center gap-1 text-xs text-muted-foreground hover:text-primary mb-1 max-w-full"
+                    >
+                      <CornerLeftUp className="h-3 w-3 shrink-0" />
+                      <span className="truncate">Subtask of {parent.title}</span>
+                    </button>
+                  )}
+                  <h2 className="text-lg font-semibold text-foreground mb-2">{task.title}</h2>
+                  <p className="text-sm text-muted-foreground">
+                    {task.description || 'No description'}
+                  </p>
+                </>
+              )}
+            </div>
 
-          {/* Type */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-foreground">Type</label>
-            <Select value={task.type} onValueChange={handleTypeChange}>
-              <SelectTrigger>
-                <SelectValue />
-              </SelectTrigger>
-              <SelectContent>
-                {Object.entries(TYPE_LABELS).map(([value, label]) => (
-                  <SelectItem key={value} value={value}>{label}</SelectItem>
-                ))}
-              </SelectContent>
-            </Select>
-          </div>
+            {/* Status */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Status</label>
+              <Select value={task.status} onValueChange={handleStatusChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {workflow.map(status => (
+                    <SelectItem key={status.id} value={status.id}>{status.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
 
-          {/* Assignees */}
-          <div className="space-y-2">
-            <label className="text-sm font-medium text-foreground">Assignees</label>
-            <div className="flex flex-wrap gap-2">
-              {teamMembers.map(member => {
-                const isAssigned = task.assigneeIds.includes(member.id);
-                return (
-                  <button
-                    key={member.id}
-                    onClick={() => handleAssigneeChange(member.id)}
-                    className={cn(
-                      'flex items-center gap-2 px-2 py-1 rounded-lg border text-sm transition-colors',
-                      isAssigned 
-                        ? 'bg-primary/10 border-primary text-primary' 
-                        : 'bg-card border-border text-muted-foreground hover:border-primary/50'
-                    )}
-                  >
-                    <div className="w-5 h-5 rounded-full bg-primary/10 text-primary text-xs font-medium flex items-center justify-center">
-                      {member.initials}
-                    </div>
-                    {member.name.split(' ')[0]}
-                  </button>
-                );
-              })}
+            {/* Priority */}
+            <div className="space-y-2">
+              <label className="text-sm font-medium text-foreground">Priority</label>
+              <Select value={task.priority} onValueChange={handlePriorityChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(PRIORITY_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          </div>
 
-          {/* Due Date */}
-          {task.dueDate && (
+            {/* Type */}
             <div className="space-y-2">
-              <label className="text-sm font-medium text-foreground">Due Date</label>
-              <div className="flex items-center gap-2 text-sm text-muted-foreground">
-                <Calendar className="h-4 w-4" />
-                {format(new Date(task.dueDate), 'MMMM d, yyyy')}
-              </div>
+              <label className="text-sm font-medium text-foreground">Type</label>
+              <Select value={task.type} onValueChange={handleTypeChange}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TYPE_LABELS).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
             </div>
-          )}
 
-          {/* Tags */}
-          {task.tags.length > 0 && (
+            {/* Assignees */}
             <div className="space-y-2">
-              <label className="text-sm font-medium text-foreground">Tags</label>
-              <div className="flex flex-wrap gap-1">
-                {task.tags.map(tag => (
-                  <span 
-                    key={tag}
-                    className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground"
-                  >
-                    {tag}
-                  </span>
-                ))}
+              <label className="text-sm font-medium text-foreground">Assignees</label>
+              <div className="flex flex-wrap gap-2">
+                {teamMembers.map(member => {
+                  const isAssigned = task.assigneeIds.includes(member.id);
+                  return (
+                    <button
+                      key={member.id}
+                      onClick={() => handleAssigneeChange(member.id)}
+                      className={cn(
+                        'flex items-center gap-2 px-2 py-1 rounded-lg border text-sm transition-colors',
+                        isAssigned 
+                          ? 'bg-primary/10 border-primary text-primary' 
+                          : 'bg-card border-border text-muted-foreground hover:border-primary/50'
+                      )}
+                    >
+                      <div className="w-5 h-5 rounded-full bg-primary/10 text-primary text-xs font-medium flex items-center justify-center">
+                        {member.initials}
+                      </div>
+                      {member.name.split(' ')[0]}
+                    </button>
+                  );
+                })}
               </div>
             </div>
-          )}
 
-          {/* Type-specific fields */}
-          {task.type === 'development' && (
-            <div className="space-y-3 pt-4 border-t border-border">
-              <h3 className="text-sm font-semibold text-foreground">Development Details</h3>
-              {task.gitBranch && (
-                <div className="text-sm">
-                  <span className="text-muted-foreground">Branch: </span>
-                  <code className="bg-muted px-1.5 py-0.5 rounded text-foreground">{task.gitBranch}</code>
-                </div>
-              )}
-              {task.storyPoints && (
-                <div className="text-sm">
-                  <span className="text-muted-foreground">Story Points: </span>
-                  <span className="font-medium text-foreground">{task.storyPoints}</span>
-                </div>
-              )}
-              {task.prLink && (
-                <div className="text-sm">
-                  <span className="text-muted-foreground">PR: </span>
-                  <a href={task.prLink} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
-                    View Pull Request
-                  </a>
+            {/* Due Date */}
+            {task.dueDate && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Due Date</label>
+                <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <Calendar className="h-4 w-4" />
+                  {format(new Date(task.dueDate), 'MMMM d, yyyy')}
                 </div>
-              )}
-            </div>
-          )}
+              </div>
+            )}
 
-          {task.type === 'research' && (
-            <div className="space-y-3 pt-4 border-t border-border">
-              <h3 className="text-sm font-semibold text-foreground">Research Details</h3>
-              {task.protocolNumber && (
-                <div className="text-sm">
-                  <span className="text-muted-foreground">Protocol: </span>
-                  <span className="font-medium text-foreground">{task.protocolNumber}</span>
-                </div>
-              )}
-              {task.ethicsApproval && (
-                <div className="text-sm">
-                  <span className="text-muted-foreground">Ethics: </span>
-                  <span className={cn(
-                    'px-2 py-0.5 rounded-full text-xs capitalize',
-                    task.ethicsApproval === 'approved' && 'bg-success/10 text-success',
-                    task.ethicsApproval === 'pending' && 'bg-warning/10 text-warning',
-                    task.ethicsApproval === 'not-required' && 'bg-muted text-muted-foreground'
-                  )}>
-                    {task.ethicsApproval.replace('-', ' ')}
-                  </span>
+            {/* Start date & duration */}
+            <TaskSchedule task={task} />
+
+            {/* Recurrence */}
+            <TaskRecurrence task={task} />
+
+            {/* Project-defined fields */}
+            <TaskCustomFields task={task} />
+
+            {/* Tags */}
+            {task.tags.length > 0 && (
+              <div className="space-y-2">
+                <label className="text-sm font-medium text-foreground">Tags</label>
+                <div className="flex flex-wrap gap-1">
+                  {task.tags.map(tag => (
+                    <span 
+                      key={tag}
+                      className="text-xs px-2 py-1 rounded-full bg-muted text-muted-foreground"
+                    >
+                      {tag}
+                    </span>
+                  ))}
                 </div>
-              )}
-            </div>
-          )}
+              </div>
+            )}
 
-          {/* File Attachments */}
-          <div className="pt-4 border-t border-border">
-            <FileAttachments taskId={taskId} />
-          </div>
+            {/* Subtasks & checklist */}
+            <TaskSubtasks task={task} />
+
+            {/* Dependencies */}
+            <TaskDependencies task={task} />
+
+            {/* Type-specific fields */}
+            {task.type === 'development' && (
+              <div className="space-y-3 pt-4 border-t border-border">
+                <h3 className="text-sm font-semibold text-foreground">Development Details</h3>
+                {task.gitBranch && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Branch: </span>
+                    <code className="bg-muted px-1.5 py-0.5 rounded text-foreground">{task.gitBranch}</code>
+                  </div>
+                )}
+                {task.storyPoints && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Story Points: </span>
+                    <span className="font-medium text-foreground">{task.storyPoints}</span>
+                  </div>
+                )}
+                {task.prLink && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">PR: </span>
+                    <a href={task.prLink} target="_blank" rel="noopener noreferrer" className="text-primary hover:underline">
+                      View Pull Request
+                    </a>
+                  </div>
+                )}
+              </div>
+            )}
 
-          {/* Comments */}
-          <div className="space-y-4 pt-4 border-t border-border">
-            <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
-              <MessageSquare className="h-4 w-4" />
-              Comments ({comments.length})
-            </h3>
+            {task.type === 'research' && (
+              <div className="space-y-3 pt-4 border-t border-border">
+                <h3 className="text-sm font-semibold text-foreground">Research Details</h3>
+                {task.protocolNumber && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Protocol: </span>
+                    <span className="font-medium text-foreground">{task.protocolNumber}</span>
+                  </div>
+                )}
+                {task.ethicsApproval && (
+                  <div className="text-sm">
+                    <span className="text-muted-foreground">Ethics: </span>
+                    <span className={cn(
+                      'px-2 py-0.5 rounded-full text-xs capitalize',
+                      task.ethicsApproval === 'approved' && 'bg-success/10 text-success',
+                      task.ethicsApproval === 'pending' && 'bg-warning/10 text-warning',
+                      task.ethicsApproval === 'not-required' && 'bg-muted text-muted-foreground'
+                    )}>
+                      {task.ethicsApproval.replace('-', ' ')}
+                    </span>
+                  </div>
+                )}
+              </div>
+            )}
+
+            {/* File Attachments */}
+            <div className="pt-4 border-t border-border">
+              <FileAttachments taskId={taskId} />
+            </div>
+
+            {/* Comments */}
+            <div className="space-y-4 pt-4 border-t border-border">
+              <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+                <MessageSquare className="h-4 w-4" />
+                Comments ({comments.length})
+              </h3>
             
-            <div className="space-y-3">
-              {comments.map(comment => {
-                const author = getTeamMember(comment.authorId);
-                return (
-                  <div key={comment.id} className="flex gap-3">
-                    <Avatar className="h-8 w-8 flex-shrink-0">
-                      <AvatarFallback className="text-xs bg-primary/10 text-primary">
-                        {author?.initials || '??'}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div className="flex-1">
-                      <div className="flex items-center gap-2 mb-1">
-                        <span className="text-sm font-medium text-foreground">{author?.name || 'Unknown'}</span>
-                        <span className="text-xs text-muted-foreground">
-                          {format(new Date(comment.createdAt), 'MMM d, h:mm a')}
-                        </span>
+              <div className="space-y-3">
+                {comments.map(comment => {
+                  const author = getTeamMember(comment.authorId);
+                  return (
+                    <div key={comment.id} className="flex gap-3">
+                      <Avatar className="h-8 w-8 flex-shrink-0">
+                        <AvatarFallback className="text-xs bg-primary/10 text-primary">
+                          {author?.initials || '??'}
+                        </AvatarFallback>
+                      </Avatar>
+                      <div className="flex-1">
+                        <div className="flex items-center gap-2 mb-1">
+                          <span className="text-sm font-medium text-foreground">{author?.name || 'Unknown'}</span>
+                          <span className="text-xs text-muted-foreground">
+                            {format(new Date(comment.createdAt), 'MMM d, h:mm a')}
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">{comment.content}</p>
                       </div>
-                      <p className="text-sm text-muted-foreground">{comment.content}</p>
                     </div>
-                  </div>
-                );
-              })}
-            </div>
+                  );
+                })}
+              </div>
 
-            {/* Add comment */}
-            <div className="flex gap-2">
-              <Input
-                value={newComment}
-                onChange={(e) => setNewComment(e.target.value)}
-                placeholder="Add a comment..."
-                onKeyDown={(e) => e.key === 'Enter' && !isSendingComment && handleAddComment()}
-                disabled={isSendingComment}
-              />
-              <Button size="icon" onClick={handleAddComment} disabled={!newComment.trim() || isSendingComment}>
-                {isSendingComment ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
-              </Button>
+              {/* Add comment */}
+              <div className="flex gap-2">
+                <Input
+                  value={newComment}
+                  onChange={(e) => setNewComment(e.target.value)}
+                  placeholder="Add a comment..."
+                  onKeyDown={(e) => e.key === 'Enter' && !isSendingComment && handleAddComment()}
+                  disabled={isSendingComment}
+                />
+                <Button size="icon" onClick={handleAddComment} disabled={!newComment.trim() || isSendingComment}>
+                  {isSendingComment ? <Loader2 className="h-4 w-4 animate-spin" /> : <Send className="h-4 w-4" />}
+                </Button>
+              </div>
             </div>
           </div>
-        </div>
-      </div>
+        </TabsContent>
+
+        <TabsContent value="activity" className="flex-1 overflow-y-auto scrollbar-thin mt-0">
+          <div className="p-4">
+            <TaskActivityFeed taskId={taskId} />
+          </div>
+        </TabsContent>
+      </Tabs>
+
+      <SaveTemplateDialog open={isSavingTemplate} onOpenChange={setIsSavingTemplate} task={task} />
     </div>
   );
 }
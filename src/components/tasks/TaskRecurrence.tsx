@@ -0,0 +1,214 @@
+import React from 'react';
+import { Repeat } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { useProject } from '@/contexts/ProjectContext';
+import { RecurrenceRule, Task, Weekday } from '@/types';
+import { WEEKDAYS, WEEKDAY_LABELS, describeRecurrence } from '@/lib/recurrence';
+import { Input } from '@/components/ui/input';
+import { ToggleGroup, ToggleGroupItem } from '@/components/ui/toggle-group';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+
+interface TaskRecurrenceProps {
+  task: Task;
+}
+
+type Frequency = RecurrenceRule['frequency'];
+type MonthlyMode = 'day' | 'weekday' | 'last-weekday' | 'last-day';
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCY_LABELS: Record<Frequency, string> = {
+  daily: 'Daily',
+  weekly: 'Weekly',
+  monthly: 'Monthly',
+  yearly: 'Yearly',
+};
+
+const UNIT_LABELS: Record<Frequency, string> = {
+  daily: 'day(s)',
+  weekly: 'week(s)',
+  monthly: 'month(s)',
+  yearly: 'year(s)',
+};
+
+const NTH_LABELS = ['first', 'second', 'third', 'fourth', 'fifth'];
+
+export function TaskRecurrence({ task }: TaskRecurrenceProps) {
+  const { updateTask } = useProject();
+  const rule = task.recurrence;
+
+  // Weekdays and month days default to those of the due date
+  const anchor = task.dueDate ? parseISO(task.dueDate) : new Date();
+  const anchorWeekday = WEEKDAYS[(anchor.getDay() + 6) % 7];
+  const anchorNth = Math.ceil(anchor.getDate() / 7);
+
+  const save = (recurrence: RecurrenceRule | undefined) => updateTask(task.id, { recurrence });
+  const change = (changes: Partial<RecurrenceRule>) => rule && save({ ...rule, ...changes });
+
+  const handleFrequencyChange = (value: Frequency | 'none') => {
+    if (value === 'none') {
+      save(undefined);
+      return;
+    }
+    save({
+      frequency: value,
+      interval: rule?.interval ?? 1,
+      weekdays: value === 'weekly' ? [anchorWeekday] : undefined,
+      until: rule?.until,
+      count: rule?.count,
+    });
+  };
+
+  const monthlyMode: MonthlyMode = rule?.nthWeekday
+    ? rule.nthWeekday.n === -1 ? 'last-weekday' : 'weekday'
+    : rule?.monthDay === -1 ? 'last-day' : 'day';
+
+  const handleMonthlyModeChange = (mode: MonthlyMode) => {
+    const cleared = { monthDay: undefined, nthWeekday: undefined };
+    switch (mode) {
+      case 'day':
+        return change({ ...cleared, monthDay: anchor.getDate() });
+      case 'weekday':
+        return change({ ...cleared, nthWeekday: { weekday: anchorWeekday, n: Math.min(anchorNth, 5) } });
+      case 'last-weekday':
+        return change({ ...cleared, nthWeekday: { weekday: anchorWeekday, n: -1 } });
+      case 'last-day':
+        return change({ ...cleared, monthDay: -1 });
+    }
+  };
+
+  const endMode: EndMode = rule?.until ? 'until' : rule?.count !== undefined ? 'count' : 'never';
+
+  // RRULE allows an end date or a count, not both
+  const handleEndModeChange = (mode: EndMode) => {
+    change({
+      until: mode === 'until' ? rule?.until ?? format(anchor, 'yyyy-MM-dd') : undefined,
+      count: mode === 'count' ? rule?.count ?? 10 : undefined,
+    });
+  };
+
+  const commitInterval = (value: string) => {
+    const interval = Number(value);
+    if (Number.isInteger(interval) && interval >= 1 && interval !== rule?.interval) change({ interval });
+  };
+
+  const commitCount = (value: string) => {
+    const count = Number(value);
+    if (Number.isInteger(count) && count >= 1 && count !== rule?.count) change({ count });
+  };
+
+  const nthWeekday = rule?.nthWeekday ?? { weekday: anchorWeekday, n: anchorNth };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-foreground flex items-center gap-2">
+        <Repeat className="h-4 w-4" />
+        Repeat
+      </label>
+      <Select value={rule?.frequency ?? 'none'} onValueChange={(value) => handleFrequencyChange(value as Frequency | 'none')}>
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          {Object.entries(FREQUENCY_LABELS).map(([value, label]) => (
+            <SelectItem key={value} value={value}>{label}</SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      {rule && (
+        <div className="space-y-3 rounded-lg border border-border p-3">
+          <div className="flex items-center gap-2 text-sm text-muted-foreground">
+            Every
+            <Input
+              key={rule.interval}
+              type="number"
+              min={1}
+              defaultValue={rule.interval}
+              onBlur={(e) => commitInterval(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && commitInterval(e.currentTarget.value)}
+              className="h-8 w-16 text-sm"
+            />
+            {UNIT_LABELS[rule.frequency]}
+          </div>
+
+          {rule.frequency === 'weekly' && (
+            <ToggleGroup
+              type="multiple"
+              value={rule.weekdays ?? []}
+              onValueChange={(days) => days.length > 0 && change({ weekdays: days as Weekday[] })}
+              className="justify-start flex-wrap"
+            >
+              {WEEKDAYS.map(day => (
+                <ToggleGroupItem key={day} value={day} size="sm" className="h-8 w-9 text-xs" aria-label={WEEKDAY_LABELS[day]}>
+                  {WEEKDAY_LABELS[day].slice(0, 2)}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+          )}
+
+          {rule.frequency === 'monthly' && (
+            <Select value={monthlyMode} onValueChange={(value) => handleMonthlyModeChange(value as MonthlyMode)}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="day">On day {rule.monthDay && rule.monthDay > 0 ? rule.monthDay : anchor.getDate()}</SelectItem>
+                <SelectItem value="weekday">
+                  On the {NTH_LABELS[Math.min(Math.max(nthWeekday.n, 1), 5) - 1]} {WEEKDAY_LABELS[nthWeekday.weekday]}
+                </SelectItem>
+                <SelectItem value="last-weekday">On the last {WEEKDAY_LABELS[nthWeekday.weekday]}</SelectItem>
+                <SelectItem value="last-day">On the last day</SelectItem>
+              </SelectContent>
+            </Select>
+          )}
+
+          <div className="flex items-center gap-2">
+            <Select value={endMode} onValueChange={(value) => handleEndModeChange(value as EndMode)}>
+              <SelectTrigger className="h-8 text-sm">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="never">Never ends</SelectItem>
+                <SelectItem value="until">Ends on</SelectItem>
+                <SelectItem value="count">Ends after</SelectItem>
+              </SelectContent>
+            </Select>
+            {endMode === 'until' && (
+              <Input
+                type="date"
+                value={rule.until ?? ''}
+                onChange={(e) => e.target.value && change({ until: e.target.value })}
+                className="h-8 text-sm"
+              />
+            )}
+            {endMode === 'count' && (
+              <div className="flex items-center gap-2 text-sm text-muted-foreground shrink-0">
+                <Input
+                  key={rule.count}
+                  type="number"
+                  min={1}
+                  defaultValue={rule.count}
+                  onBlur={(e) => commitCount(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && commitCount(e.currentTarget.value)}
+                  className="h-8 w-16 text-sm"
+                />
+                times
+              </div>
+            )}
+          </div>
+
+          <p className="text-xs text-muted-foreground">
+            {describeRecurrence(rule)}. Completing this task creates the next one.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
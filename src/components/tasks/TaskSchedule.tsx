@@ -0,0 +1,72 @@
+import React from 'react';
+import { CalendarRange } from 'lucide-react';
+import { differenceInCalendarDays, format } from 'date-fns';
+import { useProject } from '@/contexts/ProjectContext';
+import { Task } from '@/types';
+import { plannedWindow, scheduleProject } from '@/lib/criticalPath';
+import { isDoneStatus } from '@/lib/workflow';
+import { cn } from '@/lib/utils';
+import { Input } from '@/components/ui/input';
+
+interface TaskScheduleProps {
+  task: Task;
+}
+
+export function TaskSchedule({ task }: TaskScheduleProps) {
+  const { updateTask, getProjectTasks, getProjectWorkflow } = useProject();
+  const workflow = getProjectWorkflow(task.projectId);
+  const scheduled = scheduleProject(
+    getProjectTasks(task.projectId),
+    t => isDoneStatus(workflow, t.status)
+  ).tasks.get(task.id);
+  const planned = plannedWindow(task);
+
+  const commitDuration = (value: string) => {
+    const duration = value === '' ? undefined : Number(value);
+    if (duration !== undefined && (!Number.isInteger(duration) || duration < 1)) return;
+    if (duration !== task.duration) updateTask(task.id, { duration });
+  };
+
+  return (
+    <div className="space-y-2">
+      <label className="text-sm font-medium text-foreground flex items-center gap-2">
+        <CalendarRange className="h-4 w-4" />
+        Schedule
+      </label>
+      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+        Starts
+        <Input
+          type="date"
+          value={task.startDate ?? ''}
+          onChange={(e) => updateTask(task.id, { startDate: e.target.value || undefined })}
+          className="h-8 w-40 text-sm"
+          aria-label="Start date"
+        />
+        for
+        <Input
+          key={task.duration}
+          type="number"
+          min={1}
+          defaultValue={task.duration ?? ''}
+          placeholder={String(differenceInCalendarDays(planned.finish, planned.start) + 1)}
+          onBlur={(e) => commitDuration(e.target.value)}
+          onKeyDown={(e) => e.key === 'Enter' && commitDuration(e.currentTarget.value)}
+          className="h-8 w-16 text-sm"
+          aria-label="Duration in days"
+        />
+        days
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Planned {format(planned.start, 'MMM d')} – {format(planned.finish, 'MMM d, yyyy')}
+      </p>
+      {scheduled && (
+        <p className={cn('text-xs', scheduled.isCritical ? 'text-destructive' : 'text-muted-foreground')}>
+          {scheduled.isCritical
+            ? 'On the critical path: any delay moves the project end'
+            : `Can slip ${scheduled.float} ${scheduled.float === 1 ? 'day' : 'days'} without moving the project end`}
+          {scheduled.slip > 0 && `. Forecast to finish ${format(scheduled.finish, 'MMM d')}.`}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,167 @@
+import React, { useState } from 'react';
+import { ListChecks, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { useProject } from '@/contexts/ProjectContext';
+import { ChecklistItem, Task } from '@/types';
+import { generateId } from '@/data/mockData';
+import { getSubtasks, taskProgress } from '@/lib/subtasks';
+import { doneStatus, findStatus, initialStatus, isDoneStatus } from '@/lib/workflow';
+import { cn } from '@/lib/utils';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Progress } from '@/components/ui/progress';
+
+interface TaskSubtasksProps {
+  task: Task;
+}
+
+export function TaskSubtasks({ task }: TaskSubtasksProps) {
+  const { tasks, addTask, updateTask, updateTaskStatus, setCurrentTaskId, getProjectWorkflow } = useProject();
+  const [newSubtask, setNewSubtask] = useState('');
+  const [newItem, setNewItem] = useState('');
+
+  const subtasks = getSubtasks(tasks, task.id);
+  const checklist = task.checklist ?? [];
+  const workflow = getProjectWorkflow(task.projectId);
+  const progress = taskProgress(task, tasks, workflow);
+
+  const handleAddSubtask = (overrideWip = false) => {
+    const title = newSubtask.trim();
+    if (!title) return;
+    const added = addTask({
+      projectId: task.projectId,
+      parentId: task.id,
+      title,
+      description: '',
+      type: task.type,
+      priority: task.priority,
+      status: initialStatus(workflow),
+      assigneeIds: [],
+      tags: [],
+    }, overrideWip);
+    if (!added.ok) {
+      toast.error(added.reason, added.canOverride
+        ? { action: { label: 'Add anyway', onClick: () => handleAddSubtask(true) } }
+        : undefined);
+      return;
+    }
+    setNewSubtask('');
+  };
+
+  // Unticking a finished subtask reopens it where new tasks start
+  const toggleSubtask = (subtask: Task) => {
+    const status = isDoneStatus(workflow, subtask.status) ? initialStatus(workflow) : doneStatus(workflow);
+    const moved = updateTaskStatus(subtask.id, status);
+    if (!moved.ok) {
+      toast.error(moved.reason, moved.canOverride
+        ? { action: { label: 'Move anyway', onClick: () => updateTaskStatus(subtask.id, status, true) } }
+        : undefined);
+    }
+  };
+
+  const updateChecklist = (items: ChecklistItem[]) => {
+    updateTask(task.id, { checklist: items });
+  };
+
+  const handleAddItem = () => {
+    const text = newItem.trim();
+    if (!text) return;
+    updateChecklist([...checklist, { id: generateId('chk'), text, done: false }]);
+    setNewItem('');
+  };
+
+  return (
+    <div className="space-y-4 pt-4 border-t border-border">
+      <div className="space-y-2">
+        <h3 className="text-sm font-semibold text-foreground flex items-center gap-2">
+          <ListChecks className="h-4 w-4" />
+          Subtasks & Checklist
+          {progress.total > 0 && (
+            <span className="ml-auto text-xs font-normal text-muted-foreground">
+              {progress.done} of {progress.total} done
+            </span>
+          )}
+        </h3>
+        {progress.total > 0 && (
+          <Progress value={(progress.done / progress.total) * 100} className="h-1.5" />
+        )}
+      </div>
+
+      {/* Subtasks */}
+      <div className="space-y-1">
+        {subtasks.map(subtask => (
+          <div key={subtask.id} className="flex items-center gap-2 group">
+            <Checkbox
+              checked={isDoneStatus(workflow, subtask.status)}
+              onCheckedChange={() => toggleSubtask(subtask)}
+              aria-label={`Mark "${subtask.title}" as done`}
+            />
+            <button
+              onClick={() => setCurrentTaskId(subtask.id)}
+              className={cn(
+                'flex-1 min-w-0 text-left text-sm truncate hover:text-primary transition-colors',
+                isDoneStatus(workflow, subtask.status) ? 'text-muted-foreground line-through' : 'text-foreground'
+              )}
+            >
+              {subtask.title}
+            </button>
+            <span className="text-xs text-muted-foreground shrink-0">{findStatus(workflow, subtask.status).label}</span>
+          </div>
+        ))}
+        <div className="flex gap-2 pt-1">
+          <Input
+            value={newSubtask}
+            onChange={(e) => setNewSubtask(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddSubtask()}
+            placeholder="Add a subtask..."
+            className="h-8 text-sm"
+          />
+          <Button size="icon" variant="outline" className="h-8 w-8 shrink-0" onClick={() => handleAddSubtask()} disabled={!newSubtask.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+
+      {/* Checklist */}
+      <div className="space-y-1">
+        {checklist.map(item => (
+          <div key={item.id} className="flex items-center gap-2 group">
+            <Checkbox
+              checked={item.done}
+              onCheckedChange={(checked) => updateChecklist(
+                checklist.map(i => (i.id === item.id ? { ...i, done: checked === true } : i))
+              )}
+              aria-label={`Mark "${item.text}" as done`}
+            />
+            <span className={cn(
+              'flex-1 min-w-0 text-sm break-words',
+              item.done ? 'text-muted-foreground line-through' : 'text-foreground'
+            )}>
+              {item.text}
+            </span>
+            <button
+              onClick={() => updateChecklist(checklist.filter(i => i.id !== item.id))}
+              className="opacity-0 group-hover:opacity-100 text-muted-foreground hover:text-destructive transition-opacity"
+              aria-label={`Remove "${item.text}"`}
+            >
+              <X className="h-3.5 w-3.5" />
+            </button>
+          </div>
+        ))}
+        <div className="flex gap-2 pt-1">
+          <Input
+            value={newItem}
+            onChange={(e) => setNewItem(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleAddItem()}
+            placeholder="Add a checklist item..."
+            className="h-8 text-sm"
+          />
+          <Button size="icon" variant="outline" className="h-8 w-8 shrink-0" onClick={handleAddItem} disabled={!newItem.trim()}>
+            <Plus className="h-4 w-4" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,24 +1,30 @@
-import React, { useState, useMemo, useRef } from 'react';
-import {
-  format,
-  startOfMonth,
-  endOfMonth,
-  eachDayOfInterval,
-  differenceInDays,
-  parseISO,
-  addMonths,
-  subMonths,
-  isToday,
-  isSameMonth,
-  startOfDay,
-  addDays,
-} from 'date-fns';
-import { ChevronLeft, ChevronRight, ArrowRight } from 'lucide-react';
+import React, { useState, useMemo, useRef, useEffect, useLayoutEffect } from 'react';
+import { format, parseISO, addDays, differenceInCalendarDays, startOfDay, min as minDate, max as maxDate } from 'date-fns';
+import { ChevronLeft, ChevronRight, ArrowRight, ZoomIn } from 'lucide-react';
+import { toast } from 'sonner';
 import { useProject } from '@/contexts/ProjectContext';
 import { Button } from '@/components/ui/button';
+import { Switch } from '@/components/ui/switch';
 import { cn } from '@/lib/utils';
-import { Task, STATUS_LABELS, PRIORITY_LABELS, TYPE_LABELS, Status } from '@/types';
+import { findStatus, isBlockedStatus, isDoneStatus } from '@/lib/workflow';
+import { isCriticalLink, plannedWindow, scheduleProject } from '@/lib/criticalPath';
+import { findDependencyCycle } from '@/lib/dependencies';
+import { moveChanges, resizeChanges, shiftDependants, workingDaysMoved } from '@/lib/gantt';
+import {
+  TimelineScale,
+  TimelineZoom,
+  ZOOM_LEVELS,
+  createScale,
+  dateAt,
+  dayOffset,
+  fitDayWidth,
+  totalWidth,
+  visibleUnits,
+  xOf,
+} from '@/lib/timelineScale';
+import { Task, PRIORITY_LABELS, TYPE_LABELS } from '@/types';
 import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import {
   Tooltip,
   TooltipContent,
@@ -29,62 +35,180 @@ interface TimelineViewProps {
   projectId: string;
 }
 
-const DAY_WIDTH = 40;
+const ROW_HEIGHT = 48;
+// Bars stay wide enough to grab when zoomed far out
+const MIN_BAR_WIDTH = 6;
+// Used until the timeline has been measured
+const DEFAULT_VIEWPORT_WIDTH = 1000;
+
+interface BarDrag {
+  taskId: string;
+  // Moving the bar, stretching it from its right end, or linking it to another bar
+  mode: 'move' | 'resize' | 'link';
+  originX: number;
+  // Whole days the pointer has moved so far
+  days: number;
+  // Pointer position within the bars area, for the link being drawn
+  x: number;
+  y: number;
+}
+
+interface TaskBar {
+  task: Task;
+  start: Date;
+  duration: number;
+}
 
 export function TimelineView({ projectId }: TimelineViewProps) {
-  const { tasks, setCurrentTaskId, teamMembers } = useProject();
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const { projects, tasks, updateTask, setCurrentTaskId, teamMembers, getProjectWorkflow } = useProject();
+  const project = projects.find(p => p.id === projectId);
+  const workflow = getProjectWorkflow(projectId);
+  const [zoom, setZoom] = useState<TimelineZoom>('day');
+  const [viewport, setViewport] = useState({ left: 0, width: 0 });
+  // Days added before and after the project's span as the user scrolls towards either end
+  const [extraDays, setExtraDays] = useState({ before: 0, after: 0 });
   const scrollRef = useRef<HTMLDivElement>(null);
+  const bodyRef = useRef<HTMLDivElement>(null);
+  const barsRef = useRef<HTMLDivElement>(null);
+  const [drag, setDrag] = useState<BarDrag | null>(null);
+  const [moveDependants, setMoveDependants] = useState(false);
+  // A drag ends with a click on the bar, which should not open the task
+  const dragged = useRef(false);
+  // Date to bring into view once the timeline has been laid out at its new scale
+  const scrollTarget = useRef<{ date: Date; align: 'start' | 'center' } | null>({ date: new Date(), align: 'center' });
+  const lastScale = useRef<TimelineScale | null>(null);
 
   const projectTasks = useMemo(
     () => tasks.filter(t => t.projectId === projectId),
     [tasks, projectId]
   );
 
-  // Calculate the timeline range (current month view)
-  const timelineStart = startOfMonth(currentDate);
-  const timelineEnd = endOfMonth(currentDate);
-  const days = eachDayOfInterval({ start: timelineStart, end: timelineEnd });
+  const schedule = useMemo(
+    () => scheduleProject(projectTasks, task => isDoneStatus(workflow, task.status)),
+    [projectTasks, workflow]
+  );
 
-  // Prepare tasks with calculated positions
-  const taskBars = useMemo(() => {
+  // Every task gets a row, in order of its planned start
+  const taskBars = useMemo<TaskBar[]>(() => {
     return projectTasks
       .map(task => {
-        // Use createdAt as start if no explicit start date
-        const taskStart = startOfDay(parseISO(task.createdAt));
-        // Use dueDate as end, or 3 days after start if no due date
-        const taskEnd = task.dueDate 
-          ? startOfDay(parseISO(task.dueDate))
-          : addDays(taskStart, 3);
-
-        // Calculate position relative to timeline
-        const startOffset = differenceInDays(taskStart, timelineStart);
-        const duration = Math.max(1, differenceInDays(taskEnd, taskStart) + 1);
-
-        return {
-          task,
-          startOffset,
-          duration,
-          isVisible: startOffset + duration > 0 && startOffset < days.length,
-        };
+        const { start, finish } = plannedWindow(task);
+        return { task, start, duration: Math.max(1, differenceInCalendarDays(finish, start) + 1) };
       })
-      .filter(bar => bar.isVisible)
-      .sort((a, b) => a.startOffset - b.startOffset);
-  }, [projectTasks, timelineStart, days.length]);
+      .sort((a, b) => a.start.getTime() - b.start.getTime());
+  }, [projectTasks]);
 
-  const navigate = (direction: 'prev' | 'next') => {
-    setCurrentDate(direction === 'prev' ? subMonths(currentDate, 1) : addMonths(currentDate, 1));
+  // The span the project is planned to take, for fitting it into view
+  const projectSpan = useMemo(() => {
+    if (!project) return null;
+    const start = startOfDay(parseISO(project.startDate));
+    const end = project.endDate
+      ? startOfDay(parseISO(project.endDate))
+      : schedule.finish ?? maxDate([start, ...taskBars.map(bar => addDays(bar.start, bar.duration - 1))]);
+    return { start, end: end < start ? start : end };
+  }, [project, schedule.finish, taskBars]);
+
+  const viewportWidth = viewport.width || DEFAULT_VIEWPORT_WIDTH;
+  const dayWidth = zoom === 'fit' && projectSpan
+    ? fitDayWidth(projectSpan.start, projectSpan.end, viewportWidth)
+    : ZOOM_LEVELS.find(level => level.value === zoom)?.dayWidth ?? ZOOM_LEVELS[0].dayWidth;
+
+  // The timeline covers the project, its tasks and today, with a screen's
+  // width to spare either side
+  const scale = useMemo(() => {
+    const today = startOfDay(new Date());
+    const dates = [today, ...taskBars.flatMap(bar => [bar.start, addDays(bar.start, bar.duration - 1)])];
+    if (projectSpan) dates.push(projectSpan.start, projectSpan.end);
+    const spare = Math.ceil(viewportWidth / dayWidth);
+    return createScale(
+      addDays(minDate(dates), -(spare + extraDays.before)),
+      addDays(maxDate(dates), spare + extraDays.after),
+      dayWidth
+    );
+  }, [taskBars, projectSpan, viewportWidth, dayWidth, extraDays]);
+  const width = totalWidth(scale);
+
+  useEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const observer = new ResizeObserver(() => setViewport({ left: body.scrollLeft, width: body.clientWidth }));
+    observer.observe(body);
+    return () => observer.disconnect();
+  }, []);
+
+  const scrollToDate = (date: Date, align: 'start' | 'center') => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const x = xOf(scale, date) + (align === 'center' ? scale.dayWidth / 2 - body.clientWidth / 2 : 0);
+    body.scrollLeft = Math.max(0, x);
   };
 
-  const goToToday = () => {
-    setCurrentDate(new Date());
-    // Scroll to today
+  // Keeps the same dates in view when the scale changes
+  useLayoutEffect(() => {
+    const body = bodyRef.current;
+    if (!body) return;
+    const previous = lastScale.current;
+    lastScale.current = scale;
+    let target = scrollTarget.current;
+    scrollTarget.current = null;
+
+    if (!target && previous && previous.dayWidth === scale.dayWidth) {
+      // Only the start moved, e.g. after growing the timeline to the left
+      const shift = dayOffset(scale, previous.start) * scale.dayWidth;
+      if (shift !== 0) body.scrollLeft += shift;
+      return;
+    }
+    if (!target && previous) {
+      target = zoom === 'fit' && projectSpan
+        ? { date: projectSpan.start, align: 'start' }
+        : { date: dateAt(previous, body.scrollLeft + body.clientWidth / 2), align: 'center' };
+    }
+    if (target) scrollToDate(target.date, target.align);
+  });
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const body = e.currentTarget;
+    // Sync scroll with header
     if (scrollRef.current) {
-      const todayOffset = differenceInDays(new Date(), timelineStart);
-      scrollRef.current.scrollLeft = Math.max(0, todayOffset * DAY_WIDTH - 200);
+      scrollRef.current.scrollLeft = body.scrollLeft;
+    }
+    setViewport({ left: body.scrollLeft, width: body.clientWidth });
+    // Grow the timeline before the user runs out of it
+    const spare = Math.ceil(body.clientWidth / scale.dayWidth);
+    if (body.scrollLeft < body.clientWidth / 2) {
+      setExtraDays(prev => ({ ...prev, before: prev.before + spare }));
+    } else if (body.scrollLeft + body.clientWidth > body.scrollWidth - body.clientWidth / 2) {
+      setExtraDays(prev => ({ ...prev, after: prev.after + spare }));
     }
   };
 
+  const navigate = (direction: 'prev' | 'next') => {
+    bodyRef.current?.scrollBy({
+      left: (direction === 'prev' ? -1 : 1) * viewportWidth * 0.8,
+      behavior: 'smooth',
+    });
+  };
+
+  const goToToday = () => scrollToDate(new Date(), 'center');
+
+  const changeZoom = (value: TimelineZoom) => {
+    if (value === 'fit' && projectSpan) {
+      if (zoom === 'fit') scrollToDate(projectSpan.start, 'start');
+      else scrollTarget.current = { date: projectSpan.start, align: 'start' };
+    }
+    setZoom(value);
+  };
+
+  // Only what is within a screen of the view is drawn
+  const visibleLeft = viewport.left - viewportWidth;
+  const visibleRight = viewport.left + viewportWidth * 2;
+  const units = visibleUnits(scale, viewport.left, viewport.left + viewportWidth);
+  const viewStart = dateAt(scale, viewport.left);
+  const viewEnd = dateAt(scale, viewport.left + viewportWidth);
+  const title = scale.unit === 'day' || scale.unit === 'week'
+    ? format(dateAt(scale, viewport.left + viewportWidth / 2), 'MMMM yyyy')
+    : `${format(viewStart, 'MMM yyyy')} – ${format(viewEnd, 'MMM yyyy')}`;
+
   const getTaskColor = (task: Task) => {
     const colors: Record<string, { bg: string; border: string }> = {
       development: { bg: 'bg-type-development', border: 'border-type-development' },
@@ -96,13 +220,15 @@ export function TimelineView({ projectId }: TimelineViewProps) {
     return colors[task.type] || colors.general;
   };
 
-  const getStatusStyle = (status: Status) => {
-    if (status === 'done') return 'opacity-60';
-    if (status === 'blocked') return 'opacity-80 bg-stripes';
+  const getStatusStyle = (task: Task) => {
+    const taskWorkflow = getProjectWorkflow(task.projectId);
+    if (isDoneStatus(taskWorkflow, task.status)) return 'opacity-60';
+    if (isBlockedStatus(taskWorkflow, task.status)) return 'opacity-80 bg-stripes';
     return '';
   };
 
-  // Find dependent tasks for visualization
+  // Find dependent tasks for visualization. blockedBy is the open part of
+  // dependencies, so it adds no lines of its own.
   const getDependencies = (task: Task) => {
     const deps: { from: Task; to: Task }[] = [];
     if (task.dependencies) {
@@ -113,24 +239,90 @@ export function TimelineView({ projectId }: TimelineViewProps) {
         }
       });
     }
-    if (task.blockedBy) {
-      task.blockedBy.forEach(blockerId => {
-        const blockerTask = projectTasks.find(t => t.id === blockerId);
-        if (blockerTask) {
-          deps.push({ from: blockerTask, to: task });
-        }
-      });
-    }
     return deps;
   };
 
+  // Where a bar is drawn, in days from the start of the timeline, following
+  // the drag in progress
+  const barExtent = ({ task, start, duration }: TaskBar) => {
+    const startOffset = dayOffset(scale, start);
+    if (drag?.taskId !== task.id) return { startOffset, duration };
+    if (drag.mode === 'move') return { startOffset: startOffset + drag.days, duration };
+    if (drag.mode === 'resize') return { startOffset, duration: Math.max(1, duration + drag.days) };
+    return { startOffset, duration };
+  };
+
+  const pointerAt = (e: React.PointerEvent) => {
+    const rect = barsRef.current?.getBoundingClientRect();
+    return { x: e.clientX - (rect?.left ?? 0), y: e.clientY - (rect?.top ?? 0) };
+  };
+
+  const startDrag = (e: React.PointerEvent<HTMLElement>, task: Task, mode: BarDrag['mode']) => {
+    if (e.button !== 0) return;
+    e.stopPropagation();
+    // Later pointer events bubble up to the bar from here, even off the bar
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragged.current = false;
+    setDrag({ taskId: task.id, mode, originX: e.clientX, days: 0, ...pointerAt(e) });
+  };
+
+  const handleDragMove = (e: React.PointerEvent) => {
+    if (!drag) return;
+    const days = Math.round((e.clientX - drag.originX) / scale.dayWidth);
+    if (days !== 0 || drag.mode === 'link') dragged.current = true;
+    setDrag({ ...drag, days, ...pointerAt(e) });
+  };
+
+  // The task under the pointer waits on the dragged one from now on
+  const linkTasks = (from: Task, toId: string) => {
+    const to = projectTasks.find(t => t.id === toId);
+    if (!to || to.dependencies?.includes(from.id)) return;
+    const cycle = findDependencyCycle(tasks, to.id, from.id);
+    if (cycle) {
+      toast.error("Dependencies can't go in a loop", { description: cycle.map(t => t.title).join(' → ') });
+      return;
+    }
+    updateTask(to.id, { dependencies: [...(to.dependencies ?? []), from.id] });
+    toast(`"${to.title}" now waits on "${from.title}"`);
+  };
+
+  const handleDragEnd = (e: React.PointerEvent) => {
+    if (!drag) return;
+    setDrag(null);
+    const task = projectTasks.find(t => t.id === drag.taskId);
+    if (!task) return;
+
+    if (drag.mode === 'link') {
+      const target = document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-task-id]');
+      if (target && target.dataset.taskId !== task.id) linkTasks(task, target.dataset.taskId);
+      return;
+    }
+    const days = Math.round((e.clientX - drag.originX) / scale.dayWidth);
+    if (days === 0) return;
+    if (drag.mode === 'resize') {
+      updateTask(task.id, resizeChanges(task, days));
+      return;
+    }
+
+    const shifted = moveDependants
+      ? shiftDependants(tasks, task.id, workingDaysMoved(task, days), t => isDoneStatus(workflow, t.status))
+      : [];
+    updateTask(task.id, moveChanges(task, days));
+    shifted.forEach(({ id, changes }) => updateTask(id, changes));
+    if (shifted.length > 0) {
+      toast(`Moved ${shifted.length} dependent ${shifted.length === 1 ? 'task' : 'tasks'} along with "${task.title}"`);
+    }
+  };
+
+  const todayX = xOf(scale, new Date()) + scale.dayWidth / 2;
+
   return (
     <div className="h-full flex flex-col p-4 bg-background">
       {/* Header */}
       <div className="flex items-center justify-between mb-4 flex-shrink-0">
         <div className="flex items-center gap-4">
           <h2 className="text-xl font-semibold text-foreground">
-            {format(currentDate, 'MMMM yyyy')}
+            {title}
           </h2>
           <div className="flex items-center gap-1">
             <Button variant="outline" size="icon" onClick={() => navigate('prev')}>
@@ -143,6 +335,24 @@ export function TimelineView({ projectId }: TimelineViewProps) {
               <ChevronRight className="h-4 w-4" />
             </Button>
           </div>
+          <div className="flex items-center gap-2">
+            <ZoomIn className="h-4 w-4 text-muted-foreground" />
+            <Select value={zoom} onValueChange={(value) => changeZoom(value as TimelineZoom)}>
+              <SelectTrigger className="w-36 h-8" aria-label="Zoom">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ZOOM_LEVELS.map(level => (
+                  <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+                ))}
+                <SelectItem value="fit">Fit project</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          <label className="flex items-center gap-2 text-sm text-muted-foreground">
+            <Switch checked={moveDependants} onCheckedChange={setMoveDependants} />
+            Move dependants too
+          </label>
         </div>
         <div className="flex items-center gap-4 text-xs text-muted-foreground">
           <span className="flex items-center gap-1">
@@ -183,21 +393,18 @@ export function TimelineView({ projectId }: TimelineViewProps) {
                 <div className="flex-1 min-w-0">
                   <p className="text-sm font-medium text-foreground truncate">{task.title}</p>
                   <div className="flex items-center gap-2">
-                    <span className={cn(
-                      'w-2 h-2 rounded-full',
-                      task.status === 'done' ? 'bg-status-done' :
-                      task.status === 'in-progress' ? 'bg-status-progress' :
-                      task.status === 'blocked' ? 'bg-status-blocked' :
-                      'bg-muted-foreground'
-                    )} />
-                    <span className="text-xs text-muted-foreground">{STATUS_LABELS[task.status]}</span>
+                    <span
+                      className="w-2 h-2 rounded-full"
+                      style={{ backgroundColor: findStatus(workflow, task.status).color }}
+                    />
+                    <span className="text-xs text-muted-foreground">{findStatus(workflow, task.status).label}</span>
                   </div>
                 </div>
               </div>
             ))}
             {taskBars.length === 0 && (
               <div className="p-4 text-center text-sm text-muted-foreground">
-                No tasks with dates in this month
+                No tasks in this project yet
               </div>
             )}
           </div>
@@ -205,26 +412,26 @@ export function TimelineView({ projectId }: TimelineViewProps) {
 
         {/* Right panel - Timeline */}
         <div className="flex-1 overflow-hidden">
-          {/* Days header */}
-          <div className="h-12 border-b border-border flex bg-muted overflow-x-auto" ref={scrollRef}>
-            <div className="flex" style={{ minWidth: days.length * DAY_WIDTH }}>
-              {days.map(day => (
+          {/* Date header */}
+          <div className="h-12 border-b border-border bg-muted overflow-hidden" ref={scrollRef}>
+            <div className="relative h-full" style={{ width }}>
+              {units.map(unit => (
                 <div
-                  key={day.toISOString()}
+                  key={unit.key}
                   className={cn(
-                    'flex-shrink-0 flex flex-col items-center justify-center border-r border-border',
-                    isToday(day) && 'bg-primary/10'
+                    'absolute top-0 h-full flex flex-col items-center justify-center border-r border-border overflow-hidden',
+                    unit.isCurrent && 'bg-primary/10'
                   )}
-                  style={{ width: DAY_WIDTH }}
+                  style={{ left: unit.left, width: unit.width }}
                 >
-                  <span className="text-[10px] text-muted-foreground uppercase">
-                    {format(day, 'EEE')}
+                  <span className="text-[10px] text-muted-foreground uppercase whitespace-nowrap">
+                    {unit.caption}
                   </span>
                   <span className={cn(
-                    'text-sm font-medium',
-                    isToday(day) ? 'text-primary' : 'text-foreground'
+                    'text-sm font-medium whitespace-nowrap',
+                    unit.isCurrent ? 'text-primary' : 'text-foreground'
                   )}>
-                    {format(day, 'd')}
+                    {unit.label}
                   </span>
                 </div>
               ))}
@@ -232,36 +439,31 @@ export function TimelineView({ projectId }: TimelineViewProps) {
           </div>
 
           {/* Task bars area */}
-          <div 
-            className="overflow-auto" 
+          <div
+            ref={bodyRef}
+            className="overflow-auto"
             style={{ height: 'calc(100% - 48px)' }}
-            onScroll={(e) => {
-              // Sync scroll with header
-              if (scrollRef.current) {
-                scrollRef.current.scrollLeft = e.currentTarget.scrollLeft;
-              }
-            }}
+            onScroll={handleScroll}
           >
-            <div 
+            <div
+              ref={barsRef}
               className="relative"
-              style={{ 
-                minWidth: days.length * DAY_WIDTH,
-                minHeight: taskBars.length * 48 || 200
+              style={{
+                width,
+                minHeight: taskBars.length * ROW_HEIGHT || 200
               }}
             >
               {/* Grid lines */}
-              <div className="absolute inset-0 flex">
-                {days.map(day => (
-                  <div
-                    key={day.toISOString()}
-                    className={cn(
-                      'flex-shrink-0 border-r border-border/50 h-full',
-                      isToday(day) && 'bg-primary/5'
-                    )}
-                    style={{ width: DAY_WIDTH }}
-                  />
-                ))}
-              </div>
+              {units.map(unit => (
+                <div
+                  key={unit.key}
+                  className={cn(
+                    'absolute top-0 bottom-0 border-r border-border/50',
+                    unit.isCurrent && scale.unit === 'day' && 'bg-primary/5'
+                  )}
+                  style={{ left: unit.left, width: unit.width }}
+                />
+              ))}
 
               {/* Row backgrounds */}
               {taskBars.map((_, index) => (
@@ -271,50 +473,76 @@ export function TimelineView({ projectId }: TimelineViewProps) {
                     'absolute left-0 right-0 h-12 border-b border-border',
                     index % 2 === 0 ? 'bg-background' : 'bg-muted/20'
                   )}
-                  style={{ top: index * 48 }}
+                  style={{ top: index * ROW_HEIGHT }}
                 />
               ))}
 
               {/* Today line */}
-              {isSameMonth(new Date(), currentDate) && (
-                <div
-                  className="absolute top-0 bottom-0 w-0.5 bg-primary z-20"
-                  style={{ left: differenceInDays(new Date(), timelineStart) * DAY_WIDTH + DAY_WIDTH / 2 }}
-                />
-              )}
+              <div
+                className="absolute top-0 bottom-0 w-0.5 bg-primary z-20"
+                style={{ left: todayX }}
+              />
 
               {/* Task bars */}
-              {taskBars.map(({ task, startOffset, duration }, index) => {
+              {taskBars.map((bar, index) => {
+                const { task } = bar;
+                const { startOffset, duration } = barExtent(bar);
+                const left = startOffset * scale.dayWidth;
+                const barWidth = Math.max(MIN_BAR_WIDTH, duration * scale.dayWidth);
+                const isDragging = drag?.taskId === task.id;
+                if (!isDragging && (left + barWidth < visibleLeft || left > visibleRight)) return null;
                 const colors = getTaskColor(task);
-                const left = Math.max(0, startOffset * DAY_WIDTH);
-                const width = Math.max(DAY_WIDTH, duration * DAY_WIDTH);
-                const adjustedWidth = startOffset < 0 
-                  ? width + startOffset * DAY_WIDTH 
-                  : width;
+                const scheduled = schedule.tasks.get(task.id);
 
                 return (
                   <Tooltip key={task.id}>
                     <TooltipTrigger asChild>
                       <div
+                        data-task-id={task.id}
                         className={cn(
-                          'absolute h-8 rounded-md cursor-pointer transition-all hover:scale-y-110 hover:z-10 flex items-center px-2 gap-1 shadow-sm border',
+                          'group absolute h-8 rounded-md cursor-grab flex items-center px-2 gap-1 shadow-sm border touch-none select-none',
+                          isDragging ? 'z-30 cursor-grabbing' : 'transition-all hover:scale-y-110 hover:z-10',
                           colors.bg,
                           colors.border,
-                          getStatusStyle(task.status)
+                          getStatusStyle(task),
+                          scheduled?.isCritical && 'ring-2 ring-destructive ring-offset-1 ring-offset-background'
                         )}
                         style={{
                           left,
-                          width: adjustedWidth,
-                          top: index * 48 + 8,
+                          width: barWidth,
+                          top: index * ROW_HEIGHT + 8,
+                        }}
+                        onPointerDown={(e) => startDrag(e, task, 'move')}
+                        onPointerMove={handleDragMove}
+                        onPointerUp={handleDragEnd}
+                        onPointerCancel={() => setDrag(null)}
+                        onClick={() => {
+                          if (dragged.current) {
+                            dragged.current = false;
+                            return;
+                          }
+                          setCurrentTaskId(task.id);
                         }}
-                        onClick={() => setCurrentTaskId(task.id)}
                       >
-                        <span className="text-xs font-medium text-primary-foreground truncate">
-                          {task.title}
-                        </span>
-                        {task.dependencies?.length || task.blockedBy?.length ? (
+                        {barWidth >= 40 && (
+                          <span className="text-xs font-medium text-primary-foreground truncate">
+                            {task.title}
+                          </span>
+                        )}
+                        {barWidth >= 40 && (task.dependencies?.length || task.blockedBy?.length) ? (
                           <ArrowRight className="h-3 w-3 text-primary-foreground/70 flex-shrink-0" />
                         ) : null}
+                        <span
+                          className="absolute inset-y-0 right-0 w-2 rounded-r-md cursor-ew-resize hover:bg-primary-foreground/30"
+                          onPointerDown={(e) => startDrag(e, task, 'resize')}
+                          aria-hidden
+                        />
+                        <span
+                          className="absolute -right-4 top-1/2 -translate-y-1/2 w-3 h-3 rounded-full border-2 border-primary bg-background cursor-crosshair opacity-0 group-hover:opacity-100"
+                          onPointerDown={(e) => startDrag(e, task, 'link')}
+                          title="Drag onto a task that waits on this one"
+                          aria-hidden
+                        />
                       </div>
                     </TooltipTrigger>
                     <TooltipContent side="top" className="max-w-xs">
@@ -325,18 +553,27 @@ export function TimelineView({ projectId }: TimelineViewProps) {
                             {TYPE_LABELS[task.type]}
                           </Badge>
                           <Badge variant="outline" className="text-xs">
-                            {STATUS_LABELS[task.status]}
+                            {findStatus(workflow, task.status).label}
                           </Badge>
                           <Badge variant="outline" className="text-xs">
                             {PRIORITY_LABELS[task.priority]}
                           </Badge>
                         </div>
                         <div className="text-xs text-muted-foreground">
-                          <p>Start: {format(parseISO(task.createdAt), 'MMM d, yyyy')}</p>
+                          <p>Start: {format(bar.start, 'MMM d, yyyy')}</p>
                           {task.dueDate && (
                             <p>Due: {format(parseISO(task.dueDate), 'MMM d, yyyy')}</p>
                           )}
                         </div>
+                        {scheduled && (
+                          <p className={cn('text-xs', scheduled.isCritical ? 'text-destructive' : 'text-muted-foreground')}>
+                            {scheduled.isCritical
+                              ? 'On the critical path'
+                              : `${scheduled.float} ${scheduled.float === 1 ? 'day' : 'days'} of float`}
+                            {scheduled.slip > 0 &&
+                              ` · Forecast to finish ${format(scheduled.finish, 'MMM d')}, ${scheduled.slip} ${scheduled.slip === 1 ? 'day' : 'days'} late`}
+                          </p>
+                        )}
                         {task.assigneeIds.length > 0 && (
                           <p className="text-xs text-muted-foreground">
                             Assigned to:{' '}
@@ -349,7 +586,7 @@ export function TimelineView({ projectId }: TimelineViewProps) {
                         {(task.dependencies?.length || task.blockedBy?.length) ? (
                           <p className="text-xs text-muted-foreground">
                             {task.dependencies?.length ? `${task.dependencies.length} dependencies` : ''}
-                            {task.blockedBy?.length ? `Blocked by ${task.blockedBy.length} tasks` : ''}
+                            {task.blockedBy?.length ? ` · Blocked by ${task.blockedBy.length} open` : ''}
                           </p>
                         ) : null}
                       </div>
@@ -359,9 +596,9 @@ export function TimelineView({ projectId }: TimelineViewProps) {
               })}
 
               {/* Dependency lines */}
-              <svg className="absolute inset-0 pointer-events-none z-10" style={{ 
-                width: days.length * DAY_WIDTH,
-                height: taskBars.length * 48 || 200
+              <svg className="absolute inset-0 pointer-events-none z-10" style={{
+                width,
+                height: taskBars.length * ROW_HEIGHT || 200
               }}>
                 {taskBars.map(({ task }, toIndex) => {
                   const deps = getDependencies(task);
@@ -369,31 +606,53 @@ export function TimelineView({ projectId }: TimelineViewProps) {
                     const fromIndex = taskBars.findIndex(b => b.task.id === from.id);
                     if (fromIndex === -1) return null;
 
-                    const fromBar = taskBars[fromIndex];
-                    const toBar = taskBars[toIndex];
+                    const fromBar = barExtent(taskBars[fromIndex]);
+                    const toBar = barExtent(taskBars[toIndex]);
 
-                    const fromX = Math.max(0, fromBar.startOffset + fromBar.duration) * DAY_WIDTH;
-                    const fromY = fromIndex * 48 + 24;
-                    const toX = Math.max(0, toBar.startOffset) * DAY_WIDTH;
-                    const toY = toIndex * 48 + 24;
+                    const fromX = Math.max(
+                      fromBar.startOffset * scale.dayWidth + MIN_BAR_WIDTH,
+                      (fromBar.startOffset + fromBar.duration) * scale.dayWidth
+                    );
+                    const fromY = fromIndex * ROW_HEIGHT + 24;
+                    const toX = toBar.startOffset * scale.dayWidth;
+                    const toY = toIndex * ROW_HEIGHT + 24;
+                    // Lines entirely out of view are left out
+                    if (Math.max(fromX, toX) < visibleLeft || Math.min(fromX, toX) > visibleRight) return null;
 
                     const midX = (fromX + toX) / 2;
+                    const isCritical = isCriticalLink(schedule, from.id, task.id);
+                    const color = isCritical ? 'hsl(var(--destructive))' : 'hsl(var(--muted-foreground))';
 
                     return (
                       <g key={`${from.id}-${task.id}`}>
                         <path
                           d={`M ${fromX} ${fromY} C ${midX} ${fromY}, ${midX} ${toY}, ${toX} ${toY}`}
                           fill="none"
-                          stroke="hsl(var(--muted-foreground))"
-                          strokeWidth="1.5"
-                          strokeDasharray="4 2"
-                          opacity="0.5"
+                          stroke={color}
+                          strokeWidth={isCritical ? 2 : 1.5}
+                          strokeDasharray={isCritical ? undefined : '4 2'}
+                          opacity={isCritical ? 0.9 : 0.5}
                         />
-                        <circle cx={toX} cy={toY} r="3" fill="hsl(var(--muted-foreground))" opacity="0.5" />
+                        <circle cx={toX} cy={toY} r="3" fill={color} opacity={isCritical ? 0.9 : 0.5} />
                       </g>
                     );
                   });
                 })}
+                {drag?.mode === 'link' && (() => {
+                  const fromIndex = taskBars.findIndex(b => b.task.id === drag.taskId);
+                  if (fromIndex === -1) return null;
+                  const fromBar = barExtent(taskBars[fromIndex]);
+                  const fromX = (fromBar.startOffset + fromBar.duration) * scale.dayWidth;
+                  const fromY = fromIndex * ROW_HEIGHT + 24;
+                  return (
+                    <path
+                      d={`M ${fromX} ${fromY} L ${drag.x} ${drag.y}`}
+                      stroke="hsl(var(--primary))"
+                      strokeWidth="2"
+                      strokeDasharray="4 2"
+                    />
+                  );
+                })()}
               </svg>
             </div>
           </div>
@@ -402,11 +661,16 @@ export function TimelineView({ projectId }: TimelineViewProps) {
 
       {/* Footer */}
       <div className="flex items-center gap-4 mt-4 flex-shrink-0 text-xs text-muted-foreground">
-        <span>Bar length = task duration (creation → due date)</span>
+        <span>Bar length = planned start → finish</span>
+        <span>Drag a bar to move it, its right edge to resize, its handle onto another bar to link</span>
         <span className="flex items-center gap-1">
           <span className="w-4 border-t-2 border-dashed border-muted-foreground" />
           Dependency link
         </span>
+        <span className="flex items-center gap-1">
+          <span className="w-4 h-3 rounded ring-2 ring-destructive" />
+          Critical path
+        </span>
         <span className="flex items-center gap-1">
           <span className="w-0.5 h-4 bg-primary" />
           Today
@@ -1,20 +1,93 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Project, Task, TeamMember, Comment, Notification, UserPreferences, Status } from '@/types';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
+import { toast } from 'sonner';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
+import { Project, Task, TeamMember, Comment, Notification, UserPreferences, Status, WorkflowStatus } from '@/types';
 import { generateId } from '@/data/mockData';
+import { useAuth } from '@/contexts/AuthContext';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { getSafeErrorMessage, logError } from '@/lib/errorHandler';
+import {
+  fetchWorkspace,
+  updateProjectRow,
+  deleteProjectRow,
+  insertWipBreaches,
+  insertNotificationRow,
+  notifyTaskUnblocked,
+  markNotificationsReadRows,
+  uploadLocalWorkspace,
+  insertWorkspaceRecords,
+  deleteNotificationRows,
+  purgeTrashedRecords,
+  restoreAttachmentRows,
+  projectFromRow,
+  taskFromRow,
+  commentFromRow,
+} from '@/lib/workspaceApi';
+import { mergeRemoteRecord, removeRemoteRecord } from '@/lib/realtimeMerge';
+import {
+  QueuedMutation,
+  MutationInput,
+  MutationConflict,
+  loadQueue,
+  saveQueue,
+  enqueueMutation,
+  applyMutation,
+  replayQueue,
+  isNetworkError,
+  withQueueLock,
+  waitsOnQueuedCreation,
+  QUEUE_KEY,
+} from '@/lib/offlineQueue';
+import {
+  TOMBSTONES_KEY,
+  loadTombstones,
+  addTombstones,
+  clearTombstones,
+  mergeEntities,
+  readCachedEntities,
+  writeMergedCache,
+} from '@/lib/tabSync';
+import { useOnlineStatus } from '@/hooks/useOnlineStatus';
+import { useUserRole } from '@/hooks/useUserRole';
+import { readPersisted, writePersisted } from '@/lib/persistence';
+import { RestorePlan, SkippedRecord } from '@/lib/workspaceArchive';
+import type { ProjectImportPlan } from '@/lib/importers';
+import {
+  HistoryEntry,
+  HistoryInput,
+  HISTORY_LIMIT,
+  describeHistoryEntry,
+  previousValues,
+  hasValues,
+} from '@/lib/history';
+import { rankBetween, rankUpdates, sortByRank } from '@/lib/rank';
+import { DEFAULT_TRASH_RETENTION_DAYS, TrashSelection, expiredTrash, splitTrash } from '@/lib/trash';
+import { nextInstance } from '@/lib/recurrence';
+import { findStatus, initialStatus, isDoneStatus, projectWorkflow, replacementStatus } from '@/lib/workflow';
+import { TransitionContext, TransitionResult, checkTransition } from '@/lib/transitions';
+import { changeViolations, describeWipViolation, wipBreaches } from '@/lib/wipLimits';
+import { getDependants, openBlockers, sameIds } from '@/lib/dependencies';
 
 interface ProjectContextType {
-  // Data
+  // Data; projects and tasks in the trash are left out
   projects: Project[];
   tasks: Task[];
   teamMembers: TeamMember[];
   comments: Comment[];
   notifications: Notification[];
   preferences: UserPreferences;
+  // Team member record of the signed-in user
+  currentMemberId: string | null;
   
   // Current selections
   currentProjectId: string | null;
   currentTaskId: string | null;
   searchQuery: string;
+  isLoading: boolean;
+  // Task id -> time a teammate's change to it arrived over Realtime
+  remoteTaskChanges: Record<string, string>;
   
   // Setters
   setCurrentProjectId: (id: string | null) => void;
@@ -24,18 +97,62 @@ interface ProjectContextType {
   // Project actions
   addProject: (project: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>) => Project;
   updateProject: (id: string, updates: Partial<Project>) => void;
+  // Saves the project's statuses and moves tasks out of removed ones; returns how many moved
+  updateWorkflow: (projectId: string, workflow: WorkflowStatus[]) => number;
+  // Moves the project and its tasks to the trash
   deleteProject: (id: string) => void;
+  restoreProject: (id: string) => void;
   
   // Task actions
-  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>) => Task;
-  updateTask: (id: string, updates: Partial<Task>) => void;
-  updateTaskStatus: (id: string, status: Status) => void;
+  // Refused, with the reason, when the transition rules don't allow moving a task from
+  // where new tasks start to the status it is created in, or it would go over a hard WIP limit
+  addTask: (task: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>, overrideWip?: boolean) => TransitionResult & { task?: Task };
+  // Changes of status and assignees are checked like updateTaskStatus
+  updateTask: (id: string, updates: Partial<Task>, overrideWip?: boolean) => TransitionResult;
+  // Refused, with the reason, when the project's transition rules don't allow the move
+  // or it would go over a hard WIP limit. Managers pass overrideWip to go over anyway.
+  updateTaskStatus: (id: string, status: Status, overrideWip?: boolean) => TransitionResult;
+  checkTaskMove: (id: string, status: Status, overrideWip?: boolean) => TransitionResult;
   deleteTask: (id: string) => void;
-  reorderTasks: (projectId: string, status: Status, taskIds: string[]) => void;
+  restoreTask: (id: string) => void;
+  // Moves the dropped task into the column, with any other changes it brings along,
+  // e.g. from moving it to another swimlane; the rest of the column is only reordered
+  reorderTasks: (
+    projectId: string,
+    status: Status,
+    taskIds: string[],
+    overrideWip?: boolean,
+    dropped?: { id: string; changes: Partial<Task> }
+  ) => TransitionResult;
   
   // Comment actions
   addComment: (taskId: string, content: string, authorId: string) => Comment;
   
+  // Undo/redo of task, project and comment mutations made in this session.
+  // Pass an entry id (as the toast actions do) to target a specific change.
+  undo: (entryId?: string) => void;
+  redo: (entryId?: string) => void;
+  canUndo: boolean;
+  canRedo: boolean;
+  
+  clearRemoteTaskChange: (taskId: string) => void;
+  
+  // Trash
+  trashedProjects: Project[];
+  trashedTasks: Task[];
+  // Deletes for good; resolves with how many items were purged and how many the server refused
+  purgeTrash: (selection: TrashSelection) => Promise<{ purged: number; skipped: number }>;
+  
+  // Offline sync
+  isOnline: boolean;
+  queuedMutationCount: number;
+  conflicts: MutationConflict[];
+  resolveConflict: (conflictId: string, keep: 'mine' | 'theirs') => void;
+  
+  // Backup & import
+  restoreWorkspace: (plan: RestorePlan) => Promise<SkippedRecord[]>;
+  importProject: (plan: ProjectImportPlan) => Project;
+  
   // Notification actions
   markNotificationRead: (id: string) => void;
   markAllNotificationsRead: () => void;
@@ -48,6 +165,8 @@ interface ProjectContextType {
   getCurrentTask: () => Task | undefined;
   getProjectTasks: (projectId: string) => Task[];
   getTasksByStatus: (projectId: string, status: Status) => Task[];
+  getProjectWorkflow: (projectId: string) => WorkflowStatus[];
+  getTaskStatus: (task: Task) => WorkflowStatus;
   getTaskComments: (taskId: string) => Comment[];
   getTeamMember: (id: string) => TeamMember | undefined;
   getUnreadNotificationCount: () => number;
@@ -56,18 +175,25 @@ interface ProjectContextType {
 
 const ProjectContext = createContext<ProjectContextType | undefined>(undefined);
 
+// localStorage now acts as an offline cache of the last synced workspace
 const STORAGE_KEYS = {
   projects: 'waks-projects',
   tasks: 'waks-tasks',
   comments: 'waks-comments',
   notifications: 'waks-notifications',
   preferences: 'waks-preferences',
+  migrated: 'waks-supabase-migrated',
 };
 
+// Entity lists shared between tabs through the cache
+type SyncedEntity = 'projects' | 'tasks' | 'comments' | 'notifications';
+const SYNCED_ENTITIES: SyncedEntity[] = ['projects', 'tasks', 'comments', 'notifications'];
+
 const defaultPreferences: UserPreferences = {
   defaultView: 'kanban',
   sidebarCollapsed: false,
   theme: 'light',
+  trashRetentionDays: DEFAULT_TRASH_RETENTION_DAYS,
 };
 
 export function ProjectProvider({ children }: { children: ReactNode }) {
@@ -81,55 +207,447 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
   const [currentTaskId, setCurrentTaskId] = useState<string | null>(null);
   const [searchQuery, setSearchQuery] = useState('');
   const [isInitialized, setIsInitialized] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [remoteTaskChanges, setRemoteTaskChanges] = useState<Record<string, string>>({});
+  // Writes not yet acknowledged by Supabase, keyed by "table:id"
+  const pendingWrites = useRef(new Map<string, { count: number; changes: Record<string, unknown> }>());
+  const projectsRef = useRef(projects);
+  const tasksRef = useRef(tasks);
+  const commentsRef = useRef(comments);
+  projectsRef.current = projects;
+  tasksRef.current = tasks;
+  commentsRef.current = comments;
+  const history = useRef<{ undo: HistoryEntry[]; redo: HistoryEntry[] }>({ undo: [], redo: [] });
+  const [, setHistoryVersion] = useState(0);
+  const { user } = useAuth();
+  const { isAdmin } = useUserRole();
+  const userId = user?.id ?? null;
+  const isOnline = useOnlineStatus();
+  const currentMemberId = user
+    ? (teamMembers.find(m => m.userId === user.id) ??
+       teamMembers.find(m => m.email.toLowerCase() === user.email?.toLowerCase()))?.id ?? null
+    : null;
+  const currentRole = teamMembers.find(m => m.id === currentMemberId)?.role;
+  // Same check as useCanManage, which needs this context
+  const canManage = isAdmin || currentRole === 'manager';
+  const [queuedMutations, setQueuedMutations] = useState<QueuedMutation[]>(() => loadQueue());
+  const [conflicts, setConflicts] = useState<MutationConflict[]>([]);
+  const isReplaying = useRef(false);
+  const hasPurgedExpiredTrash = useRef(false);
+  // Ids this tab last wrote to the cache, used to detect deletions
+  const cachedIds = useRef<Record<SyncedEntity, Set<string>>>({
+    projects: new Set(),
+    tasks: new Set(),
+    comments: new Set(),
+    notifications: new Set(),
+  });
 
-  // Load data from localStorage on mount - start fresh with empty data
+  // Load cached data from localStorage on mount so the UI renders before the first sync
   useEffect(() => {
-    const loadedProjects = localStorage.getItem(STORAGE_KEYS.projects);
-    const loadedTasks = localStorage.getItem(STORAGE_KEYS.tasks);
-    const loadedComments = localStorage.getItem(STORAGE_KEYS.comments);
-    const loadedNotifications = localStorage.getItem(STORAGE_KEYS.notifications);
-    const loadedPreferences = localStorage.getItem(STORAGE_KEYS.preferences);
-
-    // Use empty arrays as defaults instead of mock data
-    setProjects(loadedProjects ? JSON.parse(loadedProjects) : []);
-    setTasks(loadedTasks ? JSON.parse(loadedTasks) : []);
-    setComments(loadedComments ? JSON.parse(loadedComments) : []);
-    setNotifications(loadedNotifications ? JSON.parse(loadedNotifications) : []);
-    setPreferences(loadedPreferences ? JSON.parse(loadedPreferences) : defaultPreferences);
+    // Payloads that cannot be read are quarantined by readPersisted rather than crashing here
+    const quarantined: string[] = [];
+    const onQuarantine = (key: string) => quarantined.push(key);
+
+    setProjects(readPersisted<Project[]>(STORAGE_KEYS.projects, [], onQuarantine));
+    setTasks(readPersisted<Task[]>(STORAGE_KEYS.tasks, [], onQuarantine));
+    setComments(readPersisted<Comment[]>(STORAGE_KEYS.comments, [], onQuarantine));
+    setNotifications(readPersisted<Notification[]>(STORAGE_KEYS.notifications, [], onQuarantine));
+    setPreferences({
+      ...defaultPreferences,
+      ...readPersisted<Partial<UserPreferences>>(STORAGE_KEYS.preferences, {}, onQuarantine),
+    });
+
+    if (quarantined.length > 0) {
+      toast.warning('Some saved data could not be read', {
+        description: 'It was set aside and will be reloaded from the server.',
+      });
+    }
     setIsInitialized(true);
   }, []);
 
-  // Save to localStorage when data changes
+  // Replays mutations recorded while offline; conflicts wait for the user in the resolution dialog
+  const flushQueue = async (uid: string) => {
+    if (isReplaying.current) return;
+    isReplaying.current = true;
+    // Mutations queued while a replay ran, e.g. behind a task created offline,
+    // are replayed in another round
+    let queuedMeanwhile = true;
+
+    try {
+      while (queuedMeanwhile) {
+        queuedMeanwhile = false;
+        // Only one tab replays at a time; the others find the queue already drained
+        await withQueueLock(async () => {
+          const queue = loadQueue();
+          if (queue.length === 0) return;
+
+          const result = await replayQueue(queue, uid);
+          // Keep anything queued while the replay was running
+          const processed = new Set(queue.slice(0, queue.length - result.remaining.length).map(m => m.id));
+          const nextQueue = loadQueue().filter(m => !processed.has(m.id));
+          saveQueue(nextQueue);
+          setQueuedMutations(nextQueue);
+          queuedMeanwhile = result.remaining.length === 0 && nextQueue.length > 0 && navigator.onLine;
+
+          if (result.applied.length > 0) {
+            setTasks(prev => prev.map(t => {
+              const applied = result.applied.filter(a => a.taskId === t.id);
+              return applied.reduce((task, a) => ({ ...task, ...a.changes }), t);
+            }));
+          }
+          if (result.conflicts.length > 0) {
+            setConflicts(prev => [...prev, ...result.conflicts]);
+          }
+          if (result.failed.length > 0) {
+            result.failed.forEach(({ error }) => logError('replayQueue', error));
+            toast.error(`${result.failed.length} offline change(s) could not be saved`);
+          } else if (processed.size > 0 && result.conflicts.length === 0) {
+            toast.success('Offline changes synced');
+          }
+        });
+      }
+    } catch (error) {
+      logError('flushQueue', error);
+    } finally {
+      isReplaying.current = false;
+    }
+  };
+
+  // Sync with Supabase whenever a user signs in
   useEffect(() => {
-    if (isInitialized) {
-      localStorage.setItem(STORAGE_KEYS.projects, JSON.stringify(projects));
+    if (!isInitialized) return;
+    if (!userId) {
+      setIsLoading(false);
+      return;
     }
-  }, [projects, isInitialized]);
 
+    let cancelled = false;
+
+    const syncWorkspace = async () => {
+      setIsLoading(true);
+      try {
+        // First login of this user after the Supabase switch: push data that only
+        // lived in this browser
+        const migratedKey = `${STORAGE_KEYS.migrated}:${userId}`;
+        if (!localStorage.getItem(migratedKey)) {
+          const parse = <T,>(key: string): T[] => readPersisted<T[]>(key, []);
+          await uploadLocalWorkspace({
+            projects: parse<Project>(STORAGE_KEYS.projects),
+            tasks: parse<Task>(STORAGE_KEYS.tasks),
+            comments: parse<Comment>(STORAGE_KEYS.comments),
+            notifications: parse<Notification>(STORAGE_KEYS.notifications),
+          }, userId);
+          localStorage.setItem(migratedKey, new Date().toISOString());
+        }
+
+        // Replay offline edits first so the fetch below already includes them
+        await flushQueue(userId);
+
+        const snapshot = await fetchWorkspace();
+        if (cancelled) return;
+        setProjects(snapshot.projects);
+        setTasks(snapshot.tasks);
+        setComments(snapshot.comments);
+        setNotifications(snapshot.notifications);
+        setTeamMembers(snapshot.teamMembers);
+
+        // Purge whatever has outlived the retention period, once per session
+        if (!hasPurgedExpiredTrash.current) {
+          hasPurgedExpiredTrash.current = true;
+          const { trashRetentionDays = DEFAULT_TRASH_RETENTION_DAYS } =
+            readPersisted<Partial<UserPreferences>>(STORAGE_KEYS.preferences, {});
+          const expired = expiredTrash(snapshot.projects, snapshot.tasks, trashRetentionDays);
+          if (expired.projectIds.length > 0 || expired.taskIds.length > 0) {
+            purgeTrashedRecords(expired, snapshot.tasks)
+              .then(removePurgedRecords)
+              .catch(error => logError('purgeExpiredTrash', error));
+          }
+        }
+      } catch (error) {
+        logError('syncWorkspace', error);
+        if (!cancelled) {
+          toast.error('Could not load the latest workspace data', {
+            description: getSafeErrorMessage(error),
+          });
+        }
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    syncWorkspace();
+    return () => {
+      cancelled = true;
+    };
+  }, [userId, isInitialized]);
+
+  // Runs a Supabase write in the background; local state has already been updated.
+  // Pass the pending entity so Realtime merges keep the edit until it is saved.
+  // Resolves with whether the write went through.
+  const persist = (
+    context: string,
+    write: (userId: string) => Promise<void>,
+    options: {
+      pending?: { key: string; changes?: object };
+      onNetworkError?: () => void;
+    } = {}
+  ): Promise<boolean> => {
+    if (!userId) return Promise.resolve(false);
+    const { pending, onNetworkError } = options;
+
+    if (pending) {
+      const entry = pendingWrites.current.get(pending.key);
+      const { updatedAt, ...changes } = (pending.changes ?? {}) as Record<string, unknown>;
+      pendingWrites.current.set(pending.key, {
+        count: (entry?.count ?? 0) + 1,
+        changes: { ...entry?.changes, ...changes },
+      });
+    }
+
+    return write(userId)
+      .then(() => true)
+      .catch(error => {
+        if (onNetworkError && isNetworkError(error)) {
+          onNetworkError();
+          return false;
+        }
+        logError(context, error);
+        toast.error('Failed to save changes', { description: getSafeErrorMessage(error) });
+        return false;
+      })
+      .finally(() => {
+        if (!pending) return;
+        const entry = pendingWrites.current.get(pending.key);
+        if (!entry || entry.count <= 1) {
+          pendingWrites.current.delete(pending.key);
+        } else {
+          pendingWrites.current.set(pending.key, { ...entry, count: entry.count - 1 });
+        }
+      });
+  };
+
+  // Mutations that can be queued while offline and replayed later. Resolves with
+  // whether the write went through now rather than waiting in the queue.
+  const runMutation = (
+    context: string,
+    input: MutationInput,
+    updatedAt: string,
+    pending?: { key: string; changes?: object }
+  ): Promise<boolean> => {
+    if (!userId) return Promise.resolve(false);
+    const queue = () => setQueuedMutations(enqueueMutation(input));
+    if (!navigator.onLine) {
+      queue();
+      return Promise.resolve(false);
+    }
+    // The record was created offline and is not on the server yet
+    if (waitsOnQueuedCreation(loadQueue(), input)) {
+      queue();
+      flushQueue(userId);
+      return Promise.resolve(false);
+    }
+    return persist(context, uid => applyMutation(input, uid, updatedAt), { pending, onNetworkError: queue });
+  };
+
+  const resolveConflict = (conflictId: string, keep: 'mine' | 'theirs') => {
+    const conflict = conflicts.find(c => c.id === conflictId);
+    if (!conflict) return;
+    setConflicts(prev => prev.filter(c => c.id !== conflictId));
+
+    const { mutation, local, remote } = conflict;
+
+    if (mutation.kind === 'addComment') {
+      // The task is gone, so the comment can only be discarded
+      setComments(prev => prev.filter(c => c.id !== mutation.comment.id));
+      return;
+    }
+    // Replayed without conflict checks, so these never reach the dialog
+    if (mutation.kind === 'deleteComment' || mutation.kind === 'addProject' || mutation.kind === 'addTask') return;
+
+    if (keep === 'theirs' || !remote) {
+      if (remote) {
+        setTasks(prev => prev.some(t => t.id === remote.id)
+          ? prev.map(t => (t.id === remote.id ? remote : t))
+          : [...prev, remote]);
+      } else {
+        setTasks(prev => prev.filter(t => t.id !== mutation.taskId));
+        setComments(prev => prev.filter(c => c.taskId !== mutation.taskId));
+      }
+      return;
+    }
+
+    const updatedAt = new Date().toISOString();
+    if (mutation.kind === 'deleteTask') {
+      setTasks(prev => prev.filter(t => t.id !== mutation.taskId));
+      setComments(prev => prev.filter(c => c.taskId !== mutation.taskId));
+    } else if (local) {
+      const resolved = { ...local, updatedAt };
+      setTasks(prev => prev.map(t => (t.id === resolved.id ? resolved : t)));
+    }
+    // The user has seen the server copy, so the write is based on it now; if it
+    // has to be queued again it must not report the same conflict on replay
+    const { id, queuedAt, ...input } = mutation;
+    runMutation('resolveConflict', { ...input, baseUpdatedAt: remote.updatedAt }, updatedAt);
+  };
+
+  const getPendingChanges = <T,>(key: string) =>
+    pendingWrites.current.get(key)?.changes as Partial<T> | undefined;
+
+  const markRemoteTaskChange = (taskId: string) => {
+    setRemoteTaskChanges(prev => ({ ...prev, [taskId]: new Date().toISOString() }));
+  };
+
+  const clearRemoteTaskChange = useCallback((taskId: string) => {
+    setRemoteTaskChanges(prev => {
+      if (!prev[taskId]) return prev;
+      const { [taskId]: _removed, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  // Live updates from teammates through Supabase Realtime
   useEffect(() => {
-    if (isInitialized) {
-      localStorage.setItem(STORAGE_KEYS.tasks, JSON.stringify(tasks));
+    if (!userId) return;
+
+    const handleProjectChange = (payload: RealtimePostgresChangesPayload<Tables<'projects'>>) => {
+      if (payload.eventType === 'DELETE') {
+        const id = payload.old.id;
+        if (!id) return;
+        setProjects(prev => removeRemoteRecord(prev, id).records);
+        setTasks(prev => prev.filter(t => t.projectId !== id));
+        return;
+      }
+      const incoming = projectFromRow(payload.new);
+      const pending = getPendingChanges<Project>(`projects:${incoming.id}`);
+      setProjects(prev => mergeRemoteRecord(prev, incoming, pending).records);
+    };
+
+    const handleTaskChange = (payload: RealtimePostgresChangesPayload<Tables<'tasks'>>) => {
+      if (payload.eventType === 'DELETE') {
+        const id = payload.old.id;
+        if (!id) return;
+        if (removeRemoteRecord(tasksRef.current, id).changed) markRemoteTaskChange(id);
+        setTasks(prev => removeRemoteRecord(prev, id).records);
+        setComments(prev => prev.filter(c => c.taskId !== id));
+        return;
+      }
+      const incoming = taskFromRow(payload.new);
+      const pending = getPendingChanges<Task>(`tasks:${incoming.id}`);
+      if (mergeRemoteRecord(tasksRef.current, incoming, pending).changed) {
+        markRemoteTaskChange(incoming.id);
+      }
+      setTasks(prev => mergeRemoteRecord(prev, incoming, pending).records);
+    };
+
+    const handleCommentChange = (payload: RealtimePostgresChangesPayload<Tables<'comments'>>) => {
+      if (payload.eventType === 'DELETE') {
+        const id = payload.old.id;
+        if (!id) return;
+        setComments(prev => removeRemoteRecord(prev, id).records);
+        return;
+      }
+      const incoming = commentFromRow(payload.new);
+      setComments(prev => mergeRemoteRecord(prev, incoming).records);
+      if (payload.eventType === 'INSERT' && payload.new.created_by !== userId) {
+        markRemoteTaskChange(incoming.taskId);
+      }
+    };
+
+    const channel = supabase
+      .channel('workspace-changes')
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'projects' }, handleProjectChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'tasks' }, handleTaskChange)
+      .on('postgres_changes', { event: '*', schema: 'public', table: 'comments' }, handleCommentChange)
+      .subscribe();
+
+    return () => {
+      supabase.removeChannel(channel);
+    };
+  }, [userId]);
+
+  // Replay the offline queue as soon as the connection comes back
+  useEffect(() => {
+    if (isOnline && userId && isInitialized) {
+      flushQueue(userId);
     }
+  }, [isOnline, userId, isInitialized]);
+
+  // Save to localStorage when data changes. Records that disappeared since the
+  // last save were deleted in this tab and are tombstoned for the others.
+  const saveEntityCache = (entity: SyncedEntity, records: { id: string; updatedAt?: string }[]) => {
+    const ids = new Set(records.map(r => r.id));
+    const removed = [...cachedIds.current[entity]].filter(id => !ids.has(id));
+    const tombstones = removed.length > 0 ? addTombstones(removed) : loadTombstones();
+    writeMergedCache(STORAGE_KEYS[entity], records, tombstones);
+    cachedIds.current[entity] = ids;
+  };
+
+  useEffect(() => {
+    if (isInitialized) saveEntityCache('projects', projects);
+  }, [projects, isInitialized]);
+
+  useEffect(() => {
+    if (isInitialized) saveEntityCache('tasks', tasks);
   }, [tasks, isInitialized]);
 
   useEffect(() => {
-    if (isInitialized) {
-      localStorage.setItem(STORAGE_KEYS.comments, JSON.stringify(comments));
-    }
+    if (isInitialized) saveEntityCache('comments', comments);
   }, [comments, isInitialized]);
 
   useEffect(() => {
-    if (isInitialized) {
-      localStorage.setItem(STORAGE_KEYS.notifications, JSON.stringify(notifications));
-    }
+    if (isInitialized) saveEntityCache('notifications', notifications);
   }, [notifications, isInitialized]);
 
   useEffect(() => {
     if (isInitialized) {
-      localStorage.setItem(STORAGE_KEYS.preferences, JSON.stringify(preferences));
+      writePersisted(STORAGE_KEYS.preferences, preferences);
     }
   }, [preferences, isInitialized]);
 
+  // Pick up changes other tabs write to the shared cache
+  useEffect(() => {
+    const mergeInto = <T extends { id: string; updatedAt?: string }>(
+      entity: SyncedEntity,
+      setRecords: React.Dispatch<React.SetStateAction<T[]>>
+    ) => {
+      const incoming = readCachedEntities<T>(STORAGE_KEYS[entity]);
+      const tombstones = loadTombstones();
+      setRecords(prev => {
+        const { records, changed } = mergeEntities(prev, incoming, tombstones);
+        return changed ? records : prev;
+      });
+    };
+
+    const mergeFromCache = (entity: SyncedEntity) => {
+      if (entity === 'projects') mergeInto(entity, setProjects);
+      else if (entity === 'tasks') mergeInto(entity, setTasks);
+      else if (entity === 'comments') mergeInto(entity, setComments);
+      else mergeInto(entity, setNotifications);
+    };
+
+    const handleStorage = (event: StorageEvent) => {
+      if (event.storageArea !== localStorage) return;
+
+      // A cleared storage (key === null) or new tombstones can affect every list
+      if (event.key === null || event.key === TOMBSTONES_KEY) {
+        SYNCED_ENTITIES.forEach(mergeFromCache);
+        return;
+      }
+
+      const entity = SYNCED_ENTITIES.find(e => STORAGE_KEYS[e] === event.key);
+      if (entity) {
+        mergeFromCache(entity);
+      } else if (event.key === STORAGE_KEYS.preferences && event.newValue) {
+        setPreferences(prev => ({ ...prev, ...readPersisted<Partial<UserPreferences>>(STORAGE_KEYS.preferences, {}) }));
+      } else if (event.key === QUEUE_KEY) {
+        setQueuedMutations(loadQueue());
+      }
+    };
+
+    window.addEventListener('storage', handleStorage);
+    return () => window.removeEventListener('storage', handleStorage);
+  }, []);
+
   // Project actions
   const addProject = (projectData: Omit<Project, 'id' | 'createdAt' | 'updatedAt'>): Project => {
     const now = new Date().toISOString();
@@ -140,53 +658,486 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
       updatedAt: now,
     };
     setProjects(prev => [...prev, newProject]);
+    runMutation('addProject', { kind: 'addProject', project: newProject }, now);
     return newProject;
   };
 
   const updateProject = (id: string, updates: Partial<Project>) => {
+    const changes = { ...updates, updatedAt: new Date().toISOString() };
     setProjects(prev => prev.map(p => 
-      p.id === id ? { ...p, ...updates, updatedAt: new Date().toISOString() } : p
+      p.id === id ? { ...p, ...changes } : p
+    ));
+    persist('updateProject', () => updateProjectRow(id, changes), { pending: { key: `projects:${id}`, changes } });
+  };
+
+  const updateWorkflow = (projectId: string, workflow: WorkflowStatus[]) => {
+    const previous = projectWorkflow(projectsRef.current.find(p => p.id === projectId));
+    updateProject(projectId, { workflow });
+    // Not recorded in the undo history: it follows from the settings change
+    const moved = tasksRef.current.filter(t => t.projectId === projectId && !workflow.some(s => s.id === t.status));
+    moved.forEach(task => applyTaskStatus(task.id, replacementStatus(workflow, findStatus(previous, task.status))));
+    return moved.length;
+  };
+
+  const workflowOf = (projectId: string) => projectWorkflow(projectsRef.current.find(p => p.id === projectId));
+  const historyStatusLabel = (taskId: string, status: Status) =>
+    findStatus(workflowOf(tasksRef.current.find(t => t.id === taskId)?.projectId ?? ''), status).label;
+
+  // The trash* / apply* / remove* helpers below change state without touching
+  // the undo history; the public actions record history and then call them.
+  // They read through refs because undo can run from a toast rendered earlier.
+  const trashedFields = () => ({ deletedAt: new Date().toISOString(), deletedBy: currentMemberId ?? undefined });
+  const restoredFields = { deletedAt: undefined, deletedBy: undefined };
+
+  const trashProject = (id: string) => {
+    updateProject(id, trashedFields());
+    setCurrentProjectId(prev => (prev === id ? null : prev));
+  };
+
+  const untrashProject = (id: string) => updateProject(id, restoredFields);
+
+  const applyTaskUpdate = (id: string, updates: Partial<Task>) => {
+    const task = tasksRef.current.find(t => t.id === id);
+    const changes = { ...updates, updatedAt: new Date().toISOString() };
+    setTasks(prev => prev.map(t => 
+      t.id === id ? { ...t, ...changes } : t
+    ));
+    runMutation(
+      'updateTask',
+      { kind: 'updateTask', taskId: id, changes: updates, baseUpdatedAt: task?.updatedAt ?? changes.updatedAt },
+      changes.updatedAt,
+      { key: `tasks:${id}`, changes }
+    );
+    if (task && ('status' in updates || 'dependencies' in updates || 'deletedAt' in updates)) {
+      refreshBlockers({ ...task, ...changes });
+    }
+  };
+
+  const applyTaskStatus = (id: string, status: Status) => {
+    const task = tasksRef.current.find(t => t.id === id);
+    const updatedAt = new Date().toISOString();
+    setTasks(prev => prev.map(t => 
+      t.id === id ? { ...t, status, updatedAt } : t
     ));
+    runMutation(
+      'updateTaskStatus',
+      { kind: 'updateTaskStatus', taskId: id, status, baseUpdatedAt: task?.updatedAt ?? updatedAt },
+      updatedAt,
+      { key: `tasks:${id}`, changes: { status } }
+    );
+    if (task) refreshBlockers({ ...task, status, updatedAt });
+  };
+
+  const isTaskDone = (task: Task) => isDoneStatus(workflowOf(task.projectId), task.status);
+
+  // blockedBy follows from the dependencies, so it is kept in step here, without
+  // an undo entry of its own, whenever a task changes in a way that affects it.
+  // Takes the task as it is after the change.
+  const refreshBlockers = (changed: Task) => {
+    const all = tasksRef.current.map(t => (t.id === changed.id ? changed : t));
+    [changed, ...getDependants(all, changed.id)].forEach(task => {
+      const blockedBy = openBlockers(task, all, isTaskDone);
+      if (sameIds(blockedBy, task.blockedBy)) return;
+      applyTaskUpdate(task.id, { blockedBy: blockedBy.length > 0 ? blockedBy : undefined });
+      if (task.id !== changed.id && !task.deletedAt && blockedBy.length === 0) notifyUnblocked(task);
+    });
+  };
+
+  // Tells the assignees that a task no longer waits on anything
+  const notifyUnblocked = (task: Task) => {
+    const assignedUserIds = teamMembers
+      .filter(m => task.assigneeIds.includes(m.id) && m.userId)
+      .map(m => m.userId!);
+    const own: Notification | undefined = assignedUserIds.includes(userId) ? {
+      id: generateId('notif'),
+      type: 'task-updated',
+      title: 'Task unblocked',
+      message: `"${task.title}" is no longer waiting on other tasks.`,
+      read: false,
+      createdAt: new Date().toISOString(),
+      taskId: task.id,
+      projectId: task.projectId,
+      userId,
+    } : undefined;
+    const hasOthers = assignedUserIds.some(id => id !== userId);
+    if (own) setNotifications(prev => [own, ...prev]);
+    if ((own || hasOthers) && navigator.onLine) {
+      persist('notifyUnblocked', async uid => {
+        if (own) await insertNotificationRow(own, uid);
+        if (hasOthers) await notifyTaskUnblocked(task.id);
+      });
+    }
+  };
+
+  const trashTask = (id: string) => {
+    applyTaskUpdate(id, trashedFields());
+    setCurrentTaskId(prev => (prev === id ? null : prev));
+  };
+
+  const untrashTask = (id: string) => applyTaskUpdate(id, restoredFields);
+
+  const insertCommentRecord = (comment: Comment) => {
+    clearTombstones([comment.id]);
+    setComments(prev => [...prev, comment]);
+    runMutation('addComment', { kind: 'addComment', comment }, comment.createdAt);
+  };
+
+  const removeComment = (id: string) => {
+    setComments(prev => prev.filter(c => c.id !== id));
+    runMutation('deleteComment', { kind: 'deleteComment', commentId: id }, new Date().toISOString());
+  };
+
+  // Undo/redo history
+  const recordHistory = (input: HistoryInput): HistoryEntry => {
+    const entry = { ...input, id: generateId('hist'), createdAt: new Date().toISOString() } as HistoryEntry;
+    history.current = { undo: [...history.current.undo, entry].slice(-HISTORY_LIMIT), redo: [] };
+    setHistoryVersion(v => v + 1);
+    return entry;
+  };
+
+  // Applies one side of an entry, or returns why it no longer can be
+  const applyHistoryEntry = (entry: HistoryEntry, direction: 'undo' | 'redo'): string | null => {
+    const undoing = direction === 'undo';
+    const findTask = (id: string) => tasksRef.current.find(t => t.id === id);
+    const findProject = (id: string) => projectsRef.current.find(p => p.id === id);
+    const inTrash = (task: Task) => !!task.deletedAt || !!findProject(task.projectId)?.deletedAt;
+
+    switch (entry.kind) {
+      case 'updateTask': {
+        const task = findTask(entry.taskId);
+        if (!task || inTrash(task)) return 'The task has been deleted.';
+        if (!hasValues(task, undoing ? entry.after : entry.before)) return 'The task has been changed since.';
+        applyTaskUpdate(entry.taskId, undoing ? entry.before : entry.after);
+        return null;
+      }
+      case 'updateTaskStatus': {
+        const task = findTask(entry.taskId);
+        if (!task || inTrash(task)) return 'The task has been deleted.';
+        if (task.status !== (undoing ? entry.after : entry.before)) return 'The task has been moved since.';
+        applyTaskStatus(entry.taskId, undoing ? entry.before : entry.after);
+        return null;
+      }
+      case 'deleteTask': {
+        const task = findTask(entry.taskId);
+        if (!task) return 'The task has been deleted permanently.';
+        if (undoing) {
+          if (!task.deletedAt) return 'The task is no longer in the trash.';
+          if (findProject(task.projectId)?.deletedAt) return 'Its project is in the trash.';
+          untrashTask(task.id);
+        } else {
+          if (task.deletedAt) return 'The task is already in the trash.';
+          trashTask(task.id);
+        }
+        return null;
+      }
+      case 'deleteProject': {
+        const project = findProject(entry.projectId);
+        if (!project) return 'The project has been deleted permanently.';
+        if (undoing) {
+          if (!project.deletedAt) return 'The project is no longer in the trash.';
+          untrashProject(project.id);
+        } else {
+          if (project.deletedAt) return 'The project is already in the trash.';
+          trashProject(project.id);
+        }
+        return null;
+      }
+      case 'addComment': {
+        const exists = commentsRef.current.some(c => c.id === entry.comment.id);
+        if (undoing) {
+          if (!exists) return 'The comment no longer exists.';
+          removeComment(entry.comment.id);
+        } else {
+          if (exists) return 'The comment already exists.';
+          const task = findTask(entry.comment.taskId);
+          if (!task || inTrash(task)) return 'The task has been deleted.';
+          insertCommentRecord(entry.comment);
+        }
+        return null;
+      }
+    }
+  };
+
+  const undo = (entryId?: string) => {
+    const { undo: undoStack, redo: redoStack } = history.current;
+    const entry = entryId ? undoStack.find(e => e.id === entryId) : undoStack[undoStack.length - 1];
+    if (!entry) return;
+
+    const label = describeHistoryEntry(entry, historyStatusLabel);
+    const problem = applyHistoryEntry(entry, 'undo');
+    // An entry that cannot be undone is dropped rather than retried forever
+    history.current = {
+      undo: undoStack.filter(e => e.id !== entry.id),
+      redo: problem ? redoStack : [...redoStack, entry],
+    };
+    setHistoryVersion(v => v + 1);
+
+    if (problem) {
+      toast.error(`Could not undo: ${label}`, { description: problem });
+    } else {
+      toast(`Undone: ${label}`, { action: { label: 'Redo', onClick: () => redo(entry.id) } });
+    }
+  };
+
+  const redo = (entryId?: string) => {
+    const { undo: undoStack, redo: redoStack } = history.current;
+    const entry = entryId ? redoStack.find(e => e.id === entryId) : redoStack[redoStack.length - 1];
+    if (!entry) return;
+
+    const label = describeHistoryEntry(entry, historyStatusLabel);
+    const problem = applyHistoryEntry(entry, 'redo');
+    history.current = {
+      undo: problem ? undoStack : [...undoStack, entry],
+      redo: redoStack.filter(e => e.id !== entry.id),
+    };
+    setHistoryVersion(v => v + 1);
+
+    if (problem) {
+      toast.error(`Could not redo: ${label}`, { description: problem });
+    } else {
+      toast(`Redone: ${label}`, { action: { label: 'Undo', onClick: () => undo(entry.id) } });
+    }
   };
 
   const deleteProject = (id: string) => {
-    setProjects(prev => prev.filter(p => p.id !== id));
-    setTasks(prev => prev.filter(t => t.projectId !== id));
-    if (currentProjectId === id) setCurrentProjectId(null);
+    const project = projectsRef.current.find(p => p.id === id);
+    if (!project || project.deletedAt) return;
+    const entry = recordHistory({ kind: 'deleteProject', projectId: id, title: project.title });
+    trashProject(id);
+    toast(`Moved project "${project.title}" to the trash`, { action: { label: 'Undo', onClick: () => undo(entry.id) } });
+  };
+
+  const restoreProject = (id: string) => {
+    if (!projectsRef.current.find(p => p.id === id)?.deletedAt) return;
+    untrashProject(id);
   };
 
   // Task actions
-  const addTask = (taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>): Task => {
+  const addTask = (
+    taskData: Omit<Task, 'id' | 'createdAt' | 'updatedAt'>,
+    overrideWip = false
+  ): TransitionResult & { task?: Task } => {
     const now = new Date().toISOString();
+    // New cards go to the bottom of their column
+    const columnRanks = tasksRef.current
+      .filter(t => t.projectId === taskData.projectId && t.status === taskData.status && t.rank)
+      .map(t => t.rank!);
+    const lastRank = columnRanks.length > 0 ? columnRanks.reduce((a, b) => (a > b ? a : b)) : undefined;
     const newTask: Task = {
       ...taskData,
+      rank: taskData.rank ?? rankBetween(lastRank),
       id: generateId('task'),
       createdAt: now,
       updatedAt: now,
     };
+    const check = checkTaskChange(undefined, newTask, overrideWip);
+    if (!check.ok) return check;
+
+    const blockedBy = openBlockers(newTask, tasksRef.current, isTaskDone);
+    newTask.blockedBy = blockedBy.length > 0 ? blockedBy : undefined;
+    // Bulk imports call this in a loop before re-rendering; keep the ref current so ranks don't repeat
+    tasksRef.current = [...tasksRef.current, newTask];
     setTasks(prev => [...prev, newTask]);
-    return newTask;
+    const saved = runMutation('addTask', { kind: 'addTask', task: newTask }, now);
+    recordWipBreaches(undefined, newTask, overrideWip, saved);
+    return { ...check, task: newTask };
   };
 
-  const updateTask = (id: string, updates: Partial<Task>) => {
-    setTasks(prev => prev.map(t => 
-      t.id === id ? { ...t, ...updates, updatedAt: new Date().toISOString() } : t
-    ));
+  // Completing the open instance of a recurring task creates the next one. The
+  // rule moves to the new instance, so reopening and finishing the old one again
+  // does not create a second copy. If a hard WIP limit holds the next one back,
+  // the rule stays so finishing the task again can retry. Takes the task as it
+  // was before completion.
+  const continueSeries = (task: Task, overrideWip = false) => {
+    const workflow = workflowOf(task.projectId);
+    if (!task.recurrence || isDoneStatus(workflow, task.status)) return;
+    const next = nextInstance(task.recurrence, task.dueDate);
+    if (!next) {
+      applyTaskUpdate(task.id, { recurrence: undefined });
+      return;
+    }
+
+    // addTask works out blockedBy afresh. The start date keeps its distance to
+    // the due date, or is dropped when there was no due date to measure from.
+    const { id, createdAt, updatedAt, rank, deletedAt, deletedBy, blockedBy, startDate, ...fields } = task;
+    const shift = task.dueDate ? differenceInCalendarDays(parseISO(next.dueDate), parseISO(task.dueDate)) : 0;
+    const created = addTask({
+      ...fields,
+      status: initialStatus(workflow),
+      startDate: startDate && task.dueDate ? format(addDays(parseISO(startDate), shift), 'yyyy-MM-dd') : undefined,
+      dueDate: next.dueDate,
+      recurrence: next.recurrence,
+      checklist: task.checklist?.map(item => ({ ...item, done: false })),
+    }, overrideWip);
+    if (!created.ok) {
+      toast.error(`Next "${task.title}" not created`, {
+        description: created.reason,
+        action: created.canOverride
+          ? {
+            label: 'Create anyway',
+            // Unless the series has moved on meanwhile
+            onClick: () => {
+              if (tasksRef.current.find(t => t.id === task.id)?.recurrence) continueSeries(task, true);
+            },
+          }
+          : undefined,
+      });
+      return;
+    }
+    applyTaskUpdate(task.id, { recurrence: undefined });
+    toast(`Next "${task.title}" created`, { description: `Due ${format(parseISO(next.dueDate), 'MMM d, yyyy')}` });
+  };
+
+  const updateTask = (id: string, updates: Partial<Task>, overrideWip = false): TransitionResult => {
+    const task = tasksRef.current.find(t => t.id === id);
+    const isMove = !!task && updates.status !== undefined && updates.status !== task.status;
+    if (task) {
+      const check = checkTaskChange(task, { ...task, ...updates }, overrideWip);
+      if (!check.ok) return check;
+      recordWipBreaches(task, { ...task, ...updates }, overrideWip);
+    }
+    if (task && !hasValues(task, updates)) {
+      recordHistory({ kind: 'updateTask', taskId: id, title: task.title, before: previousValues(task, updates), after: updates });
+    }
+    applyTaskUpdate(id, updates);
+    if (isMove && isDoneStatus(workflowOf(task.projectId), updates.status)) continueSeries(task);
+    return { ok: true };
+  };
+
+  const wipViolationsFor = (before: Task | undefined, after: Task) => {
+    const project = projectsRef.current.find(p => p.id === after.projectId);
+    const projectTasks = tasksRef.current.filter(t => t.projectId === after.projectId && !t.deletedAt);
+    return changeViolations(project?.wipLimits, projectTasks, before, after);
+  };
+
+  const transitionContext = (workflow: WorkflowStatus[]): TransitionContext => ({
+    workflow,
+    tasks: tasksRef.current.filter(t => !t.deletedAt),
+    role: currentRole,
+    isAdmin,
+  });
+
+  // Checks a task as it was (undefined for a new one, which counts as moving from
+  // where new tasks start) against how it would be. The rest of the change counts
+  // towards the rules, e.g. a PR link added on the way to Review.
+  const checkTaskChange = (before: Task | undefined, after: Task, overrideWip: boolean): TransitionResult => {
+    const project = projectsRef.current.find(p => p.id === after.projectId);
+    const workflow = projectWorkflow(project);
+    const from = before?.status ?? initialStatus(workflow);
+    const check = checkTransition({ ...after, status: from }, after.status, project?.transitionRules, transitionContext(workflow));
+    if (!check.ok) return check;
+
+    const overLimit = wipViolationsFor(before, after).filter(v => v.level === 'hard');
+    if (overLimit.length === 0 || (overrideWip && canManage)) return check;
+    const label = findStatus(workflow, after.status).label;
+    const details = overLimit.map(v =>
+      describeWipViolation(v, label, teamMembers.find(m => m.id === v.assigneeId)?.name)
+    );
+    return { ok: false, reason: `Over the WIP limit: ${details.join('; ')}.`, canOverride: canManage };
+  };
+
+  // Undo and redo restore earlier states directly, so only new moves are checked
+  const checkTaskMove = (id: string, status: Status, overrideWip = false): TransitionResult => {
+    const task = tasksRef.current.find(t => t.id === id);
+    return task ? checkTaskChange(task, { ...task, status }, overrideWip) : { ok: true };
+  };
+
+  // Call before the change is applied. Breaches are only a record, so offline
+  // changes go without one rather than waiting in the queue. A new task's
+  // breaches point at it, so they wait until the task itself is saved.
+  const recordWipBreaches = (
+    before: Task | undefined,
+    after: Task,
+    overrideWip: boolean,
+    saved: Promise<boolean> = Promise.resolve(true)
+  ) => {
+    const breaches = wipBreaches(
+      wipViolationsFor(before, after),
+      after,
+      after.status,
+      overrideWip ? currentMemberId ?? undefined : undefined
+    );
+    if (breaches.length === 0 || !navigator.onLine) return;
+    saved.then(isSaved => {
+      if (isSaved) persist('recordWipBreaches', uid => insertWipBreaches(breaches, uid));
+    });
   };
 
-  const updateTaskStatus = (id: string, status: Status) => {
-    updateTask(id, { status });
+  const updateTaskStatus = (id: string, status: Status, overrideWip = false): TransitionResult => {
+    const check = checkTaskMove(id, status, overrideWip);
+    if (!check.ok) return check;
+    const task = tasksRef.current.find(t => t.id === id);
+    if (task && task.status !== status) {
+      recordHistory({ kind: 'updateTaskStatus', taskId: id, title: task.title, before: task.status, after: status });
+      recordWipBreaches(task, { ...task, status }, overrideWip);
+    }
+    applyTaskStatus(id, status);
+    if (task && isDoneStatus(workflowOf(task.projectId), status)) continueSeries(task);
+    return check;
   };
 
   const deleteTask = (id: string) => {
-    setTasks(prev => prev.filter(t => t.id !== id));
-    setComments(prev => prev.filter(c => c.taskId !== id));
-    if (currentTaskId === id) setCurrentTaskId(null);
+    const task = tasksRef.current.find(t => t.id === id);
+    if (!task || task.deletedAt) return;
+    const entry = recordHistory({ kind: 'deleteTask', taskId: id, title: task.title });
+    trashTask(id);
+    toast(`Moved "${task.title}" to the trash`, { action: { label: 'Undo', onClick: () => undo(entry.id) } });
+  };
+
+  // A task can only come back once its project is out of the trash
+  const restoreTask = (id: string) => {
+    const task = tasksRef.current.find(t => t.id === id);
+    if (!task?.deletedAt) return;
+    if (projectsRef.current.find(p => p.id === task.projectId)?.deletedAt) return;
+    untrashTask(id);
   };
 
-  const reorderTasks = (projectId: string, status: Status, taskIds: string[]) => {
-    // For now, we just update the status of moved tasks
-    // In a real app, you might want to add an order field
+  // Puts a column in the given order. Only the dropped task moves into it, with
+  // its other changes in the same edit; the rest keep their status, including
+  // tasks shown there whose status the workflow no longer has. Only tasks that
+  // need a new rank are written. Nothing changes if the transition rules or WIP
+  // limits refuse the move.
+  const reorderTasks = (
+    projectId: string,
+    status: Status,
+    taskIds: string[],
+    overrideWip = false,
+    dropped?: { id: string; changes: Partial<Task> }
+  ): TransitionResult => {
+    const ordered = taskIds
+      .map(id => tasksRef.current.find(t => t.id === id && t.projectId === projectId))
+      .filter((t): t is Task => !!t);
+    const droppedTask = ordered.find(t => t.id === dropped?.id);
+    if (droppedTask) {
+      const check = checkTaskChange(droppedTask, { ...droppedTask, ...dropped.changes, status }, overrideWip);
+      if (!check.ok) return check;
+    }
+    const ranks = new Map(rankUpdates(ordered).map(u => [u.id, u.rank]));
+    const isDone = isDoneStatus(workflowOf(projectId), status);
+
+    ordered.forEach(task => {
+      const rank = ranks.get(task.id);
+      const isMove = task === droppedTask && task.status !== status;
+      if (isMove || (task === droppedTask && Object.keys(dropped.changes).length > 0)) {
+        // Moving between columns or lanes is an edit that can be undone; reordering alone is not
+        const updates: Partial<Task> = { ...dropped.changes };
+        if (isMove) updates.status = status;
+        if (rank) updates.rank = rank;
+        recordHistory({
+          kind: 'updateTask',
+          taskId: task.id,
+          title: task.title,
+          before: previousValues(task, updates),
+          after: updates,
+        });
+        recordWipBreaches(task, { ...task, ...updates }, overrideWip);
+        applyTaskUpdate(task.id, updates);
+        if (isDone && isMove) continueSeries(task);
+      } else if (rank) {
+        applyTaskUpdate(task.id, { rank });
+      }
+    });
+    return { ok: true };
   };
 
   // Comment actions
@@ -198,7 +1149,8 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
       content,
       createdAt: new Date().toISOString(),
     };
-    setComments(prev => [...prev, newComment]);
+    recordHistory({ kind: 'addComment', comment: newComment });
+    insertCommentRecord(newComment);
     return newComment;
   };
 
@@ -207,10 +1159,13 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     setNotifications(prev => prev.map(n => 
       n.id === id ? { ...n, read: true } : n
     ));
+    persist('markNotificationRead', () => markNotificationsReadRows([id]));
   };
 
   const markAllNotificationsRead = () => {
+    const unreadIds = notifications.filter(n => !n.read).map(n => n.id);
     setNotifications(prev => prev.map(n => ({ ...n, read: true })));
+    persist('markAllNotificationsRead', () => markNotificationsReadRows(unreadIds));
   };
 
   // Preferences
@@ -218,12 +1173,89 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
     setPreferences(prev => ({ ...prev, ...updates }));
   };
 
-  // Computed
-  const getCurrentProject = () => projects.find(p => p.id === currentProjectId);
-  const getCurrentTask = () => tasks.find(t => t.id === currentTaskId);
-  const getProjectTasks = (projectId: string) => tasks.filter(t => t.projectId === projectId);
+  // Trash
+  const removePurgedRecords = (purged: TrashSelection) => {
+    const projectIds = new Set(purged.projectIds);
+    const taskIds = new Set(purged.taskIds);
+    setProjects(prev => prev.filter(p => !projectIds.has(p.id)));
+    setTasks(prev => prev.filter(t => !taskIds.has(t.id)));
+    setComments(prev => prev.filter(c => !taskIds.has(c.taskId)));
+  };
+
+  const purgeTrash = async (selection: TrashSelection) => {
+    if (!userId) throw new Error('Sign in to empty the trash');
+    const purged = await purgeTrashedRecords(selection, tasksRef.current);
+    removePurgedRecords(purged);
+
+    const purgedTaskIds = new Set(purged.taskIds);
+    const purgedCount = purged.projectIds.length + selection.taskIds.filter(id => purgedTaskIds.has(id)).length;
+    return { purged: purgedCount, skipped: selection.projectIds.length + selection.taskIds.length - purgedCount };
+  };
+
+  // Applies a planned archive restore on the server, then reloads the workspace from it
+  const restoreWorkspace = async (plan: RestorePlan): Promise<SkippedRecord[]> => {
+    if (!userId) throw new Error('Sign in to restore a backup');
+    const skipped = [...plan.skipped];
+
+    if (plan.mode === 'replace') {
+      const results = await Promise.allSettled(projects.map(p => deleteProjectRow(p.id)));
+      results.forEach((result, index) => {
+        if (result.status === 'rejected') {
+          logError('restoreWorkspace:delete', result.reason);
+          skipped.push({
+            kind: 'project',
+            id: projects[index].id,
+            label: projects[index].title,
+            reason: 'Existing project could not be removed',
+          });
+        }
+      });
+      await deleteNotificationRows(notifications.map(n => n.id));
+    }
+
+    await insertWorkspaceRecords(plan, userId);
+
+    const failedAttachments = await restoreAttachmentRows(plan.attachments, userId);
+    failedAttachments.forEach(({ source, error }) => {
+      logError('restoreWorkspace:attachment', error);
+      skipped.push({ kind: 'attachment', id: source.id, label: source.file_name, reason: 'File could not be copied' });
+    });
+
+    const snapshot = await fetchWorkspace();
+    setProjects(snapshot.projects);
+    setTasks(snapshot.tasks);
+    setComments(snapshot.comments);
+    setNotifications(snapshot.notifications);
+    if (plan.preferences) {
+      setPreferences({ ...defaultPreferences, ...plan.preferences });
+    }
+
+    return skipped;
+  };
+
+  // Adds a project planned from another tool's export, with its tasks and comments
+  const importProject = (plan: ProjectImportPlan): Project => {
+    setProjects(prev => [...prev, plan.project]);
+    setTasks(prev => [...prev, ...plan.tasks]);
+    setComments(prev => [...prev, ...plan.comments]);
+    persist('importProject', uid => insertWorkspaceRecords({
+      projects: [plan.project],
+      tasks: plan.tasks,
+      comments: plan.comments,
+      notifications: [],
+    }, uid));
+    return plan.project;
+  };
+
+  // Computed; trashed records stay in state but are only exposed through the trash lists
+  const workspace = useMemo(() => splitTrash(projects, tasks), [projects, tasks]);
+  const getCurrentProject = () => workspace.projects.find(p => p.id === currentProjectId);
+  const getCurrentTask = () => workspace.tasks.find(t => t.id === currentTaskId);
+  const getProjectTasks = (projectId: string) => workspace.tasks.filter(t => t.projectId === projectId);
   const getTasksByStatus = (projectId: string, status: Status) => 
-    tasks.filter(t => t.projectId === projectId && t.status === status);
+    sortByRank(workspace.tasks.filter(t => t.projectId === projectId && t.status === status));
+  const getProjectWorkflow = (projectId: string) => projectWorkflow(projects.find(p => p.id === projectId));
+  const getTaskStatus = (task: Task) => findStatus(getProjectWorkflow(task.projectId), task.status);
   const getTaskComments = (taskId: string) => 
     comments.filter(c => c.taskId === taskId).sort((a, b) => 
       new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
@@ -234,7 +1266,7 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
   const searchTasks = (query: string): Task[] => {
     if (!query.trim()) return [];
     const lowerQuery = query.toLowerCase();
-    return tasks.filter(t => 
+    return workspace.tasks.filter(t => 
       t.title.toLowerCase().includes(lowerQuery) ||
       t.description.toLowerCase().includes(lowerQuery) ||
       t.tags.some(tag => tag.toLowerCase().includes(lowerQuery))
@@ -243,27 +1275,48 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
 
   return (
     <ProjectContext.Provider value={{
-      projects,
-      tasks,
+      projects: workspace.projects,
+      tasks: workspace.tasks,
       teamMembers,
       comments,
       notifications,
       preferences,
+      currentMemberId,
       currentProjectId,
       currentTaskId,
       searchQuery,
+      isLoading,
+      remoteTaskChanges,
+      clearRemoteTaskChange,
+      trashedProjects: workspace.trashedProjects,
+      trashedTasks: workspace.trashedTasks,
+      purgeTrash,
+      isOnline,
+      queuedMutationCount: queuedMutations.length,
+      conflicts,
+      resolveConflict,
+      restoreWorkspace,
+      importProject,
       setCurrentProjectId,
       setCurrentTaskId,
       setSearchQuery,
       addProject,
       updateProject,
+      updateWorkflow,
       deleteProject,
+      restoreProject,
       addTask,
       updateTask,
       updateTaskStatus,
+      checkTaskMove,
       deleteTask,
+      restoreTask,
       reorderTasks,
       addComment,
+      undo,
+      redo,
+      canUndo: history.current.undo.length > 0,
+      canRedo: history.current.redo.length > 0,
       markNotificationRead,
       markAllNotificationsRead,
       updatePreferences,
@@ -271,6 +1324,8 @@ export function ProjectProvider({ children }: { children: ReactNode }) {
       getCurrentTask,
       getProjectTasks,
       getTasksByStatus,
+      getProjectWorkflow,
+      getTaskStatus,
       getTaskComments,
       getTeamMember,
       getUnreadNotificationCount,
@@ -0,0 +1,13 @@
+import { useProject } from '@/contexts/ProjectContext';
+import { useUserRole } from '@/hooks/useUserRole';
+
+/**
+ * Whether the signed-in user may change how a project is set up, such as its
+ * custom fields: workspace admins and team members with the Manager role.
+ */
+export function useCanManage(): boolean {
+  const { teamMembers, currentMemberId } = useProject();
+  const { isAdmin } = useUserRole();
+  const member = teamMembers.find(m => m.id === currentMemberId);
+  return isAdmin || member?.role === 'manager';
+}
@@ -0,0 +1,70 @@
+import { useState, useEffect } from 'react';
+import type { RealtimePostgresInsertPayload } from '@supabase/supabase-js';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { TaskActivity } from '@/types';
+import { activityFromRow, fetchTaskActivity } from '@/lib/workspaceApi';
+import { logError } from '@/lib/errorHandler';
+
+interface TaskActivityState {
+  entries: TaskActivity[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+/**
+ * Activity history of one task, oldest first, kept live over Realtime
+ */
+export function useTaskActivity(taskId: string, enabled = true): TaskActivityState {
+  const [state, setState] = useState<TaskActivityState>({ entries: [], isLoading: true, error: null });
+
+  useEffect(() => {
+    if (!enabled) return;
+    let cancelled = false;
+    setState({ entries: [], isLoading: true, error: null });
+
+    const addEntries = (incoming: TaskActivity[]) => {
+      setState(prev => {
+        const known = new Set(prev.entries.map(e => e.id));
+        const entries = [...prev.entries, ...incoming.filter(e => !known.has(e.id))]
+          .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+        return { ...prev, entries };
+      });
+    };
+
+    // Subscribe before loading so nothing written in between is missed
+    const channel = supabase
+      .channel(`task-activity-${taskId}`)
+      .on(
+        'postgres_changes',
+        { event: 'INSERT', schema: 'public', table: 'task_activity', filter: `task_id=eq.${taskId}` },
+        (payload: RealtimePostgresInsertPayload<Tables<'task_activity'>>) => {
+          addEntries([activityFromRow(payload.new)]);
+        }
+      )
+      .subscribe();
+
+    fetchTaskActivity(taskId)
+      .then(entries => {
+        if (cancelled) return;
+        addEntries(entries);
+        setState(prev => ({ ...prev, isLoading: false }));
+      })
+      .catch(err => {
+        logError('useTaskActivity', err);
+        if (cancelled) return;
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: err instanceof Error ? err : new Error('Failed to load activity'),
+        }));
+      });
+
+    return () => {
+      cancelled = true;
+      supabase.removeChannel(channel);
+    };
+  }, [taskId, enabled]);
+
+  return state;
+}
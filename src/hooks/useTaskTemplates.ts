@@ -0,0 +1,76 @@
+import { useState, useEffect } from 'react';
+import { useAuth } from '@/contexts/AuthContext';
+import { TaskTemplate } from '@/types';
+import { generateId } from '@/data/mockData';
+import { deleteTaskTemplateRow, fetchTaskTemplates, insertTaskTemplate } from '@/lib/workspaceApi';
+import { TemplateDraft } from '@/lib/taskTemplates';
+import { logError } from '@/lib/errorHandler';
+
+interface TaskTemplatesState {
+  templates: TaskTemplate[];
+  isLoading: boolean;
+  error: Error | null;
+}
+
+interface TaskTemplatesResult extends TaskTemplatesState {
+  saveTemplate: (draft: TemplateDraft) => Promise<TaskTemplate>;
+  // Resolves to false when the template belongs to someone else
+  deleteTemplate: (id: string) => Promise<boolean>;
+}
+
+/**
+ * Task templates of the workspace, loaded while `enabled` is true
+ */
+export function useTaskTemplates(enabled = true): TaskTemplatesResult {
+  const { user } = useAuth();
+  const [state, setState] = useState<TaskTemplatesState>({ templates: [], isLoading: true, error: null });
+
+  useEffect(() => {
+    if (!enabled || !user) {
+      setState(prev => ({ ...prev, isLoading: false }));
+      return;
+    }
+    let cancelled = false;
+    setState(prev => ({ ...prev, isLoading: true, error: null }));
+
+    fetchTaskTemplates()
+      .then(templates => {
+        if (!cancelled) setState({ templates, isLoading: false, error: null });
+      })
+      .catch(err => {
+        logError('useTaskTemplates', err);
+        if (cancelled) return;
+        setState(prev => ({
+          ...prev,
+          isLoading: false,
+          error: err instanceof Error ? err : new Error('Failed to load templates'),
+        }));
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user, enabled]);
+
+  const saveTemplate = async (draft: TemplateDraft) => {
+    if (!user) throw new Error('Sign in to save templates');
+    const now = new Date().toISOString();
+    const template: TaskTemplate = { ...draft, id: generateId('tmpl'), createdAt: now, updatedAt: now };
+    await insertTaskTemplate(template, user.id);
+    setState(prev => ({
+      ...prev,
+      templates: [...prev.templates, template].sort((a, b) => a.name.localeCompare(b.name)),
+    }));
+    return template;
+  };
+
+  const deleteTemplate = async (id: string) => {
+    const deleted = await deleteTaskTemplateRow(id);
+    if (deleted) {
+      setState(prev => ({ ...prev, templates: prev.templates.filter(t => t.id !== id) }));
+    }
+    return deleted;
+  };
+
+  return { ...state, saveTemplate, deleteTemplate };
+}
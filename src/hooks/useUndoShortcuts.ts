@@ -0,0 +1,31 @@
+import { useEffect } from 'react';
+import { useProject } from '@/contexts/ProjectContext';
+
+// Text fields keep the browser's own undo for what is being typed
+const isEditable = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName));
+
+/**
+ * Ctrl/Cmd+Z undoes the last change; Ctrl/Cmd+Shift+Z or Ctrl+Y redoes it
+ */
+export function useUndoShortcuts() {
+  const { undo, redo } = useProject();
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.metaKey || e.ctrlKey) || e.altKey || isEditable(e.target)) return;
+      const key = e.key.toLowerCase();
+
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        undo();
+      } else if ((key === 'z' && e.shiftKey) || (key === 'y' && e.ctrlKey)) {
+        e.preventDefault();
+        redo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [undo, redo]);
+}
@@ -14,6 +14,44 @@ export type Database = {
   }
   public: {
     Tables: {
+      comments: {
+        Row: {
+          author_id: string
+          content: string
+          created_at: string
+          created_by: string | null
+          id: string
+          task_id: string
+          updated_at: string | null
+        }
+        Insert: {
+          author_id: string
+          content: string
+          created_at?: string
+          created_by?: string | null
+          id: string
+          task_id: string
+          updated_at?: string | null
+        }
+        Update: {
+          author_id?: string
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          task_id?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "comments_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       file_attachments: {
         Row: {
           created_at: string
@@ -53,6 +91,42 @@ export type Database = {
         }
         Relationships: []
       }
+      notifications: {
+        Row: {
+          created_at: string
+          id: string
+          message: string
+          project_id: string | null
+          read: boolean
+          task_id: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id: string
+          message: string
+          project_id?: string | null
+          read?: boolean
+          task_id?: string | null
+          title: string
+          type: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          message?: string
+          project_id?: string | null
+          read?: boolean
+          task_id?: string | null
+          title?: string
+          type?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       profiles: {
         Row: {
           avatar_url: string | null
@@ -95,6 +169,307 @@ export type Database = {
         }
         Relationships: []
       }
+      projects: {
+        Row: {
+          color: string
+          created_at: string
+          created_by: string | null
+          custom_fields: Json | null
+          deleted_at: string | null
+          deleted_by: string | null
+          description: string
+          end_date: string | null
+          id: string
+          start_date: string
+          status: string
+          team_member_ids: string[]
+          title: string
+          transition_rules: Json | null
+          updated_at: string
+          wip_limits: Json | null
+          workflow: Json | null
+        }
+        Insert: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          custom_fields?: Json | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string
+          end_date?: string | null
+          id: string
+          start_date: string
+          status?: string
+          team_member_ids?: string[]
+          title: string
+          transition_rules?: Json | null
+          updated_at?: string
+          wip_limits?: Json | null
+          workflow?: Json | null
+        }
+        Update: {
+          color?: string
+          created_at?: string
+          created_by?: string | null
+          custom_fields?: Json | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          description?: string
+          end_date?: string | null
+          id?: string
+          start_date?: string
+          status?: string
+          team_member_ids?: string[]
+          title?: string
+          transition_rules?: Json | null
+          updated_at?: string
+          wip_limits?: Json | null
+          workflow?: Json | null
+        }
+        Relationships: []
+      }
+      task_activity: {
+        Row: {
+          actor_id: string | null
+          created_at: string
+          field: string | null
+          id: string
+          kind: string
+          new_value: Json | null
+          old_value: Json | null
+          task_id: string
+        }
+        Insert: {
+          actor_id?: string | null
+          created_at?: string
+          field?: string | null
+          id?: string
+          kind: string
+          new_value?: Json | null
+          old_value?: Json | null
+          task_id: string
+        }
+        Update: {
+          actor_id?: string | null
+          created_at?: string
+          field?: string | null
+          id?: string
+          kind?: string
+          new_value?: Json | null
+          old_value?: Json | null
+          task_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_activity_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      task_templates: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string
+          due_offset_days: number | null
+          fields: Json
+          id: string
+          name: string
+          priority: string
+          project_id: string | null
+          tags: string[]
+          title_pattern: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          due_offset_days?: number | null
+          fields?: Json
+          id: string
+          name: string
+          priority?: string
+          project_id?: string | null
+          tags?: string[]
+          title_pattern: string
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          due_offset_days?: number | null
+          fields?: Json
+          id?: string
+          name?: string
+          priority?: string
+          project_id?: string | null
+          tags?: string[]
+          title_pattern?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "task_templates_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tasks: {
+        Row: {
+          approval_status: string | null
+          assignee_ids: string[]
+          blocked_by: string[] | null
+          campaign_name: string | null
+          checklist: Json | null
+          content_type: string | null
+          coordinates: Json | null
+          created_at: string
+          created_by: string | null
+          custom_field_values: Json | null
+          data_sources: string[] | null
+          deleted_at: string | null
+          deleted_by: string | null
+          dependencies: string[] | null
+          description: string
+          duration: number | null
+          due_date: string | null
+          ethics_approval: string | null
+          field_work_date: string | null
+          git_branch: string | null
+          id: string
+          literature_refs: string[] | null
+          map_layer: string | null
+          parent_id: string | null
+          pr_link: string | null
+          priority: string
+          project_id: string
+          protocol_number: string | null
+          publication_date: string | null
+          rank: string | null
+          recurrence: Json | null
+          spatial_data_links: string[] | null
+          start_date: string | null
+          status: string
+          story_points: number | null
+          tags: string[]
+          technical_notes: string | null
+          title: string
+          type: string
+          updated_at: string
+        }
+        Insert: {
+          approval_status?: string | null
+          assignee_ids?: string[]
+          blocked_by?: string[] | null
+          campaign_name?: string | null
+          checklist?: Json | null
+          content_type?: string | null
+          coordinates?: Json | null
+          created_at?: string
+          created_by?: string | null
+          custom_field_values?: Json | null
+          data_sources?: string[] | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          dependencies?: string[] | null
+          description?: string
+          duration?: number | null
+          due_date?: string | null
+          ethics_approval?: string | null
+          field_work_date?: string | null
+          git_branch?: string | null
+          id: string
+          literature_refs?: string[] | null
+          map_layer?: string | null
+          parent_id?: string | null
+          pr_link?: string | null
+          priority?: string
+          project_id: string
+          protocol_number?: string | null
+          publication_date?: string | null
+          rank?: string | null
+          recurrence?: Json | null
+          spatial_data_links?: string[] | null
+          start_date?: string | null
+          status?: string
+          story_points?: number | null
+          tags?: string[]
+          technical_notes?: string | null
+          title: string
+          type?: string
+          updated_at?: string
+        }
+        Update: {
+          approval_status?: string | null
+          assignee_ids?: string[]
+          blocked_by?: string[] | null
+          campaign_name?: string | null
+          checklist?: Json | null
+          content_type?: string | null
+          coordinates?: Json | null
+          created_at?: string
+          created_by?: string | null
+          custom_field_values?: Json | null
+          data_sources?: string[] | null
+          deleted_at?: string | null
+          deleted_by?: string | null
+          dependencies?: string[] | null
+          description?: string
+          duration?: number | null
+          due_date?: string | null
+          ethics_approval?: string | null
+          field_work_date?: string | null
+          git_branch?: string | null
+          id?: string
+          literature_refs?: string[] | null
+          map_layer?: string | null
+          parent_id?: string | null
+          pr_link?: string | null
+          priority?: string
+          project_id?: string
+          protocol_number?: string | null
+          publication_date?: string | null
+          rank?: string | null
+          recurrence?: Json | null
+          spatial_data_links?: string[] | null
+          start_date?: string | null
+          status?: string
+          story_points?: number | null
+          tags?: string[]
+          technical_notes?: string | null
+          title?: string
+          type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_parent_id_fkey"
+            columns: ["parent_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       team_members: {
         Row: {
           avatar: string | null
@@ -152,6 +527,66 @@ export type Database = {
         }
         Relationships: []
       }
+      wip_breaches: {
+        Row: {
+          assignee_id: string | null
+          count: number
+          created_at: string
+          created_by: string | null
+          id: string
+          level: string
+          overridden_by: string | null
+          project_id: string
+          scope: string
+          status: string
+          task_id: string | null
+          wip_limit: number
+        }
+        Insert: {
+          assignee_id?: string | null
+          count: number
+          created_at?: string
+          created_by?: string | null
+          id: string
+          level: string
+          overridden_by?: string | null
+          project_id: string
+          scope: string
+          status: string
+          task_id?: string | null
+          wip_limit: number
+        }
+        Update: {
+          assignee_id?: string | null
+          count?: number
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          level?: string
+          overridden_by?: string | null
+          project_id?: string
+          scope?: string
+          status?: string
+          task_id?: string | null
+          wip_limit?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "wip_breaches_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "wip_breaches_task_id_fkey"
+            columns: ["task_id"]
+            isOneToOne: false
+            referencedRelation: "tasks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
@@ -168,6 +603,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      notify_task_unblocked: {
+        Args: { _task_id: string }
+        Returns: undefined
+      }
     }
     Enums: {
       app_role: "admin" | "moderator" | "user"
@@ -0,0 +1,177 @@
+/**
+ * Task activity formatting
+ * Turns raw activity entries (column values as stored) into readable text:
+ * labels instead of enum keys, member names instead of ids, formatted dates.
+ * Entries written in the same save are grouped so one edit reads as one event.
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import {
+  ChecklistItem,
+  CustomFieldValue,
+  Project,
+  RecurrenceRule,
+  TaskActivity,
+  TeamMember,
+  PRIORITY_LABELS,
+  TYPE_LABELS,
+  Priority,
+  TaskType,
+} from '@/types';
+import { APPROVAL_VALUES, ETHICS_VALUES } from '@/lib/taskImport';
+import { describeRecurrence } from '@/lib/recurrence';
+import { formatCustomValue } from '@/lib/customFields';
+import { DEFAULT_WORKFLOW } from '@/lib/workflow';
+
+const FIELD_LABELS: Record<string, string> = {
+  projectId: 'Project',
+  title: 'Title',
+  description: 'Description',
+  type: 'Type',
+  priority: 'Priority',
+  status: 'Status',
+  assigneeIds: 'Assignees',
+  dueDate: 'Due date',
+  startDate: 'Start date',
+  duration: 'Duration (days)',
+  tags: 'Tags',
+  gitBranch: 'Git branch',
+  prLink: 'PR link',
+  storyPoints: 'Story points',
+  technicalNotes: 'Technical notes',
+  protocolNumber: 'Protocol number',
+  literatureRefs: 'Literature references',
+  dataSources: 'Data sources',
+  ethicsApproval: 'Ethics approval',
+  coordinates: 'Coordinates',
+  mapLayer: 'Map layer',
+  fieldWorkDate: 'Field work date',
+  spatialDataLinks: 'Spatial data links',
+  campaignName: 'Campaign name',
+  contentType: 'Content type',
+  approvalStatus: 'Approval status',
+  publicationDate: 'Publication date',
+  dependencies: 'Dependencies',
+  blockedBy: 'Blocked by',
+  parentId: 'Parent task',
+  checklist: 'Checklist',
+  recurrence: 'Repeats',
+  customFieldValues: 'Custom fields',
+  deletedAt: 'Moved to trash',
+  deletedBy: 'Deleted by',
+};
+
+const DATE_FIELDS = new Set(['dueDate', 'startDate', 'fieldWorkDate', 'publicationDate', 'deletedAt']);
+
+export function activityFieldLabel(field: string): string {
+  if (FIELD_LABELS[field]) return FIELD_LABELS[field];
+  const words = field.replace(/_/g, ' ').replace(/([a-z])([A-Z])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+}
+
+interface FormatContext {
+  teamMembers: TeamMember[];
+  projects: Project[];
+}
+
+const isEmpty = (value: unknown) =>
+  value === null || value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+
+/**
+ * Formats a stored field value for display. Empty values return null.
+ */
+export function formatActivityValue(field: string, value: unknown, context: FormatContext): string | null {
+  if (isEmpty(value)) return null;
+
+  switch (field) {
+    case 'status': {
+      const statuses = [...context.projects.flatMap(p => p.workflow ?? []), ...DEFAULT_WORKFLOW];
+      return statuses.find(s => s.id === value)?.label ?? String(value);
+    }
+    case 'priority':
+      return PRIORITY_LABELS[value as Priority] ?? String(value);
+    case 'type':
+      return TYPE_LABELS[value as TaskType] ?? String(value);
+    case 'ethicsApproval':
+      return ETHICS_VALUES[value as keyof typeof ETHICS_VALUES] ?? String(value);
+    case 'approvalStatus':
+      return APPROVAL_VALUES[value as keyof typeof APPROVAL_VALUES] ?? String(value);
+    case 'projectId':
+      return context.projects.find(p => p.id === value)?.title ?? 'Deleted project';
+    case 'deletedBy':
+      return context.teamMembers.find(m => m.id === value)?.name ?? 'Former member';
+    case 'assigneeIds':
+      return (value as string[])
+        .map(id => context.teamMembers.find(m => m.id === id)?.name ?? 'Former member')
+        .join(', ');
+    case 'checklist': {
+      const items = value as ChecklistItem[];
+      return `${items.filter(item => item.done).length} of ${items.length} done`;
+    }
+    case 'recurrence':
+      return describeRecurrence(value as RecurrenceRule);
+    case 'customFieldValues': {
+      const fields = context.projects.flatMap(p => p.customFields ?? []);
+      const parts = Object.entries(value as Record<string, CustomFieldValue>).flatMap(([id, fieldValue]) => {
+        // Values of deleted fields are not shown anywhere else either
+        const field = fields.find(f => f.id === id);
+        return field ? [`${field.name}: ${formatCustomValue(field, fieldValue, context.teamMembers)}`] : [];
+      });
+      return parts.length > 0 ? parts.join('; ') : null;
+    }
+    case 'coordinates': {
+      const { lat, lng } = value as { lat: number; lng: number };
+      return `${lat}, ${lng}`;
+    }
+  }
+
+  if (DATE_FIELDS.has(field) && typeof value === 'string') {
+    const date = parseISO(value);
+    if (isValid(date)) return format(date, 'MMM d, yyyy');
+  }
+  if (Array.isArray(value)) return value.map(String).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+export interface ActivityGroup {
+  id: string;
+  actorId?: string;
+  createdAt: string;
+  entries: TaskActivity[];
+}
+
+/**
+ * Groups consecutive entries made by the same person in the same save.
+ * Field changes from one update share a timestamp, since they come from one statement.
+ */
+export function groupActivity(entries: TaskActivity[]): ActivityGroup[] {
+  const groups: ActivityGroup[] = [];
+  for (const entry of entries) {
+    const last = groups[groups.length - 1];
+    if (
+      last &&
+      entry.kind === 'updated' &&
+      last.entries[0].kind === 'updated' &&
+      last.actorId === entry.actorId &&
+      last.createdAt === entry.createdAt
+    ) {
+      last.entries.push(entry);
+    } else {
+      groups.push({ id: entry.id, actorId: entry.actorId, createdAt: entry.createdAt, entries: [entry] });
+    }
+  }
+  return groups;
+}
+
+/**
+ * Team members added and removed by an assignment change.
+ */
+export function assigneeDiff(entry: TaskActivity): { added: string[]; removed: string[] } {
+  const before = (entry.oldValue as string[] | undefined) ?? [];
+  const after = (entry.newValue as string[] | undefined) ?? [];
+  return {
+    added: after.filter(id => !before.includes(id)),
+    removed: before.filter(id => !after.includes(id)),
+  };
+}
@@ -0,0 +1,153 @@
+/**
+ * Critical path
+ * Schedules a project's open tasks from their planned dates and dependencies.
+ * A task runs from its start date for its duration; without those it runs from
+ * its creation to its due date. A task can't start before the tasks it waits on
+ * have finished, and an open task can't finish before today, so a task that
+ * slips pushes everything after it. Working back from the last finish gives each
+ * task's float: how many days it can slip without moving the project's end.
+ * Tasks without float form the critical path. Finished tasks no longer hold
+ * anything up and are left out.
+ */
+
+import { addDays, differenceInCalendarDays, parseISO, startOfDay } from 'date-fns';
+import { Task } from '@/types';
+
+// Length of a task that has neither a due date nor a duration
+const DEFAULT_DURATION = 4;
+
+export interface TaskWindow {
+  // First and last day of the task, both inclusive
+  start: Date;
+  finish: Date;
+}
+
+export interface ScheduledTask {
+  taskId: string;
+  // Forecast, given the tasks it waits on and today
+  start: Date;
+  finish: Date;
+  // Days the task can slip without moving the project's finish
+  float: number;
+  // Days the forecast finish is past the planned one
+  slip: number;
+  isCritical: boolean;
+}
+
+export interface ProjectSchedule {
+  tasks: Map<string, ScheduledTask>;
+  // Forecast finish of the last open task, null when nothing is left to do
+  finish: Date | null;
+}
+
+/**
+ * The days a task is planned to run, from its start date, duration and due date.
+ */
+export function plannedWindow(task: Task): TaskWindow {
+  const created = startOfDay(parseISO(task.createdAt));
+  const due = task.dueDate ? startOfDay(parseISO(task.dueDate)) : undefined;
+
+  let start: Date;
+  if (task.startDate) start = startOfDay(parseISO(task.startDate));
+  else if (due && task.duration) start = addDays(due, 1 - task.duration);
+  else start = due && due < created ? due : created;
+
+  let finish: Date;
+  if (task.duration) finish = addDays(start, task.duration - 1);
+  else if (due) finish = due < start ? start : due;
+  else finish = addDays(start, DEFAULT_DURATION - 1);
+
+  return { start, finish };
+}
+
+// Tasks with no dates of their own only count when they are part of a chain
+const hasDates = (task: Task) => !!(task.startDate || task.dueDate || task.duration);
+
+/**
+ * The forecast schedule of a project's tasks. Tasks in a dependency loop are
+ * scheduled as if the dependency closing the loop were not there.
+ */
+export function scheduleProject(
+  tasks: Task[],
+  isDone: (task: Task) => boolean,
+  today: Date = new Date()
+): ProjectSchedule {
+  const base = startOfDay(today);
+  const day = (date: Date) => differenceInCalendarDays(date, base);
+
+  const open = tasks.filter(t => !t.deletedAt && !isDone(t));
+  const openIds = new Set(open.map(t => t.id));
+  const predecessorsOf = (task: Task) => (task.dependencies ?? []).filter(id => id !== task.id && openIds.has(id));
+  const linked = new Set(open.flatMap(t => {
+    const predecessors = predecessorsOf(t);
+    return predecessors.length > 0 ? [t.id, ...predecessors] : [];
+  }));
+  const scheduled = open.filter(t => hasDates(t) || linked.has(t.id));
+
+  // Predecessors first; whatever is left in a loop goes last
+  const order: Task[] = [];
+  const placed = new Set<string>();
+  let pending = scheduled;
+  while (pending.length > 0) {
+    const ready = pending.filter(t => predecessorsOf(t).every(id => placed.has(id)));
+    const batch = ready.length > 0 ? ready : [pending[0]];
+    batch.forEach(t => {
+      order.push(t);
+      placed.add(t.id);
+    });
+    pending = pending.filter(t => !placed.has(t.id));
+  }
+
+  // Forward pass: earliest start and finish, as day numbers from today
+  const early = new Map<string, { start: number; finish: number; planned: number }>();
+  for (const task of order) {
+    const planned = plannedWindow(task);
+    const span = differenceInCalendarDays(planned.finish, planned.start);
+    const start = Math.max(
+      day(planned.start),
+      ...predecessorsOf(task).map(id => early.get(id)).filter(Boolean).map(p => p.finish + 1)
+    );
+    early.set(task.id, { start, finish: Math.max(start + span, 0), planned: day(planned.finish) });
+  }
+
+  if (order.length === 0) return { tasks: new Map(), finish: null };
+  const projectFinish = Math.max(...[...early.values()].map(e => e.finish));
+
+  // Backward pass: the latest each task can finish without delaying the project
+  const successors = new Map<string, string[]>();
+  order.forEach(task => predecessorsOf(task).forEach(id => {
+    successors.set(id, [...(successors.get(id) ?? []), task.id]);
+  }));
+  const lateStart = new Map<string, number>();
+  const result = new Map<string, ScheduledTask>();
+  for (const task of [...order].reverse()) {
+    const { start, finish, planned } = early.get(task.id);
+    const lateFinish = Math.min(
+      projectFinish,
+      ...(successors.get(task.id) ?? []).filter(id => lateStart.has(id)).map(id => lateStart.get(id) - 1)
+    );
+    lateStart.set(task.id, lateFinish - (finish - start));
+    const float = lateFinish - finish;
+    result.set(task.id, {
+      taskId: task.id,
+      start: addDays(base, start),
+      finish: addDays(base, finish),
+      float,
+      slip: Math.max(0, finish - planned),
+      isCritical: float <= 0,
+    });
+  }
+
+  return { tasks: result, finish: addDays(base, projectFinish) };
+}
+
+/**
+ * Whether the dependency from one task to another drives the later one's
+ * start along the critical path.
+ */
+export function isCriticalLink(schedule: ProjectSchedule, fromId: string, toId: string): boolean {
+  const from = schedule.tasks.get(fromId);
+  const to = schedule.tasks.get(toId);
+  return !!from && !!to && from.isCritical && to.isCritical
+    && differenceInCalendarDays(to.start, from.finish) === 1;
+}
@@ -0,0 +1,102 @@
+/**
+ * CSV parsing and writing
+ * RFC 4180 style parser for spreadsheet exports: quoted fields, escaped quotes,
+ * embedded newlines, CRLF line endings and a leading byte order mark.
+ * The delimiter (comma, semicolon or tab) is detected from the header line.
+ */
+
+const DELIMITERS = [',', ';', '\t'];
+
+/**
+ * Picks the delimiter that occurs most often outside quotes on the first line.
+ */
+export function detectDelimiter(text: string): string {
+  let firstLine = '';
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    if (!inQuotes && (char === '\n' || char === '\r')) break;
+    if (!inQuotes) firstLine += char;
+  }
+
+  let best = ',';
+  let bestCount = 0;
+  for (const delimiter of DELIMITERS) {
+    const count = firstLine.split(delimiter).length - 1;
+    if (count > bestCount) {
+      best = delimiter;
+      bestCount = count;
+    }
+  }
+  return best;
+}
+
+/**
+ * Parses CSV text into rows of cells. Blank lines are dropped.
+ */
+export function parseCsv(text: string, delimiter = detectDelimiter(text)): string[][] {
+  const input = text.charCodeAt(0) === 0xfeff ? text.slice(1) : text;
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(cell);
+    if (row.length > 1 || row[0].trim() !== '') rows.push(row);
+    row = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"') {
+        if (input[i + 1] === '"') {
+          cell += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && cell === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && input[i + 1] === '\n') i++;
+      endRow();
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell !== '' || row.length > 0) endRow();
+  return rows;
+}
+
+// Spreadsheet apps evaluate cells starting with these as formulas
+const FORMULA_PREFIX = /^[=+@\t\r]|^-(?![\d.])/;
+
+/**
+ * Serialises rows as CSV with CRLF line endings. Cells are quoted only when
+ * needed, and text that would be read as a formula is prefixed with a quote.
+ */
+export function toCsv(rows: (string | number | null | undefined)[][], delimiter = ','): string {
+  const escapeCell = (value: string | number | null | undefined) => {
+    if (value === null || value === undefined) return '';
+    if (typeof value === 'number') return String(value);
+    const text = FORMULA_PREFIX.test(value) ? `'${value}` : value;
+    return text.includes(delimiter) || /["\r\n]/.test(text) || text !== text.trim()
+      ? `"${text.replace(/"/g, '""')}"`
+      : text;
+  };
+  return rows.map(row => row.map(escapeCell).join(delimiter)).join('\r\n');
+}
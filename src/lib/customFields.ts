@@ -0,0 +1,196 @@
+/**
+ * Custom fields
+ * Projects define their own task fields (grant codes, client names, sample
+ * counts...) on top of the built-in ones. Definitions live on the project and
+ * values on each task, keyed by field id, so renaming a field keeps its values
+ * and a deleted field's values are simply no longer shown.
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import { CustomFieldDefinition, CustomFieldType, CustomFieldValue, Task, TeamMember } from '@/types';
+
+export const CUSTOM_FIELD_TYPE_LABELS: Record<CustomFieldType, string> = {
+  'text': 'Text',
+  'number': 'Number',
+  'date': 'Date',
+  'select': 'Single select',
+  'multi-select': 'Multi select',
+  'url': 'URL',
+  'user': 'Team member',
+  'checkbox': 'Checkbox',
+};
+
+export const hasOptions = (type: CustomFieldType) => type === 'select' || type === 'multi-select';
+
+export function isEmptyCustomValue(value: CustomFieldValue | undefined): boolean {
+  return value === undefined || value === '' || (Array.isArray(value) && value.length === 0);
+}
+
+export function isValidUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Problems with a project's field definitions, such as duplicate names or a
+ * select field without options. An empty list means they can be saved.
+ */
+export function validateCustomFields(fields: CustomFieldDefinition[]): string[] {
+  const problems: string[] = [];
+  const names = new Set<string>();
+  fields.forEach(field => {
+    const name = field.name.trim();
+    if (!name) {
+      problems.push('Every field needs a name.');
+      return;
+    }
+    if (names.has(name.toLowerCase())) problems.push(`There is more than one field called "${name}".`);
+    names.add(name.toLowerCase());
+    if (hasOptions(field.type) && !field.options?.length) problems.push(`"${name}" needs at least one option.`);
+  });
+  return problems;
+}
+
+/**
+ * Sets or clears one field on a task's values. Empty values and unchecked
+ * checkboxes are removed rather than stored.
+ */
+export function withCustomValue(
+  values: Task['customFieldValues'],
+  fieldId: string,
+  value: CustomFieldValue | undefined
+): Record<string, CustomFieldValue> {
+  const next = { ...values };
+  if (isEmptyCustomValue(value) || value === false) delete next[fieldId];
+  else next[fieldId] = value!;
+  return next;
+}
+
+/**
+ * Values ready to store: typed text trimmed, numbers as numbers, and empty,
+ * unparseable or unchecked values and those of unknown fields dropped.
+ */
+export function normalizeCustomValues(
+  fields: CustomFieldDefinition[],
+  values: Task['customFieldValues']
+): Record<string, CustomFieldValue> {
+  let result: Record<string, CustomFieldValue> = {};
+  fields.forEach(field => {
+    let value = values?.[field.id];
+    if (typeof value === 'string') value = value.trim();
+    if (field.type === 'number' && typeof value === 'string' && value !== '') {
+      const number = Number(value);
+      value = Number.isFinite(number) ? number : undefined;
+    }
+    result = withCustomValue(result, field.id, value);
+  });
+  return result;
+}
+
+export function formatCustomValue(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  teamMembers: TeamMember[]
+): string {
+  if (isEmptyCustomValue(value)) return '';
+  switch (field.type) {
+    case 'checkbox':
+      return value ? 'Yes' : 'No';
+    case 'date': {
+      const date = parseISO(String(value));
+      return isValid(date) ? format(date, 'MMM d, yyyy') : String(value);
+    }
+    case 'user':
+      return teamMembers.find(m => m.id === value)?.name ?? 'Former member';
+    case 'multi-select':
+      return Array.isArray(value) ? value.join(', ') : String(value);
+    default:
+      return String(value);
+  }
+}
+
+/**
+ * Sort order for one field. Tasks without a value go last either way.
+ */
+export function compareCustomValues(
+  field: CustomFieldDefinition,
+  a: CustomFieldValue | undefined,
+  b: CustomFieldValue | undefined,
+  teamMembers: TeamMember[]
+): number {
+  const emptyA = isEmptyCustomValue(a) && field.type !== 'checkbox';
+  const emptyB = isEmptyCustomValue(b) && field.type !== 'checkbox';
+  if (emptyA || emptyB) return Number(emptyA) - Number(emptyB);
+
+  switch (field.type) {
+    case 'number':
+      return Number(a) - Number(b);
+    case 'checkbox':
+      // Checked first
+      return Number(!!b) - Number(!!a);
+    case 'select': {
+      // In the order the options were defined
+      const options = field.options ?? [];
+      return options.indexOf(String(a)) - options.indexOf(String(b));
+    }
+    default:
+      return formatCustomValue(field, a, teamMembers).localeCompare(formatCustomValue(field, b, teamMembers));
+  }
+}
+
+// A filter's meaning depends on the field type: text and URL fields match `query`,
+// numbers and dates are bounded by `min`/`max`, and the other types match `option`
+export interface CustomFieldFilter {
+  query?: string;
+  min?: string;
+  max?: string;
+  option?: string;
+}
+
+// Option value that matches tasks where the field is not set
+export const EMPTY_OPTION = '__empty';
+
+export function isActiveFilter(filter: CustomFieldFilter | undefined): boolean {
+  return !!filter && !!(filter.query?.trim() || filter.min || filter.max || filter.option);
+}
+
+export function matchesCustomFilter(
+  field: CustomFieldDefinition,
+  value: CustomFieldValue | undefined,
+  filter: CustomFieldFilter
+): boolean {
+  if (!isActiveFilter(filter)) return true;
+
+  switch (field.type) {
+    case 'text':
+    case 'url': {
+      const query = filter.query?.trim().toLowerCase() ?? '';
+      return String(value ?? '').toLowerCase().includes(query);
+    }
+    case 'number': {
+      if (isEmptyCustomValue(value)) return false;
+      const number = Number(value);
+      if (filter.min && number < Number(filter.min)) return false;
+      if (filter.max && number > Number(filter.max)) return false;
+      return true;
+    }
+    case 'date': {
+      // yyyy-MM-dd strings compare in date order
+      if (isEmptyCustomValue(value)) return false;
+      const date = String(value);
+      if (filter.min && date < filter.min) return false;
+      if (filter.max && date > filter.max) return false;
+      return true;
+    }
+    case 'checkbox':
+      return filter.option === 'checked' ? value === true : value !== true;
+    default: {
+      if (filter.option === EMPTY_OPTION) return isEmptyCustomValue(value);
+      return Array.isArray(value) ? value.includes(filter.option!) : value === filter.option;
+    }
+  }
+}
@@ -0,0 +1,54 @@
+/**
+ * Task dependencies
+ * task.dependencies lists the tasks that have to be finished before a task can
+ * go ahead. task.blockedBy is derived from it: the predecessors that are still
+ * open, kept up to date whenever a task's status or dependencies change. Tasks
+ * in the trash never block. Dependencies must not loop back on themselves.
+ */
+
+import { Task } from '@/types';
+
+/**
+ * The predecessors of a task that are not finished yet.
+ */
+export function openBlockers(task: Task, tasks: Task[], isDone: (task: Task) => boolean): string[] {
+  return (task.dependencies ?? []).filter(id => {
+    const predecessor = tasks.find(t => t.id === id);
+    return !!predecessor && !predecessor.deletedAt && !isDone(predecessor);
+  });
+}
+
+/**
+ * Tasks that depend on the given one.
+ */
+export function getDependants(tasks: Task[], id: string): Task[] {
+  return tasks.filter(t => t.dependencies?.includes(id));
+}
+
+export const sameIds = (a: string[] = [], b: string[] = []) =>
+  a.length === b.length && a.every(id => b.includes(id));
+
+/**
+ * The loop that making `taskId` depend on `dependencyId` would close, as the
+ * tasks along it starting and ending with `taskId`, or null if there is none.
+ */
+export function findDependencyCycle(tasks: Task[], taskId: string, dependencyId: string): Task[] | null {
+  const byId = new Map(tasks.map(t => [t.id, t]));
+  const visited = new Set<string>();
+
+  // Depth-first search from the new predecessor back to the task
+  const search = (id: string): string[] | null => {
+    if (id === taskId) return [id];
+    if (visited.has(id)) return null;
+    visited.add(id);
+    for (const next of byId.get(id)?.dependencies ?? []) {
+      const path = search(next);
+      if (path) return [id, ...path];
+    }
+    return null;
+  };
+
+  const path = search(dependencyId);
+  if (!path) return null;
+  return [taskId, ...path].map(id => byId.get(id)).filter((t): t is Task => !!t);
+}
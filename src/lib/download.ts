@@ -0,0 +1,15 @@
+/**
+ * File download helper
+ * Saves generated content (backups, exports) through a temporary object URL.
+ */
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+}
@@ -0,0 +1,76 @@
+/**
+ * Gantt editing
+ * Turns drags on the timeline into task changes. Moving a bar shifts its start
+ * and due date by whole days; resizing it changes the day it ends, through the
+ * duration or, for tasks planned by due date, the due date. Dependants can
+ * follow a move by the same number of working days (Monday to Friday), so a
+ * week's slip stays a week's slip across weekends.
+ */
+
+import { addBusinessDays, addDays, differenceInBusinessDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { Task } from '@/types';
+import { plannedWindow } from '@/lib/criticalPath';
+import { getDependants } from '@/lib/dependencies';
+
+const toDateString = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const shiftDueDate = (task: Task, days: number) =>
+  task.dueDate ? { dueDate: toDateString(addDays(parseISO(task.dueDate), days)) } : {};
+
+/**
+ * The changes that move a task `days` calendar days later (or earlier when negative).
+ */
+export function moveChanges(task: Task, days: number): Partial<Task> {
+  const { start } = plannedWindow(task);
+  return { startDate: toDateString(addDays(start, days)), ...shiftDueDate(task, days) };
+}
+
+/**
+ * The changes that make a task end `days` later (or earlier), keeping its
+ * start. A task always keeps at least one day.
+ */
+export function resizeChanges(task: Task, days: number): Partial<Task> {
+  const { start, finish } = plannedWindow(task);
+  const length = Math.max(1, differenceInCalendarDays(finish, start) + 1 + days);
+  // The start is pinned, since without a start date it may be derived from the end
+  const changes: Partial<Task> = { startDate: toDateString(start) };
+  if (task.duration || !task.dueDate) changes.duration = length;
+  else changes.dueDate = toDateString(addDays(start, length - 1));
+  return changes;
+}
+
+/**
+ * Working days between a task's planned start and the start a move of `days` gives it.
+ */
+export function workingDaysMoved(task: Task, days: number): number {
+  const { start } = plannedWindow(task);
+  return differenceInBusinessDays(addDays(start, days), start);
+}
+
+/**
+ * The changes that shift every open task down the chain after `taskId` by
+ * `workingDays`. Each keeps its length in calendar days.
+ */
+export function shiftDependants(
+  tasks: Task[],
+  taskId: string,
+  workingDays: number,
+  isDone: (task: Task) => boolean
+): { id: string; changes: Partial<Task> }[] {
+  if (workingDays === 0) return [];
+  const seen = new Set<string>([taskId]);
+  const result: { id: string; changes: Partial<Task> }[] = [];
+  const queue = [taskId];
+  while (queue.length > 0) {
+    for (const dependant of getDependants(tasks, queue.shift())) {
+      if (seen.has(dependant.id)) continue;
+      seen.add(dependant.id);
+      queue.push(dependant.id);
+      if (dependant.deletedAt || isDone(dependant)) continue;
+      const { start } = plannedWindow(dependant);
+      const days = differenceInCalendarDays(addBusinessDays(start, workingDays), start);
+      result.push({ id: dependant.id, changes: moveChanges(dependant, days) });
+    }
+  }
+  return result;
+}
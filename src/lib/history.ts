@@ -0,0 +1,66 @@
+/**
+ * Undo/redo history
+ * Each entry stores enough data to reverse a mutation and to apply it again.
+ * Before an entry is replayed the affected record is checked against the state
+ * the entry expects, so undo never overwrites a change made by someone else since.
+ */
+
+import { Comment, DistributiveOmit, Status, Task } from '@/types';
+
+export type HistoryEntry = { id: string; createdAt: string } & (
+  | { kind: 'updateTask'; taskId: string; title: string; before: Partial<Task>; after: Partial<Task> }
+  | { kind: 'updateTaskStatus'; taskId: string; title: string; before: Status; after: Status }
+  // Deletes move records to the trash, so undoing one only takes it back out
+  | { kind: 'deleteTask'; taskId: string; title: string }
+  | { kind: 'deleteProject'; projectId: string; title: string }
+  | { kind: 'addComment'; comment: Comment }
+);
+
+export type HistoryInput = DistributiveOmit<HistoryEntry, 'id' | 'createdAt'>;
+
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Short description used in toasts, e.g. "Move "Fix login" to Done". Status
+ * labels depend on the task's project, so the caller looks them up.
+ */
+export function describeHistoryEntry(
+  entry: HistoryInput,
+  statusLabel: (taskId: string, status: Status) => string
+): string {
+  switch (entry.kind) {
+    case 'updateTask':
+      return entry.after.status
+        ? `Move "${entry.title}" to ${statusLabel(entry.taskId, entry.after.status)}`
+        : `Edit "${entry.title}"`;
+    case 'updateTaskStatus':
+      return `Move "${entry.title}" to ${statusLabel(entry.taskId, entry.after)}`;
+    case 'deleteTask':
+      return `Delete "${entry.title}"`;
+    case 'deleteProject':
+      return `Delete project "${entry.title}"`;
+    case 'addComment':
+      return 'Add comment';
+  }
+}
+
+/**
+ * The previous values of exactly the keys being changed. Keys without a value
+ * are kept as undefined so undoing clears them again.
+ */
+export function previousValues(task: Task, updates: Partial<Task>): Partial<Task> {
+  return Object.fromEntries(
+    Object.keys(updates).map(key => [key, task[key as keyof Task]])
+  ) as Partial<Task>;
+}
+
+const sameValue = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * True when every given field of the task still has the expected value.
+ */
+export function hasValues(task: Task, values: Partial<Task>): boolean {
+  return Object.keys(values).every(key =>
+    sameValue(task[key as keyof Task], values[key as keyof Task])
+  );
+}
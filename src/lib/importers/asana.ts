@@ -0,0 +1,95 @@
+/**
+ * Asana importer
+ * Reads the JSON produced by Asana's "Export > JSON" (a { data: [...] } list of tasks).
+ * Sections become statuses; completed tasks without a section are treated as done.
+ */
+
+import { ExternalBoard, ExternalCard, ExternalPerson } from './types';
+
+interface AsanaUser {
+  name?: string;
+  email?: string;
+}
+
+interface AsanaTask {
+  gid?: string;
+  id?: string | number;
+  name: string;
+  notes?: string;
+  completed?: boolean;
+  due_on?: string | null;
+  due_at?: string | null;
+  created_at?: string;
+  assignee?: AsanaUser | null;
+  followers?: AsanaUser[];
+  tags?: { name: string }[];
+  memberships?: { project?: { name?: string }; section?: { name?: string } }[];
+  projects?: { name?: string }[];
+  stories?: { type?: string; resource_subtype?: string; text?: string; created_at?: string; created_by?: AsanaUser }[];
+  subtasks?: AsanaTask[];
+  custom_fields?: { name?: string; display_value?: string | null; enum_value?: { name?: string } | null }[];
+}
+
+export const ASANA_COMPLETED = 'Completed';
+const ASANA_NO_SECTION = 'No section';
+
+export function isAsanaExport(json: unknown): boolean {
+  const data = (json as { data?: unknown })?.data;
+  return Array.isArray(data) && data.every(t => typeof (t as AsanaTask)?.name === 'string');
+}
+
+const person = (user?: AsanaUser | null): ExternalPerson | undefined =>
+  user?.name || user?.email ? { name: user.name || user.email!, email: user.email } : undefined;
+
+export function parseAsana(json: unknown): ExternalBoard {
+  if (!isAsanaExport(json)) {
+    throw new Error('This is not an Asana JSON export');
+  }
+  const tasks = (json as { data: AsanaTask[] }).data;
+  const statusNames: string[] = [];
+  let projectName = '';
+
+  const cards: ExternalCard[] = tasks.map((task, index) => {
+    const membership = task.memberships?.[0];
+    projectName ||= membership?.project?.name || task.projects?.[0]?.name || '';
+
+    const section = membership?.section?.name;
+    const statusName = task.completed ? ASANA_COMPLETED : section || ASANA_NO_SECTION;
+    if (!statusNames.includes(statusName)) statusNames.push(statusName);
+
+    const priority = task.custom_fields?.find(f => /priority/i.test(f.name ?? ''));
+    const subtasks = (task.subtasks ?? []).map(s => `- [${s.completed ? 'x' : ' '}] ${s.name}`);
+
+    return {
+      sourceId: String(task.gid ?? task.id ?? index),
+      title: task.name || 'Untitled task',
+      description: task.notes ?? '',
+      statusName,
+      priorityName: priority?.enum_value?.name ?? priority?.display_value ?? undefined,
+      dueDate: task.due_on ?? task.due_at ?? undefined,
+      labels: (task.tags ?? []).map(tag => tag.name),
+      assignees: [person(task.assignee)].filter((p): p is ExternalPerson => !!p),
+      comments: (task.stories ?? [])
+        .filter(story => (story.resource_subtype ?? story.type) === 'comment_added' || story.type === 'comment')
+        .map(story => ({ author: person(story.created_by), text: story.text ?? '', createdAt: story.created_at }))
+        .filter(comment => comment.text),
+      createdAt: task.created_at,
+      extraNotes: subtasks.length > 0 ? ['Subtasks:', ...subtasks].join('\n') : undefined,
+    };
+  });
+
+  // Completed work reads best at the end of the board
+  const ordered = [
+    ...statusNames.filter(name => name !== ASANA_COMPLETED),
+    ...statusNames.filter(name => name === ASANA_COMPLETED),
+  ];
+
+  return {
+    source: 'asana',
+    name: projectName || 'Asana project',
+    description: '',
+    statusNames: ordered,
+    cards,
+    warnings: [],
+  };
+}
@@ -0,0 +1,200 @@
+/**
+ * External project importers
+ * Detects which tool an export file came from, parses it with the matching
+ * importer and plans the project, tasks and comments it would create.
+ * Planning is side-effect free so the result can be shown as a dry run first.
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import { Project, Task, Comment, TeamMember, Status, Priority } from '@/types';
+import { generateId } from '@/data/mockData';
+import { DEFAULT_WORKFLOW } from '@/lib/workflow';
+import { ExternalBoard, ExternalPerson, ImportSource } from './types';
+import { isTrelloExport, parseTrello } from './trello';
+import { isJiraCsv, isJiraXml, parseJiraCsv, parseJiraXml } from './jira';
+import { isAsanaExport, parseAsana } from './asana';
+
+export type { ExternalBoard, ImportSource } from './types';
+
+export const SOURCE_LABELS: Record<ImportSource, string> = {
+  trello: 'Trello',
+  jira: 'Jira',
+  asana: 'Asana',
+};
+
+const SOURCE_COLORS: Record<ImportSource, string> = {
+  trello: '#0891B2',
+  jira: '#4338CA',
+  asana: '#DB2777',
+};
+
+/**
+ * Parses an export file from any supported tool.
+ */
+export function parseExportFile(fileName: string, text: string): ExternalBoard {
+  const trimmed = text.trimStart();
+
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) {
+    let json: unknown;
+    try {
+      json = JSON.parse(trimmed);
+    } catch {
+      throw new Error('The file is not valid JSON');
+    }
+    if (isTrelloExport(json)) return parseTrello(json);
+    if (isAsanaExport(json)) return parseAsana(json);
+    throw new Error('Unrecognised JSON export. Use a Trello board or Asana project export.');
+  }
+
+  if (trimmed.startsWith('<')) {
+    if (isJiraXml(trimmed)) return parseJiraXml(trimmed);
+    throw new Error('Unrecognised XML export. Use a Jira issue search exported as XML.');
+  }
+
+  if (/\.csv$/i.test(fileName) || isJiraCsv(text)) {
+    if (isJiraCsv(text)) return parseJiraCsv(text);
+    throw new Error('Unrecognised CSV export. Use a Jira CSV export, or Import from CSV inside a project.');
+  }
+
+  throw new Error('Unsupported file. Upload a Trello JSON, Jira CSV/XML or Asana JSON export.');
+}
+
+// Checked in order; the first pattern that matches a list or status name wins
+const STATUS_PATTERNS: [RegExp, Status][] = [
+  [/done|complete|closed|resolved|finished|shipped|released/i, 'done'],
+  [/block|on hold|waiting|impediment/i, 'blocked'],
+  [/review|qa|test|verif|approval/i, 'review'],
+  [/progress|doing|active|started|develop|working/i, 'in-progress'],
+  [/backlog|icebox|someday|later|ideas/i, 'backlog'],
+  [/to ?do|open|new|selected|planned|ready|not started|next/i, 'todo'],
+];
+
+/**
+ * Suggests one of our statuses for an external list or workflow status.
+ * Imported projects start with the default workflow.
+ */
+export function guessStatus(name: string): Status {
+  return STATUS_PATTERNS.find(([pattern]) => pattern.test(name))?.[1] ?? 'todo';
+}
+
+export function guessPriority(name?: string): Priority {
+  if (!name) return 'medium';
+  if (/highest|critical|blocker|urgent/i.test(name)) return 'urgent';
+  if (/high|major/i.test(name)) return 'high';
+  if (/low|minor|trivial/i.test(name)) return 'low';
+  return 'medium';
+}
+
+export function defaultStatusMapping(board: ExternalBoard): Record<string, Status> {
+  return Object.fromEntries(board.statusNames.map(name => [name, guessStatus(name)]));
+}
+
+export interface ProjectImportPlan {
+  project: Project;
+  tasks: Task[];
+  comments: Comment[];
+  matchedPeople: { name: string; member: TeamMember }[];
+  unmatchedPeople: string[];
+  // Number of tasks landing in each of our statuses
+  statusCounts: Record<Status, number>;
+  warnings: string[];
+}
+
+const toDay = (value?: string) => {
+  if (!value) return undefined;
+  const date = parseISO(value);
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : undefined;
+};
+
+/**
+ * Builds the records an import would create. Members are matched by email
+ * first and by name second; comments from unknown people keep their name in the text.
+ */
+export function planProjectImport(
+  board: ExternalBoard,
+  teamMembers: TeamMember[],
+  statusMapping: Record<string, Status>
+): ProjectImportPlan {
+  const now = new Date().toISOString();
+  const matched = new Map<string, TeamMember>();
+  const unmatched = new Set<string>();
+
+  const findMember = (person?: ExternalPerson) => {
+    if (!person) return undefined;
+    const email = person.email?.toLowerCase();
+    const name = person.name.toLowerCase();
+    const member =
+      (email && teamMembers.find(m => m.email.toLowerCase() === email)) ||
+      teamMembers.find(m => m.name.toLowerCase() === name);
+    if (member) matched.set(person.name, member);
+    else unmatched.add(person.name);
+    return member;
+  };
+
+  const projectId = generateId('proj');
+  const statusCounts = Object.fromEntries(DEFAULT_WORKFLOW.map(s => [s.id, 0])) as Record<Status, number>;
+  const tasks: Task[] = [];
+  const comments: Comment[] = [];
+
+  for (const card of board.cards) {
+    const status = statusMapping[card.statusName] ?? guessStatus(card.statusName);
+    statusCounts[status]++;
+
+    const taskId = generateId('task');
+    const createdAt = card.createdAt ?? now;
+    const assigneeIds = card.assignees
+      .map(findMember)
+      .filter((m): m is TeamMember => !!m)
+      .map(m => m.id);
+
+    tasks.push({
+      id: taskId,
+      projectId,
+      title: card.title,
+      description: [card.description, card.extraNotes].filter(Boolean).join('\n\n'),
+      type: 'general',
+      priority: guessPriority(card.priorityName),
+      status,
+      assigneeIds: [...new Set(assigneeIds)],
+      dueDate: toDay(card.dueDate),
+      tags: card.labels,
+      createdAt,
+      updatedAt: now,
+    });
+
+    for (const comment of card.comments) {
+      const author = findMember(comment.author);
+      comments.push({
+        id: generateId('com'),
+        taskId,
+        authorId: author?.id ?? '',
+        content: author || !comment.author ? comment.text : `${comment.author.name}: ${comment.text}`,
+        createdAt: comment.createdAt ?? now,
+      });
+    }
+  }
+
+  const startDates = tasks.map(t => t.createdAt).sort();
+  const dueDates = tasks.map(t => t.dueDate).filter(Boolean).sort() as string[];
+
+  return {
+    project: {
+      id: projectId,
+      title: board.name,
+      description: board.description || `Imported from ${SOURCE_LABELS[board.source]}`,
+      teamMemberIds: [...new Set([...matched.values()].map(m => m.id))],
+      startDate: toDay(startDates[0]) ?? format(new Date(), 'yyyy-MM-dd'),
+      endDate: dueDates[dueDates.length - 1],
+      status: 'active',
+      color: SOURCE_COLORS[board.source],
+      createdAt: now,
+      updatedAt: now,
+    },
+    tasks,
+    comments,
+    matchedPeople: [...matched.entries()].map(([name, member]) => ({ name, member })),
+    unmatchedPeople: [...unmatched],
+    statusCounts,
+    warnings: board.warnings,
+  };
+}
@@ -0,0 +1,159 @@
+/**
+ * Jira importer
+ * Reads issue searches exported from Jira as CSV ("Export > CSV (all fields)")
+ * or as XML ("Export > XML"). Workflow statuses become our statuses; the issue
+ * key is kept in the description so tasks can be traced back to Jira.
+ */
+
+import { isValid, parse } from 'date-fns';
+import { parseCsv } from '@/lib/csv';
+import { ExternalBoard, ExternalCard, ExternalComment } from './types';
+
+// Jira CSV timestamps look like "07/Mar/24 10:12 AM"
+const JIRA_DATE_FORMATS = ['dd/MMM/yy h:mm a', 'dd/MMM/yyyy h:mm a', 'yyyy-MM-dd HH:mm', 'yyyy-MM-dd'];
+
+function parseJiraDate(value?: string | null): string | undefined {
+  const trimmed = value?.trim();
+  if (!trimmed) return undefined;
+  for (const pattern of JIRA_DATE_FORMATS) {
+    const date = parse(trimmed, pattern, new Date());
+    if (isValid(date)) return date.toISOString();
+  }
+  // XML exports use RFC 2822 dates, which Date understands
+  const date = new Date(trimmed);
+  return isValid(date) ? date.toISOString() : undefined;
+}
+
+const htmlToText = (html: string) => {
+  const doc = new DOMParser().parseFromString(html, 'text/html');
+  return (doc.body.textContent ?? '').trim();
+};
+
+function finishBoard(name: string, cards: ExternalCard[], statusNames: string[], warnings: string[]): ExternalBoard {
+  return {
+    source: 'jira',
+    name: name || 'Jira project',
+    description: '',
+    statusNames,
+    cards,
+    warnings,
+  };
+}
+
+// ---------- CSV ----------
+
+export function isJiraCsv(text: string): boolean {
+  const header = text.slice(0, 4000).split(/\r?\n/)[0] ?? '';
+  return /(^|[,;\t])"?Summary"?([,;\t]|$)/.test(header) && /Issue key/i.test(header);
+}
+
+export function parseJiraCsv(text: string): ExternalBoard {
+  const [header, ...rows] = parseCsv(text);
+  if (!header || !isJiraCsv(text)) {
+    throw new Error('This is not a Jira CSV export');
+  }
+
+  // Jira repeats columns such as Labels and Comment once per value
+  const columns = (name: string) =>
+    header.reduce<number[]>((acc, h, i) => (h.trim().toLowerCase() === name.toLowerCase() ? [...acc, i] : acc), []);
+  const first = (row: string[], name: string) => {
+    const index = columns(name)[0];
+    return index === undefined ? '' : (row[index] ?? '').trim();
+  };
+  const all = (row: string[], name: string) =>
+    columns(name).map(i => (row[i] ?? '').trim()).filter(Boolean);
+
+  const statusNames: string[] = [];
+  let projectName = '';
+
+  const cards = rows.map((row, index): ExternalCard => {
+    const statusName = first(row, 'Status') || 'To Do';
+    if (!statusNames.includes(statusName)) statusNames.push(statusName);
+    projectName ||= first(row, 'Project name');
+
+    const comments: ExternalComment[] = all(row, 'Comment').map(cell => {
+      // "date;accountId;text" - the text itself may contain semicolons.
+      // The account id is opaque, so the comment is imported without an author.
+      const [date, , ...rest] = cell.split(';');
+      return rest.length > 0
+        ? { text: rest.join(';').trim(), createdAt: parseJiraDate(date) }
+        : { text: cell };
+    });
+
+    const assignee = first(row, 'Assignee');
+    const assigneeEmail = first(row, 'Assignee Email') || first(row, 'Assignee email');
+    const key = first(row, 'Issue key');
+
+    return {
+      sourceId: key || first(row, 'Issue id') || String(index),
+      title: first(row, 'Summary'),
+      description: first(row, 'Description'),
+      statusName,
+      priorityName: first(row, 'Priority') || undefined,
+      dueDate: parseJiraDate(first(row, 'Due date') || first(row, 'Due Date')),
+      labels: all(row, 'Labels'),
+      assignees: assignee ? [{ name: assignee, email: assigneeEmail || undefined }] : [],
+      comments,
+      createdAt: parseJiraDate(first(row, 'Created')),
+      extraNotes: key ? `Jira issue: ${key}` : undefined,
+    };
+  });
+
+  const warnings: string[] = [];
+  if (cards.some(card => card.comments.length > 0)) {
+    warnings.push('Jira CSV exports identify comment authors by account id only, so comments are imported without an author');
+  }
+
+  return finishBoard(projectName, cards.filter(card => card.title), statusNames, warnings);
+}
+
+// ---------- XML ----------
+
+export function isJiraXml(text: string): boolean {
+  return /<rss[\s>]/.test(text.slice(0, 2000)) && /<item[\s>]/.test(text);
+}
+
+export function parseJiraXml(text: string): ExternalBoard {
+  const doc = new DOMParser().parseFromString(text, 'application/xml');
+  if (doc.querySelector('parsererror') || !isJiraXml(text)) {
+    throw new Error('This is not a Jira XML export');
+  }
+
+  const childText = (el: Element, tag: string) => el.getElementsByTagName(tag)[0]?.textContent?.trim() ?? '';
+  const statusNames: string[] = [];
+  let projectName = '';
+
+  const cards = Array.from(doc.getElementsByTagName('item')).map((item, index): ExternalCard => {
+    const statusName = childText(item, 'status') || 'To Do';
+    if (!statusNames.includes(statusName)) statusNames.push(statusName);
+    projectName ||= childText(item, 'project');
+
+    const key = childText(item, 'key');
+    const assigneeEl = item.getElementsByTagName('assignee')[0];
+    const assigneeName = assigneeEl?.textContent?.trim();
+
+    const comments = Array.from(item.getElementsByTagName('comment')).map(comment => ({
+      text: htmlToText(comment.textContent ?? ''),
+      createdAt: parseJiraDate(comment.getAttribute('created')),
+      author: comment.getAttribute('author') ? { name: comment.getAttribute('author')! } : undefined,
+    }));
+
+    return {
+      sourceId: key || String(index),
+      title: childText(item, 'summary') || childText(item, 'title'),
+      description: htmlToText(childText(item, 'description')),
+      statusName,
+      priorityName: childText(item, 'priority') || undefined,
+      dueDate: parseJiraDate(childText(item, 'due')),
+      labels: Array.from(item.getElementsByTagName('label')).map(l => l.textContent?.trim() ?? '').filter(Boolean),
+      assignees: assigneeName && assigneeName !== 'Unassigned'
+        ? [{ name: assigneeName, email: assigneeEl?.getAttribute('email') ?? undefined }]
+        : [],
+      comments: comments.filter(c => c.text),
+      createdAt: parseJiraDate(childText(item, 'created')),
+      extraNotes: key ? `Jira issue: ${key}` : undefined,
+    };
+  });
+
+  return finishBoard(projectName, cards.filter(card => card.title), statusNames, []);
+}
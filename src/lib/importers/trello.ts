@@ -0,0 +1,117 @@
+/**
+ * Trello importer
+ * Reads the board JSON from Trello's "Print and export > Export as JSON".
+ * Lists become statuses; archived lists and cards are left out.
+ */
+
+import { ExternalBoard, ExternalCard, ExternalPerson } from './types';
+
+interface TrelloBoard {
+  name?: string;
+  desc?: string;
+  lists?: { id: string; name: string; closed?: boolean; pos?: number }[];
+  cards?: {
+    id: string;
+    name: string;
+    desc?: string;
+    idList: string;
+    closed?: boolean;
+    due?: string | null;
+    dateLastActivity?: string;
+    labels?: { name?: string; color?: string }[];
+    idMembers?: string[];
+    idChecklists?: string[];
+  }[];
+  members?: { id: string; fullName?: string; username?: string; email?: string }[];
+  checklists?: { id: string; name: string; checkItems?: { name: string; state: string }[] }[];
+  actions?: {
+    type: string;
+    date?: string;
+    data?: { text?: string; card?: { id: string } };
+    memberCreator?: { id?: string; fullName?: string; username?: string };
+  }[];
+}
+
+export function isTrelloExport(json: unknown): boolean {
+  const board = json as TrelloBoard;
+  return !!board && Array.isArray(board.lists) && Array.isArray(board.cards);
+}
+
+export function parseTrello(json: unknown): ExternalBoard {
+  if (!isTrelloExport(json)) {
+    throw new Error('This is not a Trello board export');
+  }
+  const board = json as TrelloBoard;
+  const warnings: string[] = [];
+
+  const lists = [...(board.lists ?? [])]
+    .filter(list => !list.closed)
+    .sort((a, b) => (a.pos ?? 0) - (b.pos ?? 0));
+  const listNames = new Map(lists.map(list => [list.id, list.name]));
+
+  const members = new Map<string, ExternalPerson>(
+    (board.members ?? []).map(m => [m.id, { name: m.fullName || m.username || m.id, email: m.email }])
+  );
+  const checklists = new Map((board.checklists ?? []).map(c => [c.id, c]));
+
+  const commentsByCard = new Map<string, ExternalCard['comments']>();
+  for (const action of board.actions ?? []) {
+    const cardId = action.data?.card?.id;
+    if (action.type !== 'commentCard' || !cardId || !action.data?.text) continue;
+    const author = action.memberCreator?.id ? members.get(action.memberCreator.id) : undefined;
+    const list = commentsByCard.get(cardId) ?? [];
+    list.push({
+      author: author ?? (action.memberCreator?.fullName ? { name: action.memberCreator.fullName } : undefined),
+      text: action.data.text,
+      createdAt: action.date,
+    });
+    commentsByCard.set(cardId, list);
+  }
+
+  let archived = 0;
+  const cards: ExternalCard[] = [];
+  for (const card of board.cards ?? []) {
+    const statusName = listNames.get(card.idList);
+    if (card.closed || !statusName) {
+      archived++;
+      continue;
+    }
+
+    const checklistNotes = (card.idChecklists ?? [])
+      .map(id => checklists.get(id))
+      .filter(Boolean)
+      .map(checklist => {
+        const items = checklist!.checkItems ?? [];
+        const lines = items.map(item => `- [${item.state === 'complete' ? 'x' : ' '}] ${item.name}`);
+        return [`${checklist!.name}:`, ...lines].join('\n');
+      });
+
+    cards.push({
+      sourceId: card.id,
+      title: card.name,
+      description: card.desc ?? '',
+      statusName,
+      dueDate: card.due ?? undefined,
+      labels: (card.labels ?? []).map(l => l.name || l.color || '').filter(Boolean),
+      assignees: (card.idMembers ?? []).map(id => members.get(id)).filter((m): m is ExternalPerson => !!m),
+      // Trello lists actions newest first
+      comments: (commentsByCard.get(card.id) ?? []).reverse(),
+      createdAt: card.dateLastActivity,
+      extraNotes: checklistNotes.length > 0 ? checklistNotes.join('\n\n') : undefined,
+    });
+  }
+
+  if (archived > 0) warnings.push(`${archived} archived card(s) were left out`);
+  if ((board.actions ?? []).length >= 1000) {
+    warnings.push('Trello exports include at most 1000 actions, so older comments may be missing');
+  }
+
+  return {
+    source: 'trello',
+    name: board.name || 'Trello board',
+    description: board.desc ?? '',
+    statusNames: lists.map(list => list.name),
+    cards,
+    warnings,
+  };
+}
@@ -0,0 +1,44 @@
+/**
+ * Shapes shared by the external tool importers.
+ * Each importer reduces its export format to an ExternalBoard; the common
+ * planner in ./index then maps that onto our projects, tasks and comments.
+ */
+
+export type ImportSource = 'trello' | 'jira' | 'asana';
+
+export interface ExternalPerson {
+  name: string;
+  email?: string;
+}
+
+export interface ExternalComment {
+  author?: ExternalPerson;
+  text: string;
+  createdAt?: string;
+}
+
+export interface ExternalCard {
+  sourceId: string;
+  title: string;
+  description: string;
+  // Name of the list, column or section the card sits in
+  statusName: string;
+  priorityName?: string;
+  dueDate?: string;
+  labels: string[];
+  assignees: ExternalPerson[];
+  comments: ExternalComment[];
+  createdAt?: string;
+  // Checklist progress, Jira issue key and similar details worth keeping
+  extraNotes?: string;
+}
+
+export interface ExternalBoard {
+  source: ImportSource;
+  name: string;
+  description: string;
+  // Status names in board order
+  statusNames: string[];
+  cards: ExternalCard[];
+  warnings: string[];
+}
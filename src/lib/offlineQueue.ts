@@ -0,0 +1,250 @@
+/**
+ * Offline mutation queue
+ * Records project, task and comment mutations made without a connection in a
+ * durable localStorage queue and replays them against Supabase once the app is
+ * back online. Each task edit remembers the updatedAt it was based on; if the
+ * server copy moved on in the meantime the edit is reported as a conflict
+ * instead of overwriting a teammate's work. Records created offline are queued
+ * too, ahead of any edits to them, and those edits cannot conflict.
+ */
+
+import { Comment, DistributiveOmit, Project, Status, Task } from '@/types';
+import { generateId } from '@/data/mockData';
+import {
+  fetchTask,
+  updateTaskRow,
+  deleteTaskRow,
+  insertComment,
+  deleteCommentRow,
+  insertProject,
+  insertTask,
+  insertWorkspaceRecords,
+} from '@/lib/workspaceApi';
+import { readPersisted, writePersisted } from '@/lib/persistence';
+
+export const QUEUE_KEY = 'waks-offline-queue';
+
+interface QueuedMutationBase {
+  id: string;
+  queuedAt: string;
+}
+
+export type QueuedMutation = QueuedMutationBase & (
+  | { kind: 'addProject'; project: Project }
+  | { kind: 'addTask'; task: Task }
+  | { kind: 'updateTask'; taskId: string; changes: Partial<Task>; baseUpdatedAt: string }
+  | { kind: 'updateTaskStatus'; taskId: string; status: Status; baseUpdatedAt: string }
+  // Deletes now move tasks to the trash through updateTask; this kind is only
+  // replayed from queues recorded before the trash existed
+  | { kind: 'deleteTask'; taskId: string; baseUpdatedAt: string }
+  | { kind: 'addComment'; comment: Comment }
+  | { kind: 'deleteComment'; commentId: string }
+);
+
+export type MutationInput = DistributiveOmit<QueuedMutation, 'id' | 'queuedAt'>;
+
+export interface MutationConflict {
+  id: string;
+  mutation: QueuedMutation;
+  // The task as this client wanted it, or null for a queued delete
+  local: Task | null;
+  // The current server copy, or null if a teammate deleted it
+  remote: Task | null;
+}
+
+export interface ReplayResult {
+  // Tasks written during replay, so local state can adopt the new timestamps
+  applied: { taskId: string; changes: Partial<Task> }[];
+  conflicts: MutationConflict[];
+  // Mutations still waiting because the connection dropped again
+  remaining: QueuedMutation[];
+  // Mutations the server rejected outright; they are dropped from the queue
+  failed: { mutation: QueuedMutation; error: unknown }[];
+}
+
+export function loadQueue(): QueuedMutation[] {
+  return readPersisted<QueuedMutation[]>(QUEUE_KEY, []);
+}
+
+export function saveQueue(queue: QueuedMutation[]) {
+  if (queue.length === 0) {
+    localStorage.removeItem(QUEUE_KEY);
+  } else {
+    writePersisted(QUEUE_KEY, queue);
+  }
+}
+
+export function enqueueMutation(input: MutationInput): QueuedMutation[] {
+  const mutation = {
+    ...input,
+    id: generateId('mut'),
+    queuedAt: new Date().toISOString(),
+  } as QueuedMutation;
+  const queue = [...loadQueue(), mutation];
+  saveQueue(queue);
+  return queue;
+}
+
+// The record a mutation needs to exist on the server first
+const parentId = (mutation: MutationInput): string | undefined => {
+  switch (mutation.kind) {
+    case 'addProject':
+    case 'deleteComment':
+      return undefined;
+    case 'addTask':
+      return mutation.task.projectId;
+    case 'addComment':
+      return mutation.comment.taskId;
+    default:
+      return mutation.taskId;
+  }
+};
+
+const createdId = (mutation: MutationInput): string | undefined => {
+  if (mutation.kind === 'addProject') return mutation.project.id;
+  if (mutation.kind === 'addTask') return mutation.task.id;
+  return undefined;
+};
+
+/**
+ * True when the record a mutation touches is still waiting in the queue to be
+ * created, so the mutation has to be queued behind it even while online.
+ */
+export function waitsOnQueuedCreation(queue: QueuedMutation[], mutation: MutationInput): boolean {
+  const id = parentId(mutation);
+  return !!id && queue.some(queued => createdId(queued) === id);
+}
+
+/**
+ * Runs the callback while holding a lock shared by every open tab, so a queue is
+ * never replayed twice. Falls back to running directly where Web Locks are missing.
+ */
+export function withQueueLock(callback: () => Promise<void>): Promise<void> {
+  if (typeof navigator !== 'undefined' && navigator.locks) {
+    return navigator.locks.request(QUEUE_KEY, callback);
+  }
+  return callback();
+}
+
+/**
+ * True for failures caused by the connection rather than by the server
+ */
+export function isNetworkError(error: unknown): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const message = error instanceof Error
+    ? error.message
+    : (error as { message?: string })?.message ?? '';
+  return /failed to fetch|network|load failed|fetch failed/i.test(message);
+}
+
+/**
+ * Sends a mutation to Supabase
+ */
+export async function applyMutation(mutation: MutationInput, userId: string, updatedAt: string) {
+  switch (mutation.kind) {
+    case 'addProject':
+      return insertProject(mutation.project, userId);
+    case 'addTask':
+      return insertTask(mutation.task, userId);
+    case 'updateTask':
+      return updateTaskRow(mutation.taskId, { ...mutation.changes, updatedAt });
+    case 'updateTaskStatus':
+      return updateTaskRow(mutation.taskId, { status: mutation.status, updatedAt });
+    case 'deleteTask':
+      return deleteTaskRow(mutation.taskId);
+    case 'addComment':
+      return insertComment(mutation.comment, userId);
+    case 'deleteComment':
+      return deleteCommentRow(mutation.commentId);
+  }
+}
+
+const mutationChanges = (mutation: QueuedMutation): Partial<Task> => {
+  if (mutation.kind === 'updateTask') return mutation.changes;
+  if (mutation.kind === 'updateTaskStatus') return { status: mutation.status };
+  return {};
+};
+
+/**
+ * Replays queued mutations in order.
+ * Stops early if the connection drops, leaving the rest queued.
+ */
+export async function replayQueue(queue: QueuedMutation[], userId: string): Promise<ReplayResult> {
+  const result: ReplayResult = { applied: [], conflicts: [], remaining: [], failed: [] };
+  // updatedAt values written by this replay, so later mutations on the same task don't self-conflict
+  const writtenAt = new Map<string, string>();
+  // Tasks created by this replay; nobody else can have edited them yet
+  const created = new Set<string>();
+
+  for (let i = 0; i < queue.length; i++) {
+    const mutation = queue[i];
+    try {
+      // A creation may already have reached the server before the connection
+      // dropped, so rows that exist are skipped rather than failing
+      if (mutation.kind === 'addProject' || mutation.kind === 'addTask') {
+        await insertWorkspaceRecords({
+          projects: mutation.kind === 'addProject' ? [mutation.project] : [],
+          tasks: mutation.kind === 'addTask' ? [mutation.task] : [],
+          comments: [],
+          notifications: [],
+        }, userId);
+        if (mutation.kind === 'addTask') created.add(mutation.task.id);
+        continue;
+      }
+
+      if (mutation.kind === 'addComment') {
+        const task = await fetchTask(mutation.comment.taskId);
+        if (!task) {
+          result.conflicts.push({ id: mutation.id, mutation, local: null, remote: null });
+          continue;
+        }
+        await applyMutation(mutation, userId, new Date().toISOString());
+        continue;
+      }
+
+      // Removing a comment cannot clash with a teammate's edit
+      if (mutation.kind === 'deleteComment') {
+        await applyMutation(mutation, userId, new Date().toISOString());
+        continue;
+      }
+
+      const remote = await fetchTask(mutation.taskId);
+      const baseUpdatedAt = writtenAt.get(mutation.taskId) ?? mutation.baseUpdatedAt;
+
+      if (!remote) {
+        // Deleting something that is already gone is not a conflict
+        if (mutation.kind !== 'deleteTask') {
+          result.conflicts.push({ id: mutation.id, mutation, local: null, remote: null });
+        }
+        continue;
+      }
+
+      const remoteChanged = !created.has(mutation.taskId)
+        && new Date(remote.updatedAt).getTime() > new Date(baseUpdatedAt).getTime();
+      if (remoteChanged) {
+        result.conflicts.push({
+          id: mutation.id,
+          mutation,
+          local: mutation.kind === 'deleteTask' ? null : { ...remote, ...mutationChanges(mutation) },
+          remote,
+        });
+        continue;
+      }
+
+      const updatedAt = new Date().toISOString();
+      await applyMutation(mutation, userId, updatedAt);
+      writtenAt.set(mutation.taskId, updatedAt);
+      if (mutation.kind !== 'deleteTask') {
+        result.applied.push({ taskId: mutation.taskId, changes: { ...mutationChanges(mutation), updatedAt } });
+      }
+    } catch (error) {
+      if (isNetworkError(error)) {
+        result.remaining = queue.slice(i);
+        break;
+      }
+      result.failed.push({ mutation, error });
+    }
+  }
+
+  return result;
+}
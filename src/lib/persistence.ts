@@ -0,0 +1,159 @@
+/**
+ * Versioned local persistence
+ * Everything the app keeps under waks-* keys is stored in an envelope that
+ * records the schema version it was written with. On load, older payloads are
+ * upgraded step by step through MIGRATIONS, and payloads that cannot be parsed
+ * or migrated are moved aside to a quarantine key instead of breaking startup.
+ * So are payloads from a newer build, which this one would otherwise save back
+ * under its own version and lose whatever it doesn't know about.
+ */
+
+import { logError } from '@/lib/errorHandler';
+
+/**
+ * Bump this whenever a persisted shape changes and add a matching migration.
+ */
+export const SCHEMA_VERSION = 1;
+
+const QUARANTINE_PREFIX = 'waks-quarantine-';
+
+export interface PersistedEnvelope<T> {
+  version: number;
+  savedAt: string;
+  data: T;
+}
+
+// Receives the payload stored under `key` at version N and returns it at version N + 1
+type Migration = (key: string, data: unknown) => unknown;
+
+type LooseRecord = Record<string, unknown>;
+
+const mapRecords = (data: unknown, fn: (record: LooseRecord) => LooseRecord) =>
+  Array.isArray(data) ? data.map(record => fn(record as LooseRecord)) : data;
+
+const asArray = (value: unknown) => (Array.isArray(value) ? value : []);
+
+/**
+ * MIGRATIONS[n] upgrades a payload from version n to n + 1.
+ * Version 0 is any payload written before the envelope existed.
+ */
+const MIGRATIONS: Record<number, Migration> = {
+  // 0 -> 1: fill in required fields older records were saved without
+  0: (key, data) => {
+    switch (key) {
+      case 'waks-projects':
+        return mapRecords(data, p => ({
+          ...p,
+          description: p.description ?? '',
+          teamMemberIds: asArray(p.teamMemberIds),
+          status: p.status ?? 'active',
+          color: p.color ?? '#4F46E5',
+          updatedAt: p.updatedAt ?? p.createdAt,
+        }));
+      case 'waks-tasks':
+        return mapRecords(data, t => ({
+          ...t,
+          description: t.description ?? '',
+          type: t.type ?? 'general',
+          priority: t.priority ?? 'medium',
+          status: t.status ?? 'todo',
+          assigneeIds: asArray(t.assigneeIds),
+          tags: asArray(t.tags),
+          updatedAt: t.updatedAt ?? t.createdAt,
+        }));
+      case 'waks-notifications':
+        return mapRecords(data, n => ({ ...n, read: n.read ?? false }));
+      default:
+        return data;
+    }
+  },
+};
+
+const isEnvelope = (value: unknown): value is PersistedEnvelope<unknown> =>
+  !!value &&
+  typeof value === 'object' &&
+  !Array.isArray(value) &&
+  typeof (value as PersistedEnvelope<unknown>).version === 'number' &&
+  'data' in value;
+
+/**
+ * Moves an unreadable payload to a quarantine key so it can still be inspected or recovered.
+ */
+function quarantine(key: string, raw: string, reason: unknown) {
+  const quarantineKey = `${QUARANTINE_PREFIX}${key.replace(/^waks-/, '')}-${Date.now()}`;
+  logError(`persistence:${key}`, reason);
+  try {
+    localStorage.setItem(quarantineKey, raw);
+  } catch {
+    // Storage is full; losing the copy is better than failing to start
+  }
+  localStorage.removeItem(key);
+  return quarantineKey;
+}
+
+/**
+ * Upgrades a parsed payload to the current schema version.
+ */
+export function migratePayload(key: string, data: unknown, fromVersion: number): unknown {
+  let current = data;
+  for (let version = fromVersion; version < SCHEMA_VERSION; version++) {
+    const migration = MIGRATIONS[version];
+    if (!migration) {
+      throw new Error(`No migration from schema version ${version}`);
+    }
+    current = migration(key, current);
+  }
+  return current;
+}
+
+/**
+ * Reads and upgrades a persisted payload.
+ * Returns the fallback when nothing is stored or the payload had to be quarantined,
+ * as unreadable, unmigratable and newer-version payloads are.
+ */
+export function readPersisted<T>(
+  key: string,
+  fallback: T,
+  onQuarantine?: (quarantineKey: string) => void
+): T {
+  const raw = localStorage.getItem(key);
+  if (raw === null) return fallback;
+
+  try {
+    const parsed = JSON.parse(raw);
+    const envelope = isEnvelope(parsed)
+      ? parsed
+      : { version: 0, savedAt: '', data: parsed };
+
+    // Written by a newer build, e.g. in another tab; keep it aside rather than guess at a downgrade
+    if (envelope.version > SCHEMA_VERSION) {
+      throw new Error(`Saved with schema version ${envelope.version}, newer than ${SCHEMA_VERSION}`);
+    }
+
+    const data = migratePayload(key, envelope.data, envelope.version);
+    if (Array.isArray(fallback) && !Array.isArray(data)) {
+      throw new Error('Expected a list');
+    }
+    return data as T;
+  } catch (error) {
+    const quarantineKey = quarantine(key, raw, error);
+    onQuarantine?.(quarantineKey);
+    return fallback;
+  }
+}
+
+export function writePersisted<T>(key: string, data: T) {
+  const envelope: PersistedEnvelope<T> = {
+    version: SCHEMA_VERSION,
+    savedAt: new Date().toISOString(),
+    data,
+  };
+  localStorage.setItem(key, JSON.stringify(envelope));
+}
+
+/**
+ * Keys of payloads set aside because they could not be loaded.
+ */
+export function getQuarantinedKeys(): string[] {
+  return Object.keys(localStorage).filter(key => key.startsWith(QUARANTINE_PREFIX));
+}
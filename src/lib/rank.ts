@@ -0,0 +1,114 @@
+/**
+ * Manual task ordering
+ * Tasks carry a rank string and are shown in ascending rank order (plain string
+ * comparison). A new rank can always be generated between two existing ones, so
+ * moving a card only rewrites that card instead of renumbering the whole column.
+ * Ranks never end in the lowest digit, which keeps room below every key.
+ */
+
+import { Task } from '@/types';
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// A key strictly between a and b; b === null means "no upper bound"
+function midpoint(a: string, b: string | null): string {
+  let n = 0;
+  while (b !== null && n < b.length && (a[n] ?? DIGITS[0]) === b[n]) n++;
+  if (n > 0) return b!.slice(0, n) + midpoint(a.slice(n), b!.slice(n));
+
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) return DIGITS[Math.round((digitA + digitB) / 2)];
+  // The first digits are adjacent: shorten b if possible, otherwise go one digit deeper
+  if (b !== null && b.length > 1) return b.slice(0, 1);
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
+
+// Short keys just past either end of a list. Stepping one digit at a time rather
+// than halving keeps keys short when cards are added to the end of a column.
+function increment(key: string): string {
+  if (!key) return DIGITS[1];
+  const index = DIGITS.indexOf(key[0]);
+  if (index < DIGITS.length - 1) return DIGITS[index + 1];
+  return key[0] + increment(key.slice(1));
+}
+
+function decrement(key: string): string {
+  const index = DIGITS.indexOf(key[0]);
+  if (index > 1) return DIGITS[index - 1];
+  if (index === 1) return DIGITS[0] + DIGITS[DIGITS.length - 1];
+  return DIGITS[0] + decrement(key.slice(1));
+}
+
+/**
+ * A rank that sorts after `before` and before `after`. Leave either out for
+ * the start or end of a list.
+ */
+export function rankBetween(before?: string, after?: string): string {
+  if (before !== undefined && after !== undefined) {
+    if (before >= after) throw new Error(`Cannot rank between "${before}" and "${after}"`);
+    return midpoint(before, after);
+  }
+  if (before !== undefined) return increment(before);
+  if (after !== undefined) return decrement(after);
+  return midpoint('', null);
+}
+
+/**
+ * Sort order for tasks. Tasks created before ranks existed have none; they keep
+ * their creation order ahead of ranked tasks until they are first moved.
+ */
+export function compareRank(a: Task, b: Task): number {
+  if (a.rank && b.rank) return a.rank < b.rank ? -1 : a.rank > b.rank ? 1 : 0;
+  if (a.rank) return 1;
+  if (b.rank) return -1;
+  return new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime();
+}
+
+export function sortByRank(tasks: Task[]): Task[] {
+  return [...tasks].sort(compareRank);
+}
+
+/**
+ * New ranks needed to show tasks in the given order. Tasks whose ranks already
+ * increase along the list (the longest such run) keep them; only the others
+ * get a new rank between their kept neighbours.
+ */
+export function rankUpdates(ordered: Task[]): { id: string; rank: string }[] {
+  // Longest increasing subsequence of the existing ranks (patience sorting)
+  const tails: number[] = [];
+  const previous: number[] = new Array(ordered.length).fill(-1);
+  ordered.forEach((task, index) => {
+    if (!task.rank) return;
+    let low = 0;
+    let high = tails.length;
+    while (low < high) {
+      const mid = (low + high) >> 1;
+      if (ordered[tails[mid]].rank! < task.rank) low = mid + 1;
+      else high = mid;
+    }
+    if (low > 0) previous[index] = tails[low - 1];
+    tails[low] = index;
+  });
+
+  const kept = new Set<number>();
+  for (let index = tails.length > 0 ? tails[tails.length - 1] : -1; index !== -1; index = previous[index]) {
+    kept.add(index);
+  }
+
+  const updates: { id: string; rank: string }[] = [];
+  let lastRank: string | undefined;
+  ordered.forEach((task, index) => {
+    if (kept.has(index)) {
+      lastRank = task.rank;
+      return;
+    }
+    let nextKept = index + 1;
+    while (nextKept < ordered.length && !kept.has(nextKept)) nextKept++;
+    const rank = rankBetween(lastRank, ordered[nextKept]?.rank);
+    updates.push({ id: task.id, rank });
+    lastRank = rank;
+  });
+
+  return updates;
+}
@@ -0,0 +1,55 @@
+/**
+ * Realtime merge helpers
+ * Folds row changes pushed by Supabase Realtime into local entity lists
+ * without clobbering edits this client has not finished saving yet.
+ */
+
+interface Mergeable {
+  id: string;
+  updatedAt?: string;
+}
+
+export interface MergeResult<T> {
+  records: T[];
+  // True when the incoming record actually changed local state
+  changed: boolean;
+}
+
+const toTime = (value?: string) => (value ? new Date(value).getTime() : 0);
+
+/**
+ * Inserts or replaces a record received from another client.
+ * Stale or echoed versions (not newer than the local updatedAt) are ignored.
+ * Fields this client is still saving are re-applied on top of the remote
+ * version so an in-flight edit is not lost when a teammate's change lands first.
+ */
+export function mergeRemoteRecord<T extends Mergeable>(
+  records: T[],
+  incoming: T,
+  pendingChanges?: Partial<T>
+): MergeResult<T> {
+  const index = records.findIndex(r => r.id === incoming.id);
+
+  if (index === -1) {
+    return { records: [...records, incoming], changed: true };
+  }
+
+  const local = records[index];
+  if (toTime(incoming.updatedAt) <= toTime(local.updatedAt)) {
+    return { records, changed: false };
+  }
+
+  const next = [...records];
+  next[index] = pendingChanges ? { ...incoming, ...pendingChanges } : incoming;
+  return { records: next, changed: true };
+}
+
+/**
+ * Removes a record deleted by another client.
+ */
+export function removeRemoteRecord<T extends Mergeable>(records: T[], id: string): MergeResult<T> {
+  if (!records.some(r => r.id === id)) {
+    return { records, changed: false };
+  }
+  return { records: records.filter(r => r.id !== id), changed: true };
+}
@@ -0,0 +1,264 @@
+/**
+ * Recurring tasks
+ * A recurrence rule follows the iCalendar RRULE model (RFC 5545): a frequency,
+ * an interval, optional weekdays or a monthly day, and an optional end. The rule
+ * lives on the open instance of a series; completing it creates the next
+ * instance with the rule, and count counts the occurrences left including the
+ * current one.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  addYears,
+  differenceInCalendarWeeks,
+  endOfDay,
+  format,
+  getDaysInMonth,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+} from 'date-fns';
+import { RecurrenceRule, Weekday } from '@/types';
+
+export const WEEKDAYS: Weekday[] = ['MO', 'TU', 'WE', 'TH', 'FR', 'SA', 'SU'];
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday',
+  SU: 'Sunday',
+};
+
+const FREQUENCY_UNITS: Record<RecurrenceRule['frequency'], string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+// Generating occurrences gives up after this many steps, so a rule that can
+// never match (e.g. the 31st in a series that only visits 30-day months) ends
+const MAX_STEPS = 1000;
+
+// date-fns numbers weekdays from Sunday
+const dayIndex = (weekday: Weekday) => (WEEKDAYS.indexOf(weekday) + 1) % 7;
+
+const ordinal = (n: number) => {
+  if (n === -1) return 'last';
+  const suffix = n % 10 === 1 && n !== 11 ? 'st' : n % 10 === 2 && n !== 12 ? 'nd' : n % 10 === 3 && n !== 13 ? 'rd' : 'th';
+  return `${n}${suffix}`;
+};
+
+// The day of a month a monthly rule falls on, or null if the month has none
+function monthlyDay(rule: RecurrenceRule, month: Date, anchor: Date): Date | null {
+  const first = startOfMonth(month);
+  const daysInMonth = getDaysInMonth(first);
+
+  if (rule.nthWeekday) {
+    const { weekday, n } = rule.nthWeekday;
+    const offset = (dayIndex(weekday) - first.getDay() + 7) % 7;
+    const weeks = Math.floor((daysInMonth - 1 - offset) / 7) + 1;
+    const week = n === -1 ? weeks : n;
+    if (week < 1 || week > weeks) return null;
+    return addDays(first, offset + (week - 1) * 7);
+  }
+
+  const day = rule.monthDay ?? anchor.getDate();
+  const date = day < 0 ? daysInMonth + day + 1 : day;
+  // Like RRULE, months without that day are skipped rather than clamped
+  if (date < 1 || date > daysInMonth) return null;
+  return addDays(first, date - 1);
+}
+
+// The first occurrence strictly after `from`, ignoring the rule's end
+function nextDate(rule: RecurrenceRule, from: Date): Date | null {
+  const interval = Math.max(1, rule.interval);
+
+  switch (rule.frequency) {
+    case 'daily':
+      return addDays(from, interval);
+    case 'yearly': {
+      // Like RRULE, years without that day (Feb 29) are skipped rather than clamped
+      for (let step = interval; step <= MAX_STEPS; step += interval) {
+        const month = new Date(from.getFullYear() + step, from.getMonth(), 1);
+        if (from.getDate() <= getDaysInMonth(month)) return addYears(from, step);
+      }
+      return null;
+    }
+    case 'weekly': {
+      if (!rule.weekdays?.length) return addWeeks(from, interval);
+      const days = new Set(rule.weekdays.map(dayIndex));
+      // Weeks start on Monday, as with the RRULE default WKST=MO
+      for (let step = 1; step <= 7 * interval; step++) {
+        const candidate = addDays(from, step);
+        const weeks = differenceInCalendarWeeks(candidate, from, { weekStartsOn: 1 });
+        if (weeks % interval === 0 && days.has(candidate.getDay())) return candidate;
+      }
+      return null;
+    }
+    case 'monthly': {
+      for (let step = 0; step <= MAX_STEPS; step += interval) {
+        const day = monthlyDay(rule, addMonths(startOfMonth(from), step), from);
+        if (day && day > startOfDay(from)) {
+          // Keep the time of day of the original due date
+          day.setHours(from.getHours(), from.getMinutes(), from.getSeconds(), from.getMilliseconds());
+          return day;
+        }
+      }
+      return null;
+    }
+  }
+}
+
+const pastEnd = (rule: RecurrenceRule, date: Date) => {
+  if (!rule.until) return false;
+  const until = parseISO(rule.until);
+  return isValid(until) && date > endOfDay(until);
+};
+
+// Date-only due dates stay date-only, full timestamps stay timestamps
+const formatLike = (original: string, date: Date) =>
+  original.length === 10 ? format(date, 'yyyy-MM-dd') : date.toISOString();
+
+/**
+ * The due date and rule of the instance that follows one due on `dueDate`, or
+ * null when the series has ended. Tasks without a due date repeat from `now`.
+ */
+export function nextInstance(
+  rule: RecurrenceRule,
+  dueDate: string | undefined,
+  now = new Date()
+): { dueDate: string; recurrence: RecurrenceRule } | null {
+  if (rule.count !== undefined && rule.count <= 1) return null;
+  const from = dueDate ? parseISO(dueDate) : now;
+  if (!isValid(from)) return null;
+
+  const next = nextDate(rule, from);
+  if (!next || pastEnd(rule, next)) return null;
+  return {
+    dueDate: formatLike(dueDate ?? format(now, 'yyyy-MM-dd'), next),
+    recurrence: rule.count !== undefined ? { ...rule, count: rule.count - 1 } : rule,
+  };
+}
+
+/**
+ * Occurrences after the one due on `dueDate`, up to and including `rangeEnd`.
+ */
+export function upcomingOccurrences(rule: RecurrenceRule, dueDate: string, rangeEnd: Date): Date[] {
+  const dates: Date[] = [];
+  let from = parseISO(dueDate);
+  if (!isValid(from)) return dates;
+
+  for (let step = 1; step < MAX_STEPS; step++) {
+    if (rule.count !== undefined && step >= rule.count) break;
+    const next = nextDate(rule, from);
+    if (!next || next > rangeEnd || pastEnd(rule, next)) break;
+    dates.push(next);
+    from = next;
+  }
+  return dates;
+}
+
+/**
+ * A short sentence such as "Every 2 weeks on Monday, Thursday until Mar 1, 2027".
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const unit = FREQUENCY_UNITS[rule.frequency];
+  let text = rule.interval > 1 ? `Every ${rule.interval} ${unit}s` : `Every ${unit}`;
+
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    const ordered = WEEKDAYS.filter(day => rule.weekdays!.includes(day));
+    text += ` on ${ordered.map(day => WEEKDAY_LABELS[day]).join(', ')}`;
+  }
+  if (rule.frequency === 'monthly') {
+    if (rule.nthWeekday) {
+      text += ` on the ${ordinal(rule.nthWeekday.n)} ${WEEKDAY_LABELS[rule.nthWeekday.weekday]}`;
+    } else if (rule.monthDay !== undefined) {
+      text += rule.monthDay === -1 ? ' on the last day' : ` on the ${ordinal(rule.monthDay)}`;
+    }
+  }
+
+  if (rule.until) {
+    const until = parseISO(rule.until);
+    if (isValid(until)) text += ` until ${format(until, 'MMM d, yyyy')}`;
+  }
+  if (rule.count !== undefined) {
+    text += rule.count === 1 ? ', last occurrence' : `, ${rule.count} occurrences left`;
+  }
+  return text;
+}
+
+/**
+ * The rule as an RRULE value, e.g. "FREQ=MONTHLY;INTERVAL=1;BYDAY=2TU".
+ */
+export function toRRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.frequency.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval)}`];
+  if (rule.frequency === 'weekly' && rule.weekdays?.length) {
+    parts.push(`BYDAY=${WEEKDAYS.filter(day => rule.weekdays!.includes(day)).join(',')}`);
+  }
+  if (rule.frequency === 'monthly') {
+    if (rule.nthWeekday) parts.push(`BYDAY=${rule.nthWeekday.n}${rule.nthWeekday.weekday}`);
+    else if (rule.monthDay !== undefined) parts.push(`BYMONTHDAY=${rule.monthDay}`);
+  }
+  if (rule.until) parts.push(`UNTIL=${rule.until.slice(0, 10).replace(/-/g, '')}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  return parts.join(';');
+}
+
+/**
+ * Reads an RRULE value (with or without the "RRULE:" prefix). Returns null for
+ * rules this app cannot represent, such as hourly rules or several BYDAY
+ * entries on a monthly rule.
+ */
+export function parseRRule(value: string): RecurrenceRule | null {
+  const fields = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, val] = part.split('=');
+    if (key && val) fields.set(key.toUpperCase(), val.toUpperCase());
+  }
+
+  const frequency = fields.get('FREQ')?.toLowerCase();
+  if (frequency !== 'daily' && frequency !== 'weekly' && frequency !== 'monthly' && frequency !== 'yearly') return null;
+  const interval = fields.has('INTERVAL') ? Number(fields.get('INTERVAL')) : 1;
+  if (!Number.isInteger(interval) || interval < 1) return null;
+  const rule: RecurrenceRule = { frequency, interval };
+
+  const byDay = fields.get('BYDAY')?.split(',');
+  if (byDay && frequency === 'weekly') {
+    if (!byDay.every(day => WEEKDAYS.includes(day as Weekday))) return null;
+    rule.weekdays = byDay as Weekday[];
+  } else if (byDay && frequency === 'monthly') {
+    const match = byDay.length === 1 ? /^([+-]?\d)(MO|TU|WE|TH|FR|SA|SU)$/.exec(byDay[0]) : null;
+    const n = match ? Number(match[1]) : 0;
+    // Only "last" counts from the end of the month
+    if (n === 0 || n < -1) return null;
+    rule.nthWeekday = { n, weekday: match![2] as Weekday };
+  } else if (byDay) {
+    return null;
+  }
+
+  if (fields.has('BYMONTHDAY')) {
+    const day = Number(fields.get('BYMONTHDAY'));
+    if (frequency !== 'monthly' || !Number.isInteger(day) || day === 0 || day < -31 || day > 31) return null;
+    rule.monthDay = day;
+  }
+
+  const until = fields.get('UNTIL');
+  if (until) {
+    const match = /^(\d{4})(\d{2})(\d{2})/.exec(until);
+    if (!match) return null;
+    rule.until = `${match[1]}-${match[2]}-${match[3]}`;
+  }
+  if (fields.has('COUNT')) {
+    const count = Number(fields.get('COUNT'));
+    if (!Number.isInteger(count) || count < 1) return null;
+    rule.count = count;
+  }
+  return rule;
+}
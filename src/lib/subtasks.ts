@@ -0,0 +1,72 @@
+/**
+ * Subtasks and checklists
+ * A subtask is a regular task whose parentId points at another task; checklist
+ * items are lighter steps stored on the task itself. Both count towards the
+ * progress of their task, and a task's progress rolls up into its project's.
+ */
+
+import { Task, WorkflowStatus } from '@/types';
+import { isDoneStatus } from '@/lib/workflow';
+
+export interface TaskProgress {
+  done: number;
+  total: number;
+}
+
+export function getSubtasks(tasks: Task[], parentId: string): Task[] {
+  return tasks.filter(t => t.parentId === parentId);
+}
+
+/**
+ * Finished steps of a task: its direct subtasks plus its checklist items.
+ */
+export function taskProgress(task: Task, tasks: Task[], workflow: WorkflowStatus[]): TaskProgress {
+  const subtasks = getSubtasks(tasks, task.id);
+  const checklist = task.checklist ?? [];
+  return {
+    done: subtasks.filter(t => isDoneStatus(workflow, t.status)).length + checklist.filter(item => item.done).length,
+    total: subtasks.length + checklist.length,
+  };
+}
+
+/**
+ * How far along a task is, from 0 to 1. A done task counts as complete; otherwise
+ * each subtask (weighted by its own completion) and checklist item is one step.
+ */
+export function taskCompletion(
+  task: Task,
+  tasks: Task[],
+  workflow: WorkflowStatus[],
+  visited = new Set<string>()
+): number {
+  if (isDoneStatus(workflow, task.status)) return 1;
+  // Guards against a parent chain that loops back on itself
+  if (visited.has(task.id)) return 0;
+  visited.add(task.id);
+
+  const subtasks = getSubtasks(tasks, task.id);
+  const checklist = task.checklist ?? [];
+  const steps = subtasks.length + checklist.length;
+  if (steps === 0) return 0;
+
+  const subtaskCompletion = subtasks.reduce((sum, t) => sum + taskCompletion(t, tasks, workflow, visited), 0);
+  return (subtaskCompletion + checklist.filter(item => item.done).length) / steps;
+}
+
+/**
+ * Tasks that are not a subtask of another task in the list.
+ */
+export function topLevelTasks(tasks: Task[]): Task[] {
+  const ids = new Set(tasks.map(t => t.id));
+  return tasks.filter(t => !t.parentId || !ids.has(t.parentId));
+}
+
+/**
+ * Project progress from 0 to 1: the average completion of its top-level tasks,
+ * so partly finished subtasks and checklists move the bar too.
+ */
+export function projectCompletion(tasks: Task[], workflow: WorkflowStatus[]): number {
+  const roots = topLevelTasks(tasks);
+  if (roots.length === 0) return 0;
+  return roots.reduce((sum, t) => sum + taskCompletion(t, tasks, workflow), 0) / roots.length;
+}
@@ -0,0 +1,184 @@
+/**
+ * Kanban swimlanes
+ * Splits a board into horizontal lanes by assignee, priority, type, tag or a
+ * custom field. Fields that hold several values (assignees, tags, multi-select
+ * fields) put a task in the lane of each value. Dragging a card to another lane
+ * swaps the value of the lane it came from for the one it lands in, e.g. it
+ * hands the task from one assignee to another.
+ */
+
+import {
+  CustomFieldDefinition,
+  CustomFieldValue,
+  Priority,
+  Task,
+  TaskType,
+  TeamMember,
+  PRIORITY_LABELS,
+  TYPE_LABELS,
+} from '@/types';
+import { formatCustomValue, isEmptyCustomValue, withCustomValue } from '@/lib/customFields';
+
+export type LaneGrouping = 'none' | 'assignee' | 'priority' | 'type' | 'tag' | `field:${string}`;
+
+export interface Swimlane {
+  // Value the lane stands for, or NO_VALUE_LANE
+  key: string;
+  label: string;
+  tasks: Task[];
+}
+
+// Lane of tasks without a value, e.g. unassigned tasks
+export const NO_VALUE_LANE = '__none';
+
+const PRIORITY_ORDER: Priority[] = ['urgent', 'high', 'medium', 'low'];
+
+export interface LaneContext {
+  teamMembers: TeamMember[];
+  // The project's members get a lane even while they hold no tasks
+  projectMemberIds: string[];
+  fields: CustomFieldDefinition[];
+}
+
+export function laneGroupingOptions(fields: CustomFieldDefinition[]): { value: LaneGrouping; label: string }[] {
+  return [
+    { value: 'none', label: 'No swimlanes' },
+    { value: 'assignee', label: 'Assignee' },
+    { value: 'priority', label: 'Priority' },
+    { value: 'type', label: 'Type' },
+    { value: 'tag', label: 'Tag' },
+    ...fields.map(field => ({ value: `field:${field.id}` as LaneGrouping, label: field.name })),
+  ];
+}
+
+const groupingField = (grouping: LaneGrouping, fields: CustomFieldDefinition[]) =>
+  grouping.startsWith('field:') ? fields.find(f => `field:${f.id}` === grouping) : undefined;
+
+// Lane keys of one task; an empty list puts it in the no-value lane
+function laneKeys(task: Task, grouping: LaneGrouping, field: CustomFieldDefinition | undefined): string[] {
+  switch (grouping) {
+    case 'assignee':
+      return task.assigneeIds;
+    case 'priority':
+      return [task.priority];
+    case 'type':
+      return [task.type];
+    case 'tag':
+      return task.tags;
+    default: {
+      const value = field ? task.customFieldValues?.[field.id] : undefined;
+      if (isEmptyCustomValue(value) || value === false) return [];
+      return Array.isArray(value) ? value : [String(value)];
+    }
+  }
+}
+
+/**
+ * The lanes for a board, each with its tasks in the order given. Returns a
+ * single lane of every task when not grouping (or grouping by a field the
+ * project no longer has).
+ */
+export function buildSwimlanes(tasks: Task[], grouping: LaneGrouping, context: LaneContext): Swimlane[] {
+  const field = groupingField(grouping, context.fields);
+  if (grouping === 'none' || (grouping.startsWith('field:') && !field)) {
+    return [{ key: NO_VALUE_LANE, label: '', tasks }];
+  }
+
+  const memberName = (id: string) => context.teamMembers.find(m => m.id === id)?.name ?? 'Former member';
+  const used = [...new Set(tasks.flatMap(t => laneKeys(t, grouping, field)))];
+  let lanes: { key: string; label: string }[];
+  let noValueLabel = 'None';
+
+  switch (grouping) {
+    case 'assignee': {
+      const ids = [...new Set([...context.projectMemberIds, ...used])];
+      lanes = ids.map(id => ({ key: id, label: memberName(id) })).sort((a, b) => a.label.localeCompare(b.label));
+      noValueLabel = 'Unassigned';
+      break;
+    }
+    case 'priority':
+      lanes = PRIORITY_ORDER.map(p => ({ key: p, label: PRIORITY_LABELS[p] }));
+      break;
+    case 'type':
+      lanes = (Object.keys(TYPE_LABELS) as TaskType[]).map(t => ({ key: t, label: TYPE_LABELS[t] }));
+      break;
+    case 'tag':
+      lanes = used.sort((a, b) => a.localeCompare(b)).map(tag => ({ key: tag, label: tag }));
+      noValueLabel = 'No tag';
+      break;
+    default: {
+      if (field.type === 'checkbox') {
+        lanes = [{ key: 'true', label: field.name }];
+      } else if (field.type === 'select' || field.type === 'multi-select') {
+        // Options removed from the field keep a lane while tasks still hold them
+        const keys = [...new Set([...(field.options ?? []), ...used])];
+        lanes = keys.map(key => ({ key, label: key }));
+      } else {
+        lanes = used
+          .map(key => ({ key, label: formatCustomValue(field, key, context.teamMembers) }))
+          .sort((a, b) => a.label.localeCompare(b.label, undefined, { numeric: true }));
+      }
+      noValueLabel = `No ${field.name}`;
+    }
+  }
+
+  const result: Swimlane[] = lanes.map(lane => ({
+    ...lane,
+    tasks: tasks.filter(t => laneKeys(t, grouping, field).includes(lane.key)),
+  }));
+  // Priority and type always have a value
+  if (grouping !== 'priority' && grouping !== 'type') {
+    result.push({
+      key: NO_VALUE_LANE,
+      label: noValueLabel,
+      tasks: tasks.filter(t => laneKeys(t, grouping, field).length === 0),
+    });
+  }
+  return result;
+}
+
+// Swaps one value of a multi-valued field for another
+const swapValue = (values: string[], from: string, to: string) => {
+  const kept = values.filter(v => v !== from);
+  return to === NO_VALUE_LANE || kept.includes(to) ? kept : [...kept, to];
+};
+
+/**
+ * The task changes that move it from one lane to another.
+ */
+export function laneUpdates(
+  task: Task,
+  grouping: LaneGrouping,
+  from: string,
+  to: string,
+  fields: CustomFieldDefinition[]
+): Partial<Task> {
+  switch (grouping) {
+    case 'none':
+      return {};
+    case 'assignee':
+      return { assigneeIds: swapValue(task.assigneeIds, from, to) };
+    case 'priority':
+      return { priority: to as Priority };
+    case 'type':
+      return { type: to as TaskType };
+    case 'tag':
+      return { tags: swapValue(task.tags, from, to) };
+    default: {
+      const field = groupingField(grouping, fields);
+      if (!field) return {};
+      const current = task.customFieldValues?.[field.id];
+      let value: CustomFieldValue | undefined;
+      if (field.type === 'multi-select') {
+        value = swapValue(Array.isArray(current) ? current : [], from, to);
+      } else if (to === NO_VALUE_LANE) {
+        value = undefined;
+      } else if (field.type === 'checkbox') {
+        value = true;
+      } else {
+        value = field.type === 'number' ? Number(to) : to;
+      }
+      return { customFieldValues: withCustomValue(task.customFieldValues, field.id, value) };
+    }
+  }
+}
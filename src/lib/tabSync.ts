@@ -0,0 +1,121 @@
+/**
+ * Cross-tab synchronization
+ * Every open tab shares the same localStorage cache. Writes go through a
+ * read-merge-write so one tab never replaces another tab's newer records with
+ * a stale array, and deletions are recorded as tombstones so a record removed
+ * in one tab cannot be resurrected by a tab that still holds it in memory.
+ */
+
+import { readPersisted, writePersisted } from '@/lib/persistence';
+
+export const TOMBSTONES_KEY = 'waks-tombstones';
+
+// Tombstones only need to outlive the tabs that might still hold the record
+const TOMBSTONE_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Record id -> deletion time
+export type Tombstones = Record<string, string>;
+
+interface SyncedRecord {
+  id: string;
+  updatedAt?: string;
+}
+
+const toTime = (value?: string) => (value ? new Date(value).getTime() : 0);
+
+export function loadTombstones(): Tombstones {
+  return readPersisted<Tombstones>(TOMBSTONES_KEY, {});
+}
+
+function saveTombstones(tombstones: Tombstones) {
+  const cutoff = Date.now() - TOMBSTONE_TTL_MS;
+  const live = Object.fromEntries(
+    Object.entries(tombstones).filter(([, deletedAt]) => toTime(deletedAt) > cutoff)
+  );
+  writePersisted(TOMBSTONES_KEY, live);
+  return live;
+}
+
+/**
+ * Marks records as deleted for every tab. Returns the current tombstones.
+ */
+export function addTombstones(ids: string[]): Tombstones {
+  const tombstones = loadTombstones();
+  const fresh = ids.filter(id => !tombstones[id]);
+  if (fresh.length === 0) return tombstones;
+
+  const now = new Date().toISOString();
+  fresh.forEach(id => { tombstones[id] = now; });
+  return saveTombstones(tombstones);
+}
+
+/**
+ * Lifts tombstones for records that are deliberately brought back (e.g. a restore).
+ */
+export function clearTombstones(ids: string[]) {
+  const tombstones = loadTombstones();
+  if (!ids.some(id => tombstones[id])) return;
+  ids.forEach(id => { delete tombstones[id]; });
+  saveTombstones(tombstones);
+}
+
+/**
+ * Merges records from another source into a base list entity by entity.
+ * An incoming record replaces its base version unless the base one is strictly
+ * newer; records only present in the base are kept; tombstoned records are dropped.
+ * Base order is preserved and new records are appended.
+ */
+export function mergeEntities<T extends SyncedRecord>(
+  base: T[],
+  incoming: T[],
+  tombstones: Tombstones
+): { records: T[]; changed: boolean } {
+  const incomingById = new Map(incoming.map(r => [r.id, r]));
+  let changed = false;
+
+  const records: T[] = [];
+  for (const record of base) {
+    if (tombstones[record.id]) {
+      changed = true;
+      continue;
+    }
+    const other = incomingById.get(record.id);
+    incomingById.delete(record.id);
+    if (
+      other &&
+      toTime(record.updatedAt) <= toTime(other.updatedAt) &&
+      JSON.stringify(record) !== JSON.stringify(other)
+    ) {
+      records.push(other);
+      changed = true;
+    } else {
+      records.push(record);
+    }
+  }
+
+  for (const record of incomingById.values()) {
+    if (tombstones[record.id]) continue;
+    records.push(record);
+    changed = true;
+  }
+
+  return { records, changed };
+}
+
+export function readCachedEntities<T>(key: string): T[] {
+  return readPersisted<T[]>(key, []);
+}
+
+/**
+ * Writes this tab's records into the shared cache without discarding
+ * newer records other tabs wrote in the meantime.
+ */
+export function writeMergedCache<T extends SyncedRecord>(key: string, records: T[], tombstones: Tombstones) {
+  const hasStored = localStorage.getItem(key) !== null;
+  const current = readCachedEntities<T>(key);
+  const { records: merged } = mergeEntities(current, records, tombstones);
+  // Skipping identical writes keeps tabs from echoing storage events back and forth
+  if (!hasStored || JSON.stringify(merged) !== JSON.stringify(current)) {
+    writePersisted(key, merged);
+  }
+}
@@ -0,0 +1,121 @@
+/**
+ * Task export
+ * Turns tasks into spreadsheet rows for a chosen, ordered set of columns.
+ * Column labels match the import field labels so an exported CSV can be
+ * imported again without remapping.
+ */
+
+import { format, isValid, parseISO } from 'date-fns';
+import { Task, TaskType, TeamMember, WorkflowStatus, PRIORITY_LABELS, TYPE_LABELS } from '@/types';
+import { APPROVAL_VALUES, ETHICS_VALUES, IMPORT_FIELDS, ImportField } from '@/lib/taskImport';
+import { findStatus } from '@/lib/workflow';
+
+export type ExportColumn = ImportField | 'createdAt' | 'updatedAt';
+
+export interface ExportColumnDefinition {
+  column: ExportColumn;
+  label: string;
+  group: 'Basics' | TaskType;
+}
+
+export const EXPORT_COLUMNS: ExportColumnDefinition[] = [
+  ...IMPORT_FIELDS.map(({ field, label, group }) => ({ column: field, label, group })),
+  { column: 'createdAt', label: 'Created', group: 'Basics' },
+  { column: 'updatedAt', label: 'Last updated', group: 'Basics' },
+];
+
+const BASIC_COLUMNS: ExportColumn[] = ['title', 'description', 'type', 'status', 'priority', 'assignees', 'dueDate', 'tags'];
+
+/**
+ * Default selection: the basics plus the type-specific columns of every
+ * task type present in the rows.
+ */
+export function defaultExportColumns(tasks: Task[]): ExportColumn[] {
+  const types = new Set(tasks.map(task => task.type));
+  return [
+    ...BASIC_COLUMNS,
+    ...EXPORT_COLUMNS.filter(def => def.group !== 'Basics' && types.has(def.group)).map(def => def.column),
+  ];
+}
+
+export type ExportCell = string | number | Date | null;
+
+const toDate = (value?: string) => {
+  if (!value) return null;
+  const date = parseISO(value);
+  return isValid(date) ? date : null;
+};
+
+const joinList = (values?: string[]) => (values && values.length > 0 ? values.join(', ') : null);
+
+/**
+ * The value of one column for one task. Dates are returned as Date objects so
+ * each format can render them natively.
+ */
+export function exportCell(
+  task: Task,
+  column: ExportColumn,
+  teamMembers: TeamMember[],
+  workflow: WorkflowStatus[]
+): ExportCell {
+  switch (column) {
+    case 'type':
+      return TYPE_LABELS[task.type];
+    case 'status':
+      return findStatus(workflow, task.status).label;
+    case 'priority':
+      return PRIORITY_LABELS[task.priority];
+    case 'assignees':
+      return joinList(
+        task.assigneeIds
+          .map(id => teamMembers.find(member => member.id === id)?.name)
+          .filter((name): name is string => !!name)
+      );
+    case 'ethicsApproval':
+      return task.ethicsApproval ? ETHICS_VALUES[task.ethicsApproval] : null;
+    case 'approvalStatus':
+      return task.approvalStatus ? APPROVAL_VALUES[task.approvalStatus] : null;
+    case 'coordinates':
+      return task.coordinates ? `${task.coordinates.lat}, ${task.coordinates.lng}` : null;
+    case 'storyPoints':
+      return task.storyPoints ?? null;
+    case 'tags':
+    case 'literatureRefs':
+    case 'dataSources':
+    case 'spatialDataLinks':
+      return joinList(task[column]);
+    case 'dueDate':
+    case 'fieldWorkDate':
+    case 'publicationDate':
+    case 'createdAt':
+    case 'updatedAt':
+      return toDate(task[column]);
+    default:
+      return task[column] || null;
+  }
+}
+
+/**
+ * Builds the header row followed by one row per task, in the given order.
+ */
+export function buildExportRows(
+  tasks: Task[],
+  columns: ExportColumn[],
+  teamMembers: TeamMember[],
+  workflow: WorkflowStatus[]
+): ExportCell[][] {
+  const labels = columns.map(column => EXPORT_COLUMNS.find(def => def.column === column)?.label ?? column);
+  return [labels, ...tasks.map(task => columns.map(column => exportCell(task, column, teamMembers, workflow)))];
+}
+
+/**
+ * Flattens rows for CSV: dates become yyyy-MM-dd, which the importer reads back.
+ */
+export function toCsvRows(rows: ExportCell[][]): (string | number | null)[][] {
+  return rows.map(row => row.map(cell => (cell instanceof Date ? format(cell, 'yyyy-MM-dd') : cell)));
+}
+
+export function exportFileName(projectTitle: string, extension: 'csv' | 'xlsx') {
+  const slug = projectTitle.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'project';
+  return `${slug}-tasks-${format(new Date(), 'yyyy-MM-dd')}.${extension}`;
+}
@@ -0,0 +1,256 @@
+/**
+ * Task import
+ * Turns spreadsheet rows into tasks using a column -> field mapping.
+ * Every row is validated up front (required title, enum values, dates, numbers,
+ * assignees) so problems can be shown per row before anything is created.
+ */
+
+import { format, isValid, parse, parseISO } from 'date-fns';
+import {
+  Task,
+  TaskType,
+  Priority,
+  Status,
+  TeamMember,
+  WorkflowStatus,
+  PRIORITY_LABELS,
+  TYPE_LABELS,
+} from '@/types';
+import { initialStatus } from '@/lib/workflow';
+
+export type NewTask = Omit<Task, 'id' | 'createdAt' | 'updatedAt'>;
+
+export type ImportField =
+  | 'title' | 'description' | 'type' | 'priority' | 'status' | 'assignees' | 'dueDate' | 'tags'
+  | 'gitBranch' | 'prLink' | 'storyPoints' | 'technicalNotes'
+  | 'protocolNumber' | 'literatureRefs' | 'dataSources' | 'ethicsApproval'
+  | 'coordinates' | 'mapLayer' | 'fieldWorkDate' | 'spatialDataLinks'
+  | 'campaignName' | 'contentType' | 'approvalStatus' | 'publicationDate';
+
+export interface ImportFieldDefinition {
+  field: ImportField;
+  label: string;
+  group: 'Basics' | TaskType;
+  // Header names recognised when guessing the mapping
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'title', label: 'Title', group: 'Basics', aliases: ['title', 'name', 'task', 'summary'] },
+  { field: 'description', label: 'Description', group: 'Basics', aliases: ['description', 'details', 'notes'] },
+  { field: 'type', label: 'Type', group: 'Basics', aliases: ['type', 'task type', 'category'] },
+  { field: 'priority', label: 'Priority', group: 'Basics', aliases: ['priority'] },
+  { field: 'status', label: 'Status', group: 'Basics', aliases: ['status', 'state'] },
+  { field: 'assignees', label: 'Assignees', group: 'Basics', aliases: ['assignee', 'assignees', 'owner', 'assigned to'] },
+  { field: 'dueDate', label: 'Due date', group: 'Basics', aliases: ['due', 'due date', 'deadline'] },
+  { field: 'tags', label: 'Tags', group: 'Basics', aliases: ['tags', 'labels'] },
+
+  { field: 'gitBranch', label: 'Git branch', group: 'development', aliases: ['branch', 'git branch'] },
+  { field: 'prLink', label: 'PR link', group: 'development', aliases: ['pr', 'pr link', 'pull request'] },
+  { field: 'storyPoints', label: 'Story points', group: 'development', aliases: ['story points', 'points', 'estimate'] },
+  { field: 'technicalNotes', label: 'Technical notes', group: 'development', aliases: ['technical notes'] },
+
+  { field: 'protocolNumber', label: 'Protocol number', group: 'research', aliases: ['protocol', 'protocol number', 'protocol no'] },
+  { field: 'literatureRefs', label: 'Literature references', group: 'research', aliases: ['literature', 'references', 'literature refs'] },
+  { field: 'dataSources', label: 'Data sources', group: 'research', aliases: ['data sources', 'sources'] },
+  { field: 'ethicsApproval', label: 'Ethics approval', group: 'research', aliases: ['ethics', 'ethics approval'] },
+
+  { field: 'coordinates', label: 'Coordinates (lat, lng)', group: 'gis', aliases: ['coordinates', 'location', 'lat/lng', 'latlng'] },
+  { field: 'mapLayer', label: 'Map layer', group: 'gis', aliases: ['map layer', 'layer'] },
+  { field: 'fieldWorkDate', label: 'Field work date', group: 'gis', aliases: ['field work date', 'fieldwork date', 'field date'] },
+  { field: 'spatialDataLinks', label: 'Spatial data links', group: 'gis', aliases: ['spatial data', 'spatial data links'] },
+
+  { field: 'campaignName', label: 'Campaign name', group: 'marketing', aliases: ['campaign', 'campaign name'] },
+  { field: 'contentType', label: 'Content type', group: 'marketing', aliases: ['content type'] },
+  { field: 'approvalStatus', label: 'Approval status', group: 'marketing', aliases: ['approval', 'approval status'] },
+  { field: 'publicationDate', label: 'Publication date', group: 'marketing', aliases: ['publication date', 'publish date'] },
+];
+
+// Column index -> field, or null when the column is ignored
+export type ColumnMapping = (ImportField | null)[];
+
+export interface ImportRow {
+  // 1-based row number, counting the header row
+  line: number;
+  task: NewTask | null;
+  errors: string[];
+}
+
+export const ETHICS_VALUES: Record<NonNullable<Task['ethicsApproval']>, string> = {
+  'pending': 'Pending',
+  'approved': 'Approved',
+  'not-required': 'Not required',
+};
+
+export const APPROVAL_VALUES: Record<NonNullable<Task['approvalStatus']>, string> = {
+  'draft': 'Draft',
+  'pending': 'Pending',
+  'approved': 'Approved',
+  'rejected': 'Rejected',
+};
+
+const normalize = (value: string) => value.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+
+export function guessMapping(headers: string[]): ColumnMapping {
+  const used = new Set<ImportField>();
+  return headers.map(header => {
+    const key = normalize(header);
+    const match = IMPORT_FIELDS.find(def =>
+      !used.has(def.field) && (normalize(def.label) === key || def.aliases.includes(key))
+    );
+    if (!match) return null;
+    used.add(match.field);
+    return match.field;
+  });
+}
+
+/**
+ * Matches a cell against an enum by key or label, ignoring case and separators.
+ */
+export function matchEnum<T extends string>(value: string, labels: Record<T, string>): T | undefined {
+  const key = normalize(value);
+  return (Object.keys(labels) as T[]).find(option =>
+    normalize(option) === key || normalize(labels[option]) === key
+  );
+}
+
+const DATE_FORMATS = ['yyyy-MM-dd', 'dd/MM/yyyy', 'd/M/yyyy', 'MM/dd/yyyy', 'dd.MM.yyyy', 'd MMM yyyy', 'MMM d, yyyy'];
+
+/**
+ * Parses a date cell into the yyyy-MM-dd form the date inputs use.
+ */
+export function parseDateCell(value: string): string | undefined {
+  const trimmed = value.trim();
+  const iso = parseISO(trimmed);
+  if (isValid(iso)) return format(iso, 'yyyy-MM-dd');
+  for (const pattern of DATE_FORMATS) {
+    const date = parse(trimmed, pattern, new Date());
+    if (isValid(date)) return format(date, 'yyyy-MM-dd');
+  }
+  return undefined;
+}
+
+const splitList = (value: string) => value.split(/[;|,\n]/).map(v => v.trim()).filter(Boolean);
+
+/**
+ * Validates rows and builds the tasks they describe.
+ */
+export function buildImportRows(
+  rows: string[][],
+  mapping: ColumnMapping,
+  context: { projectId: string; teamMembers: TeamMember[]; workflow: WorkflowStatus[] }
+): ImportRow[] {
+  const statusLabels: Record<Status, string> = Object.fromEntries(context.workflow.map(s => [s.id, s.label]));
+  return rows.map((cells, index) => {
+    const errors: string[] = [];
+    const task: NewTask = {
+      projectId: context.projectId,
+      title: '',
+      description: '',
+      type: 'general',
+      priority: 'medium',
+      status: initialStatus(context.workflow),
+      assigneeIds: [],
+      tags: [],
+    };
+
+    mapping.forEach((field, column) => {
+      const value = (cells[column] ?? '').trim();
+      if (!field || value === '') return;
+      const label = IMPORT_FIELDS.find(def => def.field === field)?.label ?? field;
+
+      const enumValue = <T extends string>(labels: Record<T, string>) => {
+        const match = matchEnum(value, labels);
+        if (!match) {
+          errors.push(`${label}: "${value}" is not one of ${Object.values(labels).join(', ')}`);
+        }
+        return match;
+      };
+
+      const dateValue = () => {
+        const date = parseDateCell(value);
+        if (!date) errors.push(`${label}: "${value}" is not a valid date`);
+        return date;
+      };
+
+      switch (field) {
+        case 'title':
+        case 'description':
+        case 'gitBranch':
+        case 'prLink':
+        case 'technicalNotes':
+        case 'protocolNumber':
+        case 'mapLayer':
+        case 'campaignName':
+        case 'contentType':
+          task[field] = value;
+          break;
+        case 'type':
+          task.type = enumValue<TaskType>(TYPE_LABELS) ?? task.type;
+          break;
+        case 'priority':
+          task.priority = enumValue<Priority>(PRIORITY_LABELS) ?? task.priority;
+          break;
+        case 'status':
+          task.status = enumValue<Status>(statusLabels) ?? task.status;
+          break;
+        case 'ethicsApproval':
+          task.ethicsApproval = enumValue(ETHICS_VALUES);
+          break;
+        case 'approvalStatus':
+          task.approvalStatus = enumValue(APPROVAL_VALUES);
+          break;
+        case 'dueDate':
+        case 'fieldWorkDate':
+        case 'publicationDate':
+          task[field] = dateValue();
+          break;
+        case 'tags':
+        case 'literatureRefs':
+        case 'dataSources':
+        case 'spatialDataLinks':
+          task[field] = splitList(value);
+          break;
+        case 'storyPoints': {
+          const points = Number(value);
+          if (!Number.isInteger(points) || points < 0) {
+            errors.push(`${label}: "${value}" must be a whole number`);
+          } else {
+            task.storyPoints = points;
+          }
+          break;
+        }
+        case 'coordinates': {
+          const [lat, lng] = value.split(/[,;\s]+/).map(Number);
+          if (
+            !Number.isFinite(lat) || !Number.isFinite(lng) ||
+            Math.abs(lat) > 90 || Math.abs(lng) > 180
+          ) {
+            errors.push(`${label}: "${value}" must be "latitude, longitude"`);
+          } else {
+            task.coordinates = { lat, lng };
+          }
+          break;
+        }
+        case 'assignees': {
+          for (const name of splitList(value)) {
+            const key = name.toLowerCase();
+            const member = context.teamMembers.find(m =>
+              m.name.toLowerCase() === key || m.email.toLowerCase() === key
+            );
+            if (member) {
+              task.assigneeIds.push(member.id);
+            } else {
+              errors.push(`${label}: no team member named "${name}"`);
+            }
+          }
+          break;
+        }
+      }
+    });
+
+    if (!task.title) errors.push('Title is required');
+
+    return { line: index + 2, task: errors.length === 0 ? task : null, errors };
+  });
+}
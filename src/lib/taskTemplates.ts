@@ -0,0 +1,115 @@
+/**
+ * Task templates
+ * A template keeps the reusable parts of a task: its wording, type, priority,
+ * tags, type-specific fields and checklist, plus when it falls due relative to
+ * the day a task is created from it. Titles may contain placeholders that are
+ * filled in at that point, e.g. "Field survey {date}".
+ */
+
+import { addDays, differenceInCalendarDays, format, getISOWeek, isValid, parseISO } from 'date-fns';
+import { Project, Task, TaskTemplate, TemplateFields } from '@/types';
+import { generateId } from '@/data/mockData';
+import { IMPORT_FIELDS, NewTask } from '@/lib/taskImport';
+import { initialStatus, projectWorkflow } from '@/lib/workflow';
+
+export type TemplateDraft = Omit<TaskTemplate, 'id' | 'createdAt' | 'updatedAt'>;
+
+export const TITLE_PLACEHOLDERS: { token: string; description: string }[] = [
+  { token: '{date}', description: 'the day the task is created, e.g. 2026-10-19' },
+  { token: '{week}', description: 'the week number' },
+  { token: '{month}', description: 'the month, e.g. October 2026' },
+  { token: '{project}', description: 'the project name' },
+];
+
+// Dates and PR links belong to one piece of work and would be stale in a template
+const INSTANCE_FIELDS = new Set(['fieldWorkDate', 'publicationDate', 'prLink']);
+
+/**
+ * The type-specific fields of a task worth copying, plus its checklist unticked.
+ */
+export function templateFields(task: Task): TemplateFields {
+  const fields: Record<string, unknown> = {};
+  IMPORT_FIELDS
+    .filter(definition => definition.group === task.type && !INSTANCE_FIELDS.has(definition.field))
+    .forEach(({ field }) => {
+      const value = task[field as keyof Task];
+      if (value === undefined || value === '' || (Array.isArray(value) && value.length === 0)) return;
+      fields[field] = value;
+    });
+  if (task.checklist?.length) {
+    fields.checklist = task.checklist.map(item => ({ ...item, done: false }));
+  }
+  // Custom field ids are per project; another project just ignores them
+  if (task.customFieldValues && Object.keys(task.customFieldValues).length > 0) {
+    fields.customFieldValues = { ...task.customFieldValues };
+  }
+  return fields as TemplateFields;
+}
+
+/**
+ * A template based on an existing task. The due date offset is how long the
+ * task had between being created and falling due.
+ */
+export function templateFromTask(task: Task): TemplateDraft {
+  let dueOffsetDays: number | undefined;
+  if (task.dueDate) {
+    const days = differenceInCalendarDays(parseISO(task.dueDate), parseISO(task.createdAt));
+    if (Number.isFinite(days) && days >= 0) dueOffsetDays = days;
+  }
+  return {
+    name: task.title,
+    projectId: task.projectId,
+    titlePattern: task.title,
+    description: task.description,
+    type: task.type,
+    priority: task.priority,
+    tags: [...task.tags],
+    fields: templateFields(task),
+    dueOffsetDays,
+  };
+}
+
+export function expandTitle(pattern: string, projectName: string, now = new Date()): string {
+  return pattern
+    .replace(/\{date\}/g, format(now, 'yyyy-MM-dd'))
+    .replace(/\{week\}/g, String(getISOWeek(now)))
+    .replace(/\{month\}/g, format(now, 'MMMM yyyy'))
+    .replace(/\{project\}/g, projectName)
+    .trim();
+}
+
+export function templateDueDate(template: TaskTemplate, now = new Date()): string | undefined {
+  if (template.dueOffsetDays === undefined) return undefined;
+  const due = addDays(now, template.dueOffsetDays);
+  return isValid(due) ? format(due, 'yyyy-MM-dd') : undefined;
+}
+
+/**
+ * A new task in the given project, filled in from a template. It starts in the
+ * status where the project's new tasks start.
+ */
+export function taskFromTemplate(template: TaskTemplate, project: Project, now = new Date()): NewTask {
+  return {
+    ...template.fields,
+    checklist: template.fields.checklist?.map(item => ({ ...item, id: generateId('chk'), done: false })),
+    projectId: project.id,
+    title: expandTitle(template.titlePattern, project.title, now),
+    description: template.description,
+    type: template.type,
+    priority: template.priority,
+    status: initialStatus(projectWorkflow(project)),
+    assigneeIds: [],
+    dueDate: templateDueDate(template, now),
+    tags: [...template.tags],
+  };
+}
+
+/**
+ * Templates available in a project: its own first, then shared ones.
+ */
+export function templatesForProject(templates: TaskTemplate[], projectId: string): TaskTemplate[] {
+  return [
+    ...templates.filter(t => t.projectId === projectId),
+    ...templates.filter(t => !t.projectId),
+  ];
+}
@@ -0,0 +1,141 @@
+/**
+ * Timeline scale
+ * Maps days to pixels on the timeline at any zoom. Each zoom level has a
+ * width per day and a calendar unit its header is divided into; fitting a span
+ * into the space available picks the width for it and the unit that suits that
+ * width. Only the header units in view are laid out, so a timeline can cover
+ * years without rendering every day.
+ */
+
+import {
+  addDays,
+  addMonths,
+  addQuarters,
+  addWeeks,
+  addYears,
+  differenceInCalendarDays,
+  format,
+  startOfDay,
+  startOfMonth,
+  startOfQuarter,
+  startOfWeek,
+  startOfYear,
+} from 'date-fns';
+
+export type TimelineUnit = 'day' | 'week' | 'month' | 'quarter' | 'year';
+export type TimelineZoom = TimelineUnit | 'fit';
+
+export const ZOOM_LEVELS: { value: TimelineUnit; label: string; dayWidth: number }[] = [
+  { value: 'day', label: 'Days', dayWidth: 40 },
+  { value: 'week', label: 'Weeks', dayWidth: 12 },
+  { value: 'month', label: 'Months', dayWidth: 4 },
+  { value: 'quarter', label: 'Quarters', dayWidth: 1.5 },
+  { value: 'year', label: 'Years', dayWidth: 0.5 },
+];
+
+export interface TimelineScale {
+  // First day of the timeline
+  start: Date;
+  // Number of days it covers
+  days: number;
+  dayWidth: number;
+  unit: TimelineUnit;
+}
+
+export interface HeaderUnit {
+  key: string;
+  start: Date;
+  left: number;
+  width: number;
+  // Small line above the label, e.g. the weekday
+  caption: string;
+  label: string;
+  isCurrent: boolean;
+}
+
+const UNITS: Record<TimelineUnit, { startOf: (date: Date) => Date; next: (date: Date) => Date }> = {
+  day: { startOf: startOfDay, next: date => addDays(date, 1) },
+  week: { startOf: date => startOfWeek(date, { weekStartsOn: 1 }), next: date => addWeeks(date, 1) },
+  month: { startOf: startOfMonth, next: date => addMonths(date, 1) },
+  quarter: { startOf: startOfQuarter, next: date => addQuarters(date, 1) },
+  year: { startOf: startOfYear, next: date => addYears(date, 1) },
+};
+
+/**
+ * The smallest unit whose header cells are wide enough to label.
+ */
+export function unitForDayWidth(dayWidth: number): TimelineUnit {
+  if (dayWidth >= 24) return 'day';
+  if (dayWidth >= 6) return 'week';
+  if (dayWidth >= 2) return 'month';
+  if (dayWidth >= 0.7) return 'quarter';
+  return 'year';
+}
+
+/**
+ * A timeline from `from` to `to` (inclusive) at the given width per day. The
+ * start is moved back to the beginning of its header unit.
+ */
+export function createScale(from: Date, to: Date, dayWidth: number): TimelineScale {
+  const unit = unitForDayWidth(dayWidth);
+  const start = UNITS[unit].startOf(from);
+  return { start, days: differenceInCalendarDays(to, start) + 1, dayWidth, unit };
+}
+
+/**
+ * The width per day that shows `from` to `to` (inclusive) in `width` pixels.
+ */
+export function fitDayWidth(from: Date, to: Date, width: number): number {
+  return width / Math.max(1, differenceInCalendarDays(to, from) + 1);
+}
+
+export const dayOffset = (scale: TimelineScale, date: Date) => differenceInCalendarDays(date, scale.start);
+
+export const xOf = (scale: TimelineScale, date: Date) => dayOffset(scale, date) * scale.dayWidth;
+
+export const dateAt = (scale: TimelineScale, x: number) => addDays(scale.start, Math.floor(x / scale.dayWidth));
+
+export const totalWidth = (scale: TimelineScale) => scale.days * scale.dayWidth;
+
+function unitLabels(unit: TimelineUnit, date: Date): { caption: string; label: string } {
+  switch (unit) {
+    case 'day':
+      return { caption: format(date, 'EEE'), label: format(date, 'd') };
+    case 'week':
+      return { caption: `Wk ${format(date, 'I')}`, label: format(date, 'MMM d') };
+    case 'month':
+      return { caption: format(date, 'yyyy'), label: format(date, 'MMM') };
+    case 'quarter':
+      return { caption: format(date, 'yyyy'), label: format(date, 'QQQ') };
+    case 'year':
+      return { caption: '', label: format(date, 'yyyy') };
+  }
+}
+
+/**
+ * The header units between `left` and `right` pixels, plus one either side.
+ */
+export function visibleUnits(scale: TimelineScale, left: number, right: number, today: Date = new Date()): HeaderUnit[] {
+  const { startOf, next } = UNITS[scale.unit];
+  const end = addDays(scale.start, scale.days);
+  const last = dateAt(scale, Math.min(right, totalWidth(scale)));
+  const units: HeaderUnit[] = [];
+  let date = startOf(dateAt(scale, Math.max(0, left)));
+  if (date > scale.start) date = startOf(addDays(date, -1));
+
+  while (date < end && date <= next(last)) {
+    const following = next(date);
+    const from = date < scale.start ? scale.start : date;
+    const to = following > end ? end : following;
+    units.push({
+      key: date.toISOString(),
+      start: date,
+      left: xOf(scale, from),
+      width: differenceInCalendarDays(to, from) * scale.dayWidth,
+      ...unitLabels(scale.unit, date),
+      isCurrent: today >= date && today < following,
+    });
+    date = following;
+  }
+  return units;
+}
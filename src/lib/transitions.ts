@@ -0,0 +1,159 @@
+/**
+ * Workflow transition rules
+ * A project can limit which statuses a task may move to from each status, and
+ * guard moves into a status: only certain roles may make them, and the task may
+ * have to meet requirements first (e.g. a PR link before Review). Workspace
+ * admins can always move tasks but still have to meet the requirements.
+ */
+
+import {
+  Role,
+  Status,
+  Task,
+  TransitionGuard,
+  TransitionRequirement,
+  TransitionRules,
+  WorkflowStatus,
+  ROLE_LABELS,
+  TYPE_LABELS,
+} from '@/types';
+import { getSubtasks } from '@/lib/subtasks';
+import { findStatus, isDoneStatus } from '@/lib/workflow';
+
+export interface TransitionResult {
+  ok: boolean;
+  // Why the move was refused, ready to show to the user
+  reason?: string;
+  // Refused only by a hard WIP limit the current user may override, see lib/wipLimits
+  canOverride?: boolean;
+}
+
+export interface TransitionContext {
+  workflow: WorkflowStatus[];
+  // All tasks, to look up subtasks
+  tasks: Task[];
+  // Team role of the person moving the task
+  role?: Role;
+  isAdmin: boolean;
+}
+
+interface RequirementDefinition {
+  label: string;
+  // Completes "... needs <phrase> before it can move to <status>"
+  phrase: string;
+  isMet: (task: Task, context: TransitionContext) => boolean;
+}
+
+export const TRANSITION_REQUIREMENTS: Record<TransitionRequirement, RequirementDefinition> = {
+  'ethics-approved': {
+    label: 'Ethics approved',
+    phrase: 'ethics approval',
+    isMet: task => task.ethicsApproval === 'approved',
+  },
+  'pr-link': {
+    label: 'PR link',
+    phrase: 'a PR link',
+    isMet: task => !!task.prLink?.trim(),
+  },
+  'subtasks-done': {
+    label: 'Subtasks done',
+    phrase: 'all its subtasks done',
+    isMet: (task, { tasks, workflow }) => getSubtasks(tasks, task.id).every(t => isDoneStatus(workflow, t.status)),
+  },
+  'checklist-done': {
+    label: 'Checklist done',
+    phrase: 'its checklist finished',
+    isMet: task => (task.checklist ?? []).every(item => item.done),
+  },
+  'assignee': {
+    label: 'Assignee',
+    phrase: 'an assignee',
+    isMet: task => task.assigneeIds.length > 0,
+  },
+};
+
+const guardApplies = (guard: TransitionGuard, task: Task, to: Status) =>
+  guard.to === to && (!guard.taskTypes?.length || guard.taskTypes.includes(task.type));
+
+const joinWords = (words: string[]) =>
+  words.length <= 1 ? words.join('') : `${words.slice(0, -1).join(', ')} or ${words[words.length - 1]}`;
+
+/**
+ * Whether the task may move to the given status. Moving to the status it is
+ * already in is always allowed.
+ */
+export function checkTransition(
+  task: Task,
+  to: Status,
+  rules: TransitionRules | undefined,
+  context: TransitionContext
+): TransitionResult {
+  if (task.status === to || !rules) return { ok: true };
+  const fromLabel = findStatus(context.workflow, task.status).label;
+  const toLabel = findStatus(context.workflow, to).label;
+
+  if (!isMoveAllowed(rules, task.status, to)) {
+    return { ok: false, reason: `Tasks can't move from ${fromLabel} to ${toLabel}.` };
+  }
+
+  for (const guard of (rules.guards ?? []).filter(g => guardApplies(g, task, to))) {
+    const kind = guard.taskTypes?.length ? `${joinWords(guard.taskTypes.map(t => TYPE_LABELS[t]))} tasks` : 'tasks';
+    if (guard.roles?.length && !context.isAdmin && !(context.role && guard.roles.includes(context.role))) {
+      return {
+        ok: false,
+        reason: `Only ${joinWords(guard.roles.map(r => `${ROLE_LABELS[r]}s`))} can move ${kind} to ${toLabel}.`,
+      };
+    }
+    const unmet = (guard.requires ?? []).filter(r => !TRANSITION_REQUIREMENTS[r].isMet(task, context));
+    if (unmet.length > 0) {
+      const phrases = unmet.map(r => TRANSITION_REQUIREMENTS[r].phrase).join(' and ');
+      return { ok: false, reason: `"${task.title}" needs ${phrases} before it can move to ${toLabel}.` };
+    }
+  }
+  return { ok: true };
+}
+
+/**
+ * Rules without the statuses a workflow no longer has. Unrestricted rows are
+ * dropped, so rules end up unset once nothing is restricted any more.
+ */
+export function pruneTransitionRules(rules: TransitionRules, workflow: WorkflowStatus[]): TransitionRules | undefined {
+  const ids = new Set(workflow.map(s => s.id));
+  const allowed = Object.fromEntries(
+    Object.entries(rules.allowed ?? {})
+      .filter(([from]) => ids.has(from))
+      .map(([from, targets]) => [from, targets.filter(to => ids.has(to))] as const)
+      .filter(([from, targets]) => workflow.some(s => s.id !== from && !targets.includes(s.id)))
+  );
+  const guards = (rules.guards ?? []).filter(g => ids.has(g.to) && (g.roles?.length || g.requires?.length));
+  const result: TransitionRules = {};
+  if (Object.keys(allowed).length > 0) result.allowed = allowed;
+  if (guards.length > 0) result.guards = guards;
+  return result.allowed || result.guards ? result : undefined;
+}
+
+/**
+ * Whether a move is allowed by the project's allowed-moves table alone.
+ */
+export function isMoveAllowed(rules: TransitionRules | undefined, from: Status, to: Status): boolean {
+  const allowed = rules?.allowed?.[from];
+  return from === to || !allowed || allowed.includes(to);
+}
+
+/**
+ * Allows or forbids one move, keeping the table as small as possible.
+ */
+export function setMoveAllowed(
+  rules: TransitionRules | undefined,
+  workflow: WorkflowStatus[],
+  from: Status,
+  to: Status,
+  isAllowed: boolean
+): TransitionRules {
+  const current = rules?.allowed?.[from] ?? workflow.map(s => s.id).filter(id => id !== from);
+  const targets = isAllowed ? [...new Set([...current, to])] : current.filter(id => id !== to);
+  const allowed = { ...rules?.allowed };
+  if (workflow.every(s => s.id === from || targets.includes(s.id))) delete allowed[from];
+  else allowed[from] = targets;
+  return { ...rules, allowed };
+}
@@ -0,0 +1,71 @@
+/**
+ * Trash
+ * Deleted projects and tasks keep their rows with deletedAt/deletedBy set and are
+ * hidden from every view. A task inside a trashed project is hidden with it without
+ * being marked itself, so restoring the project brings its tasks back as they were.
+ * Items are purged for good once they have been in the trash for the retention period.
+ */
+
+import { addDays } from 'date-fns';
+import { Project, Task } from '@/types';
+
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export const TRASH_RETENTION_OPTIONS = [7, 14, 30, 60, 90];
+
+export interface TrashSelection {
+  projectIds: string[];
+  taskIds: string[];
+}
+
+export interface WorkspaceSplit {
+  projects: Project[];
+  tasks: Task[];
+  trashedProjects: Project[];
+  // Tasks deleted on their own, including ones whose project was trashed later
+  trashedTasks: Task[];
+}
+
+/**
+ * Separates live records from trashed ones.
+ */
+export function splitTrash(projects: Project[], tasks: Task[]): WorkspaceSplit {
+  const trashedProjects = projects.filter(p => p.deletedAt);
+  const trashedProjectIds = new Set(trashedProjects.map(p => p.id));
+
+  return {
+    projects: projects.filter(p => !p.deletedAt),
+    tasks: tasks.filter(t => !t.deletedAt && !trashedProjectIds.has(t.projectId)),
+    trashedProjects,
+    trashedTasks: tasks.filter(t => t.deletedAt),
+  };
+}
+
+/**
+ * When an item deleted at the given time will be purged.
+ */
+export function purgeDate(deletedAt: string, retentionDays: number): Date {
+  return addDays(new Date(deletedAt), retentionDays);
+}
+
+/**
+ * Trashed items whose retention period has run out. Tasks inside an expired
+ * project are left out since purging the project removes them anyway.
+ */
+export function expiredTrash(
+  projects: Project[],
+  tasks: Task[],
+  retentionDays: number,
+  now = new Date()
+): TrashSelection {
+  const isExpired = (deletedAt?: string) =>
+    !!deletedAt && purgeDate(deletedAt, retentionDays).getTime() <= now.getTime();
+
+  const projectIds = projects.filter(p => isExpired(p.deletedAt)).map(p => p.id);
+  const expiredProjectIds = new Set(projectIds);
+  const taskIds = tasks
+    .filter(t => isExpired(t.deletedAt) && !expiredProjectIds.has(t.projectId))
+    .map(t => t.id);
+
+  return { projectIds, taskIds };
+}
@@ -0,0 +1,140 @@
+/**
+ * Work-in-progress limits
+ * A project can cap how many tasks sit in a status, either in the whole column
+ * or per assignee. Going over a soft limit is allowed but highlighted on the
+ * board; a hard limit refuses moves, new tasks and assignments that would go
+ * over it unless a manager overrides. Every such change that leaves a status
+ * over a limit is recorded as a breach for flow reports.
+ */
+
+import { Status, Task, WipBreach, WipLimit, WorkflowStatus } from '@/types';
+import { generateId } from '@/data/mockData';
+
+export interface WipViolation {
+  limit: WipLimit;
+  level: 'soft' | 'hard';
+  max: number;
+  // Tasks in the status (for the assignee)
+  count: number;
+  assigneeId?: string;
+}
+
+const countIn = (tasks: Task[], status: Status, assigneeId?: string) =>
+  tasks.filter(t => t.status === status && (!assigneeId || t.assigneeIds.includes(assigneeId))).length;
+
+function violation(limit: WipLimit, count: number, assigneeId?: string): WipViolation | null {
+  if (limit.hard !== undefined && count > limit.hard) {
+    return { limit, level: 'hard', max: limit.hard, count, assigneeId };
+  }
+  if (limit.soft !== undefined && count > limit.soft) {
+    return { limit, level: 'soft', max: limit.soft, count, assigneeId };
+  }
+  return null;
+}
+
+/**
+ * Limits a status is over right now, for highlighting its column. Tasks should
+ * be the project's tasks that are not in the trash.
+ */
+export function statusViolations(limits: WipLimit[] | undefined, tasks: Task[], status: Status): WipViolation[] {
+  const inStatus = tasks.filter(t => t.status === status);
+  return (limits ?? [])
+    .filter(limit => limit.status === status)
+    .flatMap(limit => {
+      if (limit.scope === 'column') return [violation(limit, inStatus.length)];
+      const assigneeIds = [...new Set(inStatus.flatMap(t => t.assigneeIds))];
+      return assigneeIds.map(id => violation(limit, countIn(inStatus, status, id), id));
+    })
+    .filter((v): v is WipViolation => !!v);
+}
+
+/**
+ * Limits a change to a task would leave its status over, from the task as it
+ * was (undefined for a new task) and as it would be. Only what the change
+ * adds to a status counts: the task moving in, or assignees joining it there.
+ * Reordering within a column never counts as going over.
+ */
+export function changeViolations(
+  limits: WipLimit[] | undefined,
+  tasks: Task[],
+  before: Task | undefined,
+  after: Task
+): WipViolation[] {
+  const to = after.status;
+  const wasIn = before?.status === to;
+  const others = tasks.filter(t => t.id !== after.id);
+  return (limits ?? [])
+    .filter(limit => limit.status === to)
+    .flatMap(limit => {
+      if (limit.scope === 'column') return wasIn ? [] : [violation(limit, countIn(others, to) + 1)];
+      return after.assigneeIds
+        .filter(id => !wasIn || !before.assigneeIds.includes(id))
+        .map(id => violation(limit, countIn(others, to, id) + 1, id));
+    })
+    .filter((v): v is WipViolation => !!v);
+}
+
+/**
+ * A short explanation, e.g. `4 tasks in Review (hard limit 3)`.
+ */
+export function describeWipViolation(v: WipViolation, statusLabel: string, assigneeName?: string): string {
+  const tasks = `${v.count} ${v.count === 1 ? 'task' : 'tasks'} in ${statusLabel} (${v.level} limit ${v.max})`;
+  return v.assigneeId ? `${assigneeName ?? 'An assignee'} has ${tasks}` : tasks;
+}
+
+/**
+ * The breaches to record for a change that went over the given limits.
+ */
+export function wipBreaches(
+  violations: WipViolation[],
+  task: Task,
+  to: Status,
+  overriddenBy?: string,
+  now: Date = new Date()
+): WipBreach[] {
+  return violations.map(v => ({
+    id: generateId('wip'),
+    projectId: task.projectId,
+    taskId: task.id,
+    status: to,
+    scope: v.limit.scope,
+    level: v.level,
+    limit: v.max,
+    count: v.count,
+    assigneeId: v.assigneeId,
+    // Only going past a hard limit needs overriding
+    overriddenBy: v.level === 'hard' ? overriddenBy : undefined,
+    createdAt: now.toISOString(),
+  }));
+}
+
+export function newWipLimit(status: Status): WipLimit {
+  return { id: generateId('wip'), status, scope: 'column' };
+}
+
+/**
+ * Limits without the statuses a workflow no longer has or any number set, or
+ * undefined once nothing is limited.
+ */
+export function pruneWipLimits(limits: WipLimit[], workflow: WorkflowStatus[]): WipLimit[] | undefined {
+  const kept = limits.filter(l => workflow.some(s => s.id === l.status) && (l.soft !== undefined || l.hard !== undefined));
+  return kept.length > 0 ? kept : undefined;
+}
+
+/**
+ * Problems with a project's limits. An empty list means they can be saved.
+ */
+export function validateWipLimits(limits: WipLimit[]): string[] {
+  const problems: string[] = [];
+  limits.forEach(limit => {
+    const values = [limit.soft, limit.hard].filter((n): n is number => n !== undefined);
+    if (values.some(n => !Number.isInteger(n) || n < 1)) {
+      problems.push('WIP limits must be whole numbers of at least 1.');
+    } else if (limit.soft !== undefined && limit.hard !== undefined && limit.soft > limit.hard) {
+      problems.push('A soft WIP limit can\'t be higher than the hard limit.');
+    }
+  });
+  const keys = limits.map(l => `${l.status}:${l.scope}`);
+  if (new Set(keys).size < keys.length) problems.push('Each status can have one column limit and one per-assignee limit.');
+  return [...new Set(problems)];
+}
@@ -0,0 +1,140 @@
+/**
+ * Workflows
+ * Each project lists its own task statuses in board order. Tasks store a status
+ * id, so relabelling or recoloring a status keeps its tasks. Every status has a
+ * category (not started, active or done) that the rest of the app goes by, e.g.
+ * for completion, overdue badges and recurring tasks, instead of specific ids.
+ * Projects without a workflow of their own use the default one, whose ids are
+ * the statuses tasks have always had.
+ */
+
+import { Project, Status, StatusCategory, WorkflowStatus } from '@/types';
+import { generateId } from '@/data/mockData';
+
+export const STATUS_CATEGORY_LABELS: Record<StatusCategory, string> = {
+  'not-started': 'Not started',
+  'active': 'Active',
+  'done': 'Done',
+};
+
+export const DEFAULT_WORKFLOW: WorkflowStatus[] = [
+  { id: 'backlog', label: 'Backlog', color: '#b5bec9', category: 'not-started' },
+  { id: 'todo', label: 'To Do', color: '#8095b2', category: 'not-started' },
+  { id: 'in-progress', label: 'In Progress', color: '#0da2e7', category: 'active' },
+  { id: 'review', label: 'Review', color: '#b054de', category: 'active', notify: true },
+  { id: 'blocked', label: 'Blocked', color: '#ef4343', category: 'active' },
+  { id: 'done', label: 'Done', color: '#16a249', category: 'done', notify: true },
+];
+
+export const WORKFLOW_PRESETS: { name: string; statuses: WorkflowStatus[] }[] = [
+  { name: 'Default', statuses: DEFAULT_WORKFLOW },
+  {
+    name: 'Research',
+    statuses: [
+      { id: 'protocol-draft', label: 'Protocol Draft', color: '#8095b2', category: 'not-started' },
+      { id: 'ethics-review', label: 'Ethics Review', color: '#b054de', category: 'active', notify: true },
+      { id: 'data-collection', label: 'Data Collection', color: '#0da2e7', category: 'active' },
+      { id: 'analysis', label: 'Analysis', color: '#f97316', category: 'active' },
+      { id: 'published', label: 'Published', color: '#16a249', category: 'done', notify: true },
+    ],
+  },
+  {
+    name: 'Marketing',
+    statuses: [
+      { id: 'draft', label: 'Draft', color: '#8095b2', category: 'not-started' },
+      { id: 'approval', label: 'Approval', color: '#b054de', category: 'active', notify: true },
+      { id: 'scheduled', label: 'Scheduled', color: '#0da2e7', category: 'active' },
+      { id: 'live', label: 'Live', color: '#16a249', category: 'done', notify: true },
+    ],
+  },
+];
+
+const UNKNOWN_STATUS_COLOR = '#9ca3af';
+
+export function projectWorkflow(project: Project | undefined): WorkflowStatus[] {
+  return project?.workflow?.length ? project.workflow : DEFAULT_WORKFLOW;
+}
+
+/**
+ * The status with the given id. A task can hold an id its workflow no longer
+ * has (e.g. a teammate removed the status meanwhile); it then gets a grey
+ * not-started status labelled with the id so it stays visible.
+ */
+export function findStatus(workflow: WorkflowStatus[], id: Status): WorkflowStatus {
+  return workflow.find(s => s.id === id) ?? { id, label: id, color: UNKNOWN_STATUS_COLOR, category: 'not-started' };
+}
+
+export function isDoneStatus(workflow: WorkflowStatus[], id: Status): boolean {
+  return findStatus(workflow, id).category === 'done';
+}
+
+/**
+ * Where new tasks start: the not-started status closest to active work, e.g.
+ * To Do rather than Backlog, or the first status if none is "not started".
+ */
+export function initialStatus(workflow: WorkflowStatus[]): Status {
+  const notStarted = workflow.filter(s => s.category === 'not-started');
+  return (notStarted[notStarted.length - 1] ?? workflow[0]).id;
+}
+
+const isNamed = (status: WorkflowStatus, id: Status, label: string) =>
+  status.id === id || status.label.trim().toLowerCase() === label;
+
+/**
+ * Whether tasks in a status are held up: the default Blocked status, or an
+ * unfinished status of that name in a custom workflow.
+ */
+export function isBlockedStatus(workflow: WorkflowStatus[], id: Status): boolean {
+  const status = findStatus(workflow, id);
+  return status.category !== 'done' && isNamed(status, 'blocked', 'blocked');
+}
+
+/**
+ * Where work on a task is under way: In Progress, or in workflows without it,
+ * the first active status that isn't for blocked tasks.
+ */
+export function inProgressStatus(workflow: WorkflowStatus[]): Status | undefined {
+  const active = workflow.filter(s => s.category === 'active');
+  return (active.find(s => isNamed(s, 'in-progress', 'in progress'))
+    ?? active.find(s => !isBlockedStatus(workflow, s.id)))?.id;
+}
+
+/**
+ * Where ticking a task off moves it: the first done status.
+ */
+export function doneStatus(workflow: WorkflowStatus[]): Status {
+  return (workflow.find(s => s.category === 'done') ?? workflow[workflow.length - 1]).id;
+}
+
+/**
+ * Where tasks go when their status is removed: the first remaining status of
+ * the same category, or where new tasks start.
+ */
+export function replacementStatus(workflow: WorkflowStatus[], removed: WorkflowStatus): Status {
+  return workflow.find(s => s.category === removed.category)?.id ?? initialStatus(workflow);
+}
+
+export function newWorkflowStatus(label: string, category: StatusCategory): WorkflowStatus {
+  return { id: generateId('sts'), label, color: UNKNOWN_STATUS_COLOR, category };
+}
+
+/**
+ * Problems with a workflow, such as duplicate labels or no way to finish a
+ * task. An empty list means it can be saved.
+ */
+export function validateWorkflow(workflow: WorkflowStatus[]): string[] {
+  const problems: string[] = [];
+  const labels = new Set<string>();
+  workflow.forEach(status => {
+    const label = status.label.trim();
+    if (!label) {
+      problems.push('Every status needs a name.');
+      return;
+    }
+    if (labels.has(label.toLowerCase())) problems.push(`There is more than one status called "${label}".`);
+    labels.add(label.toLowerCase());
+  });
+  if (!workflow.some(s => s.category === 'done')) problems.push('The workflow needs at least one done status.');
+  if (!workflow.some(s => s.category !== 'done')) problems.push('The workflow needs a status for unfinished tasks.');
+  return problems;
+}
@@ -0,0 +1,664 @@
+/**
+ * Workspace data access
+ * Maps projects, tasks, comments, notifications, task templates and WIP breaches
+ * between the app's camelCase types and their Supabase tables, and wraps the
+ * reads/writes the app needs.
+ */
+
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables, TablesInsert, TablesUpdate, Json } from '@/integrations/supabase/types';
+import { Project, Task, TaskActivity, TaskTemplate, Comment, Notification, TeamMember, Role, WipBreach } from '@/types';
+import { logError } from '@/lib/errorHandler';
+
+type ProjectRow = Tables<'projects'>;
+type TaskRow = Tables<'tasks'>;
+type CommentRow = Tables<'comments'>;
+type NotificationRow = Tables<'notifications'>;
+type TeamMemberRow = Tables<'team_members'>;
+type TaskActivityRow = Tables<'task_activity'>;
+type TaskTemplateRow = Tables<'task_templates'>;
+
+export interface WorkspaceSnapshot {
+  projects: Project[];
+  tasks: Task[];
+  comments: Comment[];
+  notifications: Notification[];
+  teamMembers: TeamMember[];
+}
+
+// Postgres returns NULL for unset optional columns; the app uses undefined
+const opt = <T>(value: T | null): T | undefined => (value === null ? undefined : value);
+
+// ---------- Projects ----------
+
+export function projectFromRow(row: ProjectRow): Project {
+  return {
+    id: row.id,
+    title: row.title,
+    description: row.description,
+    teamMemberIds: row.team_member_ids,
+    startDate: row.start_date,
+    endDate: opt(row.end_date),
+    status: row.status as Project['status'],
+    color: row.color,
+    customFields: opt(row.custom_fields) as unknown as Project['customFields'],
+    workflow: opt(row.workflow) as unknown as Project['workflow'],
+    transitionRules: opt(row.transition_rules) as unknown as Project['transitionRules'],
+    wipLimits: opt(row.wip_limits) as unknown as Project['wipLimits'],
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    deletedAt: opt(row.deleted_at),
+    deletedBy: opt(row.deleted_by),
+  };
+}
+
+const PROJECT_COLUMNS: Record<keyof Omit<Project, 'id'>, keyof ProjectRow> = {
+  title: 'title',
+  description: 'description',
+  teamMemberIds: 'team_member_ids',
+  startDate: 'start_date',
+  endDate: 'end_date',
+  status: 'status',
+  color: 'color',
+  customFields: 'custom_fields',
+  workflow: 'workflow',
+  transitionRules: 'transition_rules',
+  wipLimits: 'wip_limits',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  deletedAt: 'deleted_at',
+  deletedBy: 'deleted_by',
+};
+
+// ---------- Tasks ----------
+
+export function taskFromRow(row: TaskRow): Task {
+  return {
+    id: row.id,
+    projectId: row.project_id,
+    title: row.title,
+    description: row.description,
+    type: row.type as Task['type'],
+    priority: row.priority as Task['priority'],
+    status: row.status as Task['status'],
+    assigneeIds: row.assignee_ids,
+    dueDate: opt(row.due_date),
+    startDate: opt(row.start_date),
+    duration: opt(row.duration),
+    tags: row.tags,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+
+    gitBranch: opt(row.git_branch),
+    prLink: opt(row.pr_link),
+    storyPoints: opt(row.story_points),
+    technicalNotes: opt(row.technical_notes),
+
+    protocolNumber: opt(row.protocol_number),
+    literatureRefs: opt(row.literature_refs),
+    dataSources: opt(row.data_sources),
+    ethicsApproval: opt(row.ethics_approval) as Task['ethicsApproval'],
+
+    coordinates: opt(row.coordinates) as Task['coordinates'],
+    mapLayer: opt(row.map_layer),
+    fieldWorkDate: opt(row.field_work_date),
+    spatialDataLinks: opt(row.spatial_data_links),
+
+    campaignName: opt(row.campaign_name),
+    contentType: opt(row.content_type),
+    approvalStatus: opt(row.approval_status) as Task['approvalStatus'],
+    publicationDate: opt(row.publication_date),
+
+    dependencies: opt(row.dependencies),
+    blockedBy: opt(row.blocked_by),
+
+    parentId: opt(row.parent_id),
+    checklist: opt(row.checklist) as unknown as Task['checklist'],
+    rank: opt(row.rank),
+    recurrence: opt(row.recurrence) as unknown as Task['recurrence'],
+    customFieldValues: opt(row.custom_field_values) as unknown as Task['customFieldValues'],
+
+    deletedAt: opt(row.deleted_at),
+    deletedBy: opt(row.deleted_by),
+  };
+}
+
+const TASK_COLUMNS: Record<keyof Omit<Task, 'id'>, keyof TaskRow> = {
+  projectId: 'project_id',
+  title: 'title',
+  description: 'description',
+  type: 'type',
+  priority: 'priority',
+  status: 'status',
+  assigneeIds: 'assignee_ids',
+  dueDate: 'due_date',
+  startDate: 'start_date',
+  duration: 'duration',
+  tags: 'tags',
+  createdAt: 'created_at',
+  updatedAt: 'updated_at',
+  gitBranch: 'git_branch',
+  prLink: 'pr_link',
+  storyPoints: 'story_points',
+  technicalNotes: 'technical_notes',
+  protocolNumber: 'protocol_number',
+  literatureRefs: 'literature_refs',
+  dataSources: 'data_sources',
+  ethicsApproval: 'ethics_approval',
+  coordinates: 'coordinates',
+  mapLayer: 'map_layer',
+  fieldWorkDate: 'field_work_date',
+  spatialDataLinks: 'spatial_data_links',
+  campaignName: 'campaign_name',
+  contentType: 'content_type',
+  approvalStatus: 'approval_status',
+  publicationDate: 'publication_date',
+  dependencies: 'dependencies',
+  blockedBy: 'blocked_by',
+  parentId: 'parent_id',
+  checklist: 'checklist',
+  rank: 'rank',
+  recurrence: 'recurrence',
+  customFieldValues: 'custom_field_values',
+  deletedAt: 'deleted_at',
+  deletedBy: 'deleted_by',
+};
+
+/**
+ * Converts the keys present in a partial entity to column names.
+ * A key that is present but undefined clears the column.
+ */
+function toColumns<T extends object>(
+  values: Partial<T>,
+  columns: Record<string, string>
+): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const key of Object.keys(values)) {
+    const column = columns[key];
+    if (!column) continue;
+    const value = values[key as keyof T];
+    row[column] = value === undefined ? null : (value as unknown as Json);
+  }
+  return row;
+}
+
+// ---------- Comments & notifications ----------
+
+export function commentFromRow(row: CommentRow): Comment {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    authorId: row.author_id,
+    content: row.content,
+    createdAt: row.created_at,
+    updatedAt: opt(row.updated_at),
+  };
+}
+
+export function notificationFromRow(row: NotificationRow): Notification {
+  return {
+    id: row.id,
+    type: row.type as Notification['type'],
+    title: row.title,
+    message: row.message,
+    read: row.read,
+    createdAt: row.created_at,
+    taskId: opt(row.task_id),
+    projectId: opt(row.project_id),
+    userId: row.user_id,
+  };
+}
+
+function teamMemberFromRow(row: TeamMemberRow): TeamMember {
+  return {
+    id: row.id,
+    name: row.name,
+    email: row.email,
+    avatar: opt(row.avatar),
+    role: row.role as Role,
+    initials: row.initials || row.name.split(' ').map(n => n[0]).join('').toUpperCase().slice(0, 2),
+    userId: opt(row.user_id),
+  };
+}
+
+// ---------- Activity ----------
+
+const TASK_FIELDS_BY_COLUMN: Record<string, string> = Object.fromEntries(
+  Object.entries(TASK_COLUMNS).map(([field, column]) => [column, field])
+);
+
+export function activityFromRow(row: TaskActivityRow): TaskActivity {
+  return {
+    id: row.id,
+    taskId: row.task_id,
+    kind: row.kind as TaskActivity['kind'],
+    // Columns added after this client was built keep their column name
+    field: row.field ? TASK_FIELDS_BY_COLUMN[row.field] ?? row.field : undefined,
+    oldValue: opt(row.old_value),
+    newValue: opt(row.new_value),
+    actorId: opt(row.actor_id),
+    createdAt: row.created_at,
+  };
+}
+
+export function templateFromRow(row: TaskTemplateRow): TaskTemplate {
+  return {
+    id: row.id,
+    name: row.name,
+    projectId: opt(row.project_id),
+    titlePattern: row.title_pattern,
+    description: row.description,
+    type: row.type as TaskTemplate['type'],
+    priority: row.priority as TaskTemplate['priority'],
+    tags: row.tags,
+    fields: (row.fields ?? {}) as unknown as TaskTemplate['fields'],
+    dueOffsetDays: opt(row.due_offset_days),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+// ---------- Reads ----------
+
+export async function fetchWorkspace(): Promise<WorkspaceSnapshot> {
+  const [projects, tasks, comments, notifications, teamMembers] = await Promise.all([
+    supabase.from('projects').select('*').order('created_at', { ascending: true }),
+    supabase.from('tasks').select('*').order('created_at', { ascending: true }),
+    supabase.from('comments').select('*').order('created_at', { ascending: true }),
+    supabase.from('notifications').select('*').order('created_at', { ascending: false }),
+    supabase.from('team_members').select('*').order('created_at', { ascending: true }),
+  ]);
+
+  const error = projects.error || tasks.error || comments.error || notifications.error || teamMembers.error;
+  if (error) throw error;
+
+  return {
+    projects: (projects.data || []).map(projectFromRow),
+    tasks: (tasks.data || []).map(taskFromRow),
+    comments: (comments.data || []).map(commentFromRow),
+    notifications: (notifications.data || []).map(notificationFromRow),
+    teamMembers: (teamMembers.data || []).map(teamMemberFromRow),
+  };
+}
+
+export async function fetchTask(id: string): Promise<Task | null> {
+  const { data, error } = await supabase.from('tasks').select('*').eq('id', id).maybeSingle();
+  if (error) throw error;
+  return data ? taskFromRow(data) : null;
+}
+
+export async function fetchTaskActivity(taskId: string): Promise<TaskActivity[]> {
+  const { data, error } = await supabase
+    .from('task_activity')
+    .select('*')
+    .eq('task_id', taskId)
+    .order('created_at', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(activityFromRow);
+}
+
+// Project templates and workspace-wide ones, by name
+export async function fetchTaskTemplates(): Promise<TaskTemplate[]> {
+  const { data, error } = await supabase
+    .from('task_templates')
+    .select('*')
+    .order('name', { ascending: true });
+  if (error) throw error;
+  return (data || []).map(templateFromRow);
+}
+
+// ---------- Writes ----------
+
+export async function insertProject(project: Project, userId: string) {
+  const row = {
+    id: project.id,
+    ...toColumns<Project>(project, PROJECT_COLUMNS),
+    created_by: userId,
+  } as TablesInsert<'projects'>;
+  const { error } = await supabase.from('projects').insert(row);
+  if (error) throw error;
+}
+
+export async function updateProjectRow(id: string, updates: Partial<Project>) {
+  const { error } = await supabase
+    .from('projects')
+    .update(toColumns<Project>(updates, PROJECT_COLUMNS) as TablesUpdate<'projects'>)
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteProjectRow(id: string) {
+  // Tasks and their comments are removed by ON DELETE CASCADE
+  const { data, error } = await supabase.from('projects').delete().eq('id', id).select('id');
+  if (error) throw error;
+  // Row level security skips rows the user may not delete instead of failing
+  if (!data?.length) throw new Error('Not allowed to delete this project');
+}
+
+export async function insertTask(task: Task, userId: string) {
+  const row = {
+    id: task.id,
+    ...toColumns<Task>(task, TASK_COLUMNS),
+    created_by: userId,
+  } as TablesInsert<'tasks'>;
+  const { error } = await supabase.from('tasks').insert(row);
+  if (error) throw error;
+}
+
+export async function updateTaskRow(id: string, updates: Partial<Task>) {
+  const { error } = await supabase
+    .from('tasks')
+    .update(toColumns<Task>(updates, TASK_COLUMNS) as TablesUpdate<'tasks'>)
+    .eq('id', id);
+  if (error) throw error;
+}
+
+export async function deleteTaskRow(id: string) {
+  const { error } = await supabase.from('tasks').delete().eq('id', id);
+  if (error) throw error;
+}
+
+/**
+ * Permanently deletes projects and tasks, returning the ids that were actually
+ * removed. Rows the user may not delete are skipped by RLS rather than failing.
+ */
+export async function purgeWorkspaceRows(
+  projectIds: string[],
+  taskIds: string[]
+): Promise<{ projectIds: string[]; taskIds: string[] }> {
+  const purge = async (table: 'projects' | 'tasks', ids: string[]) => {
+    const deleted: string[] = [];
+    for (let i = 0; i < ids.length; i += 100) {
+      const { data, error } = await supabase
+        .from(table)
+        .delete()
+        .in('id', ids.slice(i, i + 100))
+        .select('id');
+      if (error) throw error;
+      deleted.push(...(data || []).map(row => row.id));
+    }
+    return deleted;
+  };
+
+  // Tasks of deleted projects go with them through ON DELETE CASCADE
+  const deletedTaskIds = await purge('tasks', taskIds);
+  const deletedProjectIds = await purge('projects', projectIds);
+  return { projectIds: deletedProjectIds, taskIds: deletedTaskIds };
+}
+
+export async function insertComment(comment: Comment, userId: string) {
+  const { error } = await supabase.from('comments').insert({
+    id: comment.id,
+    task_id: comment.taskId,
+    author_id: comment.authorId,
+    content: comment.content,
+    created_at: comment.createdAt,
+    updated_at: comment.updatedAt ?? null,
+    created_by: userId,
+  });
+  if (error) throw error;
+}
+
+export async function deleteCommentRow(id: string) {
+  const { error } = await supabase.from('comments').delete().eq('id', id);
+  if (error) throw error;
+}
+
+export async function insertTaskTemplate(template: TaskTemplate, userId: string) {
+  const { error } = await supabase.from('task_templates').insert({
+    id: template.id,
+    project_id: template.projectId ?? null,
+    name: template.name,
+    title_pattern: template.titlePattern,
+    description: template.description,
+    type: template.type,
+    priority: template.priority,
+    tags: template.tags,
+    fields: template.fields as unknown as Json,
+    due_offset_days: template.dueOffsetDays ?? null,
+    created_at: template.createdAt,
+    updated_at: template.updatedAt,
+    created_by: userId,
+  });
+  if (error) throw error;
+}
+
+export async function deleteTaskTemplateRow(id: string) {
+  // RLS only lets the creator or an admin delete; anything else matches no rows
+  const { data, error } = await supabase.from('task_templates').delete().eq('id', id).select('id');
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+export async function insertWipBreaches(breaches: WipBreach[], userId: string) {
+  if (breaches.length === 0) return;
+  const { error } = await supabase.from('wip_breaches').insert(breaches.map(b => ({
+    id: b.id,
+    project_id: b.projectId,
+    task_id: b.taskId,
+    status: b.status,
+    scope: b.scope,
+    assignee_id: b.assigneeId ?? null,
+    level: b.level,
+    wip_limit: b.limit,
+    count: b.count,
+    overridden_by: b.overriddenBy ?? null,
+    created_at: b.createdAt,
+    created_by: userId,
+  })));
+  if (error) throw error;
+}
+
+export async function insertNotificationRow(n: Notification, userId: string) {
+  const { error } = await supabase.from('notifications').insert({
+    id: n.id,
+    user_id: userId,
+    type: n.type,
+    title: n.title,
+    message: n.message,
+    read: n.read,
+    task_id: n.taskId ?? null,
+    project_id: n.projectId ?? null,
+    created_at: n.createdAt,
+  });
+  if (error) throw error;
+}
+
+/**
+ * Tells the task's other signed-in assignees that it no longer waits on other
+ * tasks. Users may only insert their own notifications, so the server writes these.
+ */
+export async function notifyTaskUnblocked(taskId: string) {
+  const { error } = await supabase.rpc('notify_task_unblocked', { _task_id: taskId });
+  if (error) throw error;
+}
+
+export async function deleteNotificationRows(ids: string[]) {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from('notifications').delete().in('id', ids);
+  if (error) throw error;
+}
+
+export async function markNotificationsReadRows(ids: string[]) {
+  if (ids.length === 0) return;
+  const { error } = await supabase.from('notifications').update({ read: true }).in('id', ids);
+  if (error) throw error;
+}
+
+/**
+ * Uploads workspace data that only exists in this browser's localStorage.
+ * Rows that already exist on the server are left untouched.
+ */
+export async function uploadLocalWorkspace(
+  data: Pick<WorkspaceSnapshot, 'projects' | 'tasks' | 'comments' | 'notifications'>,
+  userId: string
+) {
+  const projectIds = new Set(data.projects.map(p => p.id));
+  const tasks = data.tasks.filter(t => projectIds.has(t.projectId));
+  const taskIds = new Set(tasks.map(t => t.id));
+  const comments = data.comments.filter(c => taskIds.has(c.taskId));
+  // The cache may hold another account's notifications from an earlier sign-in
+  const notifications = data.notifications.filter(n => n.userId === userId);
+
+  await insertWorkspaceRecords({ ...data, tasks, comments, notifications }, userId);
+}
+
+/**
+ * Inserts records in bulk, skipping ids that already exist.
+ * Parents must either be included or already be on the server.
+ */
+export async function insertWorkspaceRecords(
+  data: Pick<WorkspaceSnapshot, 'projects' | 'tasks' | 'comments' | 'notifications'>,
+  userId: string
+) {
+  const skipExisting = { onConflict: 'id', ignoreDuplicates: true };
+  const check = ({ error }: { error: unknown }) => {
+    if (error) throw error;
+  };
+
+  // Parents first so foreign keys resolve
+  const projectRows: TablesInsert<'projects'>[] = data.projects.map(p => ({
+    id: p.id,
+    ...toColumns<Project>(p, PROJECT_COLUMNS),
+    created_by: userId,
+  }) as TablesInsert<'projects'>);
+  if (projectRows.length > 0) check(await supabase.from('projects').upsert(projectRows, skipExisting));
+
+  const taskRows: TablesInsert<'tasks'>[] = data.tasks.map(t => ({
+    id: t.id,
+    ...toColumns<Task>(t, TASK_COLUMNS),
+    created_by: userId,
+  }) as TablesInsert<'tasks'>);
+  if (taskRows.length > 0) check(await supabase.from('tasks').upsert(taskRows, skipExisting));
+
+  const commentRows: TablesInsert<'comments'>[] = data.comments.map(c => ({
+    id: c.id,
+    task_id: c.taskId,
+    author_id: c.authorId,
+    content: c.content,
+    created_at: c.createdAt,
+    updated_at: c.updatedAt ?? null,
+    created_by: userId,
+  }));
+  if (commentRows.length > 0) check(await supabase.from('comments').upsert(commentRows, skipExisting));
+
+  const notificationRows: TablesInsert<'notifications'>[] = data.notifications.map(n => ({
+    id: n.id,
+    user_id: userId,
+    type: n.type,
+    title: n.title,
+    message: n.message,
+    read: n.read,
+    task_id: n.taskId ?? null,
+    project_id: n.projectId ?? null,
+    created_at: n.createdAt,
+  }));
+  if (notificationRows.length > 0) {
+    check(await supabase.from('notifications').upsert(notificationRows, skipExisting));
+  }
+}
+
+// ---------- Attachments ----------
+
+const ATTACHMENT_BUCKET = 'task-attachments';
+
+/**
+ * Every version of every attachment on the given tasks.
+ */
+export async function fetchAttachmentRows(taskIds: string[]): Promise<Tables<'file_attachments'>[]> {
+  const rows: Tables<'file_attachments'>[] = [];
+  // Keep the id list short enough for the request URL
+  for (let i = 0; i < taskIds.length; i += 100) {
+    const { data, error } = await supabase
+      .from('file_attachments')
+      .select('*')
+      .in('task_id', taskIds.slice(i, i + 100))
+      .order('created_at', { ascending: true });
+    if (error) throw error;
+    rows.push(...(data || []));
+  }
+  return rows;
+}
+
+/**
+ * Removes attachment files from storage. Their rows are deleted by the
+ * database when the task itself is deleted.
+ */
+export async function removeAttachmentObjects(paths: string[]) {
+  for (let i = 0; i < paths.length; i += 100) {
+    const { error } = await supabase.storage.from(ATTACHMENT_BUCKET).remove(paths.slice(i, i + 100));
+    if (error) throw error;
+  }
+}
+
+/**
+ * Permanently deletes trashed projects and tasks and then their attachment files.
+ * `tasks` is the local task list, used to find the tasks inside purged projects.
+ * Returns every project and task id that is gone, including cascaded tasks.
+ */
+export async function purgeTrashedRecords(
+  selection: { projectIds: string[]; taskIds: string[] },
+  tasks: Task[]
+): Promise<{ projectIds: string[]; taskIds: string[] }> {
+  const selectedProjectIds = new Set(selection.projectIds);
+  const projectTaskIds = tasks.filter(t => selectedProjectIds.has(t.projectId)).map(t => t.id);
+  const attachments = await fetchAttachmentRows([...new Set([...selection.taskIds, ...projectTaskIds])]);
+
+  const purged = await purgeWorkspaceRows(selection.projectIds, selection.taskIds);
+  const purgedProjectIds = new Set(purged.projectIds);
+  const taskIds = [...new Set([
+    ...purged.taskIds,
+    ...tasks.filter(t => purgedProjectIds.has(t.projectId)).map(t => t.id),
+  ])];
+
+  // The attachment rows are deleted along with their tasks, the files are not.
+  // Leftover files are only wasted space, so a failure here doesn't fail the purge.
+  const purgedTaskIds = new Set(taskIds);
+  try {
+    await removeAttachmentObjects(attachments.filter(a => purgedTaskIds.has(a.task_id)).map(a => a.file_path));
+  } catch (error) {
+    logError('purgeTrashedRecords:attachments', error);
+  }
+
+  return { projectIds: purged.projectIds, taskIds };
+}
+
+/**
+ * Copies archived attachments onto restored tasks. Each file is duplicated in
+ * storage so the restored task never shares an object with the original.
+ * Returns the attachments whose files could not be copied.
+ */
+export async function restoreAttachmentRows(
+  attachments: { source: Tables<'file_attachments'>; taskId: string }[],
+  userId: string
+): Promise<{ source: Tables<'file_attachments'>; error: unknown }[]> {
+  const failed: { source: Tables<'file_attachments'>; error: unknown }[] = [];
+
+  for (const { source, taskId } of attachments) {
+    const fileName = source.file_path.split('/').pop() ?? source.file_name;
+    const filePath = `${taskId}/${fileName}`;
+
+    const { error: copyError } = await supabase.storage
+      .from(ATTACHMENT_BUCKET)
+      .copy(source.file_path, filePath);
+    if (copyError) {
+      failed.push({ source, error: copyError });
+      continue;
+    }
+
+    const { error } = await supabase.from('file_attachments').insert({
+      task_id: taskId,
+      file_name: source.file_name,
+      file_path: filePath,
+      file_type: source.file_type,
+      file_size: source.file_size,
+      version: source.version,
+      is_latest: source.is_latest,
+      uploaded_by: userId,
+      created_at: source.created_at,
+    });
+    if (error) failed.push({ source, error });
+  }
+
+  return failed;
+}
@@ -0,0 +1,322 @@
+/**
+ * Workspace archive
+ * Builds a single JSON backup of the whole workspace (projects, tasks, comments,
+ * notifications, preferences and attachment metadata) and plans restoring one.
+ * Restored records always get fresh ids so they can never collide with rows that
+ * already exist, whether the archive goes back into the same account or another one.
+ */
+
+import { z } from 'zod';
+import type { Tables } from '@/integrations/supabase/types';
+import { Project, Task, Comment, Notification, UserPreferences } from '@/types';
+import { generateId } from '@/data/mockData';
+import { SCHEMA_VERSION, migratePayload } from '@/lib/persistence';
+
+export const ARCHIVE_FORMAT = 'waks-workspace-archive';
+export const ARCHIVE_VERSION = 1;
+
+export type ArchivedAttachment = Tables<'file_attachments'>;
+
+export interface ArchiveData {
+  projects: Project[];
+  tasks: Task[];
+  comments: Comment[];
+  notifications: Notification[];
+  preferences?: Partial<UserPreferences>;
+  attachments: ArchivedAttachment[];
+}
+
+export interface WorkspaceArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  // Schema version of the records inside, see lib/persistence
+  schemaVersion: number;
+  exportedAt: string;
+  data: ArchiveData;
+}
+
+export type RestoreMode = 'merge' | 'replace';
+
+export interface SkippedRecord {
+  kind: 'project' | 'task' | 'comment' | 'notification' | 'attachment';
+  id: string;
+  label: string;
+  reason: string;
+}
+
+export interface AttachmentRestore {
+  source: ArchivedAttachment;
+  taskId: string;
+}
+
+export interface RestorePlan {
+  mode: RestoreMode;
+  projects: Project[];
+  tasks: Task[];
+  comments: Comment[];
+  notifications: Notification[];
+  attachments: AttachmentRestore[];
+  preferences?: Partial<UserPreferences>;
+  skipped: SkippedRecord[];
+}
+
+// Records only need the fields restore relies on; everything else passes through
+const projectSchema = z.object({
+  id: z.string(),
+  title: z.string(),
+  startDate: z.string(),
+  createdAt: z.string(),
+}).passthrough();
+
+const taskSchema = z.object({
+  id: z.string(),
+  projectId: z.string(),
+  title: z.string(),
+  status: z.string(),
+  createdAt: z.string(),
+}).passthrough();
+
+const commentSchema = z.object({
+  id: z.string(),
+  taskId: z.string(),
+  authorId: z.string(),
+  content: z.string(),
+  createdAt: z.string(),
+}).passthrough();
+
+const notificationSchema = z.object({
+  id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  message: z.string(),
+  createdAt: z.string(),
+}).passthrough();
+
+const attachmentSchema = z.object({
+  id: z.string(),
+  task_id: z.string(),
+  file_name: z.string(),
+  file_path: z.string(),
+  file_type: z.string(),
+  file_size: z.number(),
+  version: z.number(),
+  is_latest: z.boolean(),
+  uploaded_by: z.string().nullable(),
+  created_at: z.string(),
+});
+
+const archiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.number().int().positive(),
+  schemaVersion: z.number().int().nonnegative(),
+  exportedAt: z.string(),
+  data: z.object({
+    projects: z.array(z.unknown()),
+    tasks: z.array(z.unknown()),
+    comments: z.array(z.unknown()).default([]),
+    notifications: z.array(z.unknown()).default([]),
+    preferences: z.object({
+      defaultView: z.enum(['kanban', 'list', 'calendar', 'timeline']).optional(),
+      sidebarCollapsed: z.boolean().optional(),
+      theme: z.enum(['light', 'dark', 'system']).optional(),
+      trashRetentionDays: z.number().int().positive().optional(),
+    }).optional(),
+    attachments: z.array(z.unknown()).default([]),
+  }),
+});
+
+export function createArchive(data: ArchiveData): WorkspaceArchive {
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    schemaVersion: SCHEMA_VERSION,
+    exportedAt: new Date().toISOString(),
+    data,
+  };
+}
+
+export function archiveFileName(archive: WorkspaceArchive) {
+  return `workspace-backup-${archive.exportedAt.slice(0, 10)}.json`;
+}
+
+export interface ParsedArchive {
+  archive: WorkspaceArchive;
+  // Records that failed validation and will not be restored
+  invalid: SkippedRecord[];
+}
+
+/**
+ * Validates an archive file. Throws with a user-facing message if the file as a
+ * whole is unusable; individual malformed records are returned as invalid instead.
+ */
+export function parseArchive(text: string): ParsedArchive {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const result = archiveSchema.safeParse(json);
+  if (!result.success) {
+    throw new Error('The file is not a workspace backup');
+  }
+
+  const { version, schemaVersion, exportedAt, data } = result.data;
+  if (version > ARCHIVE_VERSION || schemaVersion > SCHEMA_VERSION) {
+    throw new Error('This backup was created by a newer version of the app');
+  }
+
+  const invalid: SkippedRecord[] = [];
+  const validate = <T>(
+    records: unknown[],
+    schema: z.ZodTypeAny,
+    kind: SkippedRecord['kind'],
+    storageKey?: string
+  ): T[] => {
+    // Bring records written by an older schema up to date before checking them
+    const upgraded = storageKey
+      ? (migratePayload(storageKey, records, schemaVersion) as unknown[])
+      : records;
+    return upgraded.filter((record, index) => {
+      if (schema.safeParse(record).success) return true;
+      const raw = record as { id?: unknown; title?: unknown };
+      invalid.push({
+        kind,
+        id: typeof raw?.id === 'string' ? raw.id : `#${index + 1}`,
+        label: typeof raw?.title === 'string' ? raw.title : '',
+        reason: 'Invalid or incomplete record',
+      });
+      return false;
+    }) as T[];
+  };
+
+  return {
+    archive: {
+      format: ARCHIVE_FORMAT,
+      version,
+      schemaVersion: SCHEMA_VERSION,
+      exportedAt,
+      data: {
+        projects: validate<Project>(data.projects, projectSchema, 'project', 'waks-projects'),
+        tasks: validate<Task>(data.tasks, taskSchema, 'task', 'waks-tasks'),
+        comments: validate<Comment>(data.comments, commentSchema, 'comment', 'waks-comments'),
+        notifications: validate<Notification>(data.notifications, notificationSchema, 'notification', 'waks-notifications'),
+        preferences: data.preferences,
+        attachments: validate<ArchivedAttachment>(data.attachments, attachmentSchema, 'attachment'),
+      },
+    },
+    invalid,
+  };
+}
+
+/**
+ * Works out what restoring an archive will add.
+ * Merge keeps the current workspace and skips records it already contains;
+ * replace restores everything on top of an emptied workspace.
+ */
+export function planRestore(
+  parsed: ParsedArchive,
+  existing: Pick<ArchiveData, 'projects' | 'tasks' | 'comments' | 'notifications'>,
+  mode: RestoreMode
+): RestorePlan {
+  const { data } = parsed.archive;
+  const skipped: SkippedRecord[] = [...parsed.invalid];
+  const merging = mode === 'merge';
+
+  // Archive id -> id in the restored workspace
+  const idMap = new Map<string, string>();
+  // Tasks restored by this plan (as opposed to ones that already existed)
+  const restoredTaskIds = new Set<string>();
+
+  const existingIds = new Set([
+    ...existing.projects.map(p => p.id),
+    ...existing.tasks.map(t => t.id),
+    ...existing.comments.map(c => c.id),
+    ...existing.notifications.map(n => n.id),
+  ]);
+
+  // In merge mode a record that is already here is kept rather than duplicated
+  const alreadyPresent = (kind: SkippedRecord['kind'], id: string, label: string) => {
+    if (!merging || !existingIds.has(id)) return false;
+    idMap.set(id, id);
+    skipped.push({ kind, id, label, reason: 'Already in this workspace' });
+    return true;
+  };
+
+  const projects: Project[] = [];
+  for (const project of data.projects) {
+    if (alreadyPresent('project', project.id, project.title)) continue;
+    const id = generateId('proj');
+    idMap.set(project.id, id);
+    projects.push({ ...project, id });
+  }
+
+  const tasks: Task[] = [];
+  for (const task of data.tasks) {
+    if (alreadyPresent('task', task.id, task.title)) continue;
+    const projectId = idMap.get(task.projectId);
+    if (!projectId) {
+      skipped.push({ kind: 'task', id: task.id, label: task.title, reason: 'Its project is not in the backup' });
+      continue;
+    }
+    const id = generateId('task');
+    idMap.set(task.id, id);
+    restoredTaskIds.add(id);
+    tasks.push({ ...task, id, projectId });
+  }
+
+  // Links can only be rewritten once every task has its new id
+  const remapLinks = (ids?: string[]) =>
+    ids?.map(id => idMap.get(id)).filter((id): id is string => !!id);
+  tasks.forEach(task => {
+    task.dependencies = remapLinks(task.dependencies);
+    task.blockedBy = remapLinks(task.blockedBy);
+    task.parentId = task.parentId ? idMap.get(task.parentId) : undefined;
+  });
+
+  const comments: Comment[] = [];
+  for (const comment of data.comments) {
+    if (alreadyPresent('comment', comment.id, comment.content.slice(0, 40))) continue;
+    const taskId = idMap.get(comment.taskId);
+    if (!taskId) {
+      skipped.push({ kind: 'comment', id: comment.id, label: comment.content.slice(0, 40), reason: 'Its task is not in the backup' });
+      continue;
+    }
+    comments.push({ ...comment, id: generateId('com'), taskId });
+  }
+
+  const notifications: Notification[] = [];
+  for (const notification of data.notifications) {
+    if (alreadyPresent('notification', notification.id, notification.title)) continue;
+    notifications.push({
+      ...notification,
+      id: generateId('notif'),
+      taskId: notification.taskId ? idMap.get(notification.taskId) : undefined,
+      projectId: notification.projectId ? idMap.get(notification.projectId) : undefined,
+    });
+  }
+
+  const attachments: AttachmentRestore[] = [];
+  for (const attachment of data.attachments) {
+    const taskId = idMap.get(attachment.task_id);
+    if (!taskId) {
+      skipped.push({ kind: 'attachment', id: attachment.id, label: attachment.file_name, reason: 'Its task is not in the backup' });
+    } else if (!restoredTaskIds.has(taskId)) {
+      skipped.push({ kind: 'attachment', id: attachment.id, label: attachment.file_name, reason: 'Already in this workspace' });
+    } else {
+      attachments.push({ source: attachment, taskId });
+    }
+  }
+
+  return {
+    mode,
+    projects,
+    tasks,
+    comments,
+    notifications,
+    attachments,
+    preferences: merging ? undefined : data.preferences,
+    skipped,
+  };
+}
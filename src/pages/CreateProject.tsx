@@ -1,9 +1,11 @@
 import React, { useState } from 'react';
 import { useNavigate } from 'react-router-dom';
+import { Download } from 'lucide-react';
 import { useProject } from '@/contexts/ProjectContext';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
+import { ImportProjectDialog } from '@/components/projects/ImportProjectDialog';
 import {
   Select,
   SelectContent,
@@ -35,6 +37,7 @@ export function CreateProject() {
   const [teamMemberIds, setTeamMemberIds] = useState<string[]>([]);
   const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
   const [endDate, setEndDate] = useState('');
+  const [importOpen, setImportOpen] = useState(false);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
@@ -63,9 +66,15 @@ export function CreateProject() {
   return (
     <div className="h-full overflow-y-auto scrollbar-thin">
       <div className="max-w-2xl mx-auto p-8">
-        <div className="mb-8">
-          <h1 className="text-2xl font-bold text-foreground mb-2">Create New Project</h1>
-          <p className="text-muted-foreground">Set up a new project for your team</p>
+        <div className="mb-8 flex items-start justify-between gap-4">
+          <div>
+            <h1 className="text-2xl font-bold text-foreground mb-2">Create New Project</h1>
+            <p className="text-muted-foreground">Set up a new project for your team</p>
+          </div>
+          <Button variant="outline" onClick={() => setImportOpen(true)} className="gap-2 shrink-0">
+            <Download className="h-4 w-4" />
+            Import
+          </Button>
         </div>
 
         <form onSubmit={handleSubmit} className="space-y-6 bg-card border border-border rounded-xl p-6">
@@ -180,6 +189,8 @@ export function CreateProject() {
           </div>
         </form>
       </div>
+
+      <ImportProjectDialog open={importOpen} onOpenChange={setImportOpen} />
     </div>
   );
 }
@@ -5,16 +5,22 @@ import { useProject } from '@/contexts/ProjectContext';
 import { Button } from '@/components/ui/button';
 import { ProjectCard } from '@/components/projects/ProjectCard';
 import { cn } from '@/lib/utils';
+import { Task } from '@/types';
+import { inProgressStatus, isBlockedStatus } from '@/lib/workflow';
 
 export function Dashboard() {
   const navigate = useNavigate();
-  const { projects, tasks, teamMembers } = useProject();
+  const { projects, tasks, teamMembers, getTaskStatus, getProjectWorkflow } = useProject();
 
-  // Calculate stats
+  // Calculate stats; projects name their statuses differently, so go by each project's workflow
+  const isBlocked = (task: Task) => getTaskStatus(task).category !== 'done'
+    && (!!task.blockedBy?.length || isBlockedStatus(getProjectWorkflow(task.projectId), task.status));
   const totalTasks = tasks.length;
-  const completedTasks = tasks.filter(t => t.status === 'done').length;
-  const inProgressTasks = tasks.filter(t => t.status === 'in-progress').length;
-  const blockedTasks = tasks.filter(t => t.status === 'blocked').length;
+  const completedTasks = tasks.filter(t => getTaskStatus(t).category === 'done').length;
+  const inProgressTasks = tasks.filter(t =>
+    t.status === inProgressStatus(getProjectWorkflow(t.projectId)) && !isBlocked(t)
+  ).length;
+  const blockedTasks = tasks.filter(isBlocked).length;
   const completionRate = totalTasks > 0 ? Math.round((completedTasks / totalTasks) * 100) : 0;
 
   const stats = [
@@ -122,7 +128,7 @@ export function Dashboard() {
           <div className="bg-card rounded-xl border border-border overflow-hidden">
             <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-6 divide-x divide-y sm:divide-y-0 divide-border">
               {teamMembers.map(member => {
-                const memberTasks = tasks.filter(t => t.assigneeIds.includes(member.id) && t.status !== 'done');
+                const memberTasks = tasks.filter(t => t.assigneeIds.includes(member.id) && getTaskStatus(t).category !== 'done');
                 return (
                   <div key={member.id} className="p-3 md:p-4 text-center hover:bg-muted/50 transition-colors">
                     <div className="w-10 h-10 md:w-12 md:h-12 rounded-full bg-primary/10 text-primary font-semibold flex items-center justify-center mx-auto mb-2 text-sm md:text-base">
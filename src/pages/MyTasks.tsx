@@ -1,9 +1,10 @@
 import React from 'react';
 import { useProject } from '@/contexts/ProjectContext';
 import { CheckSquare } from 'lucide-react';
+import { StatusBadge } from '@/components/tasks/StatusBadge';
 
 export function MyTasks() {
-  const { tasks } = useProject();
+  const { tasks, getTaskStatus } = useProject();
 
   return (
     <div className="p-4 md:p-6 h-full overflow-y-auto">
@@ -30,14 +31,7 @@ export function MyTasks() {
               <h3 className="font-medium text-foreground">{task.title}</h3>
               <p className="text-sm text-muted-foreground mt-1">{task.description}</p>
               <div className="flex items-center gap-2 mt-3">
-                <span className={`text-xs px-2 py-0.5 rounded-full capitalize ${
-                  task.status === 'done' ? 'bg-status-done/10 text-status-done' :
-                  task.status === 'in-progress' ? 'bg-status-progress/10 text-status-progress' :
-                  task.status === 'blocked' ? 'bg-status-blocked/10 text-status-blocked' :
-                  'bg-muted text-muted-foreground'
-                }`}>
-                  {task.status.replace('-', ' ')}
-                </span>
+                <StatusBadge status={getTaskStatus(task)} className="py-0.5" />
               </div>
             </div>
           ))}
@@ -1,9 +1,12 @@
 import React, { useState, useEffect } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
-import { LayoutGrid, List, Calendar as CalendarIcon, BarChart3, MoreHorizontal, Plus, Settings } from 'lucide-react';
+import { LayoutGrid, List, Calendar as CalendarIcon, BarChart3, MoreHorizontal, Plus, Settings, Loader2, Upload, Flag } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
 import { useProject } from '@/contexts/ProjectContext';
 import { useIsMobile } from '@/hooks/use-mobile';
 import { cn } from '@/lib/utils';
+import { scheduleProject } from '@/lib/criticalPath';
+import { isDoneStatus } from '@/lib/workflow';
 import { Button } from '@/components/ui/button';
 import { KanbanBoard } from '@/components/tasks/KanbanBoard';
 import { ListView } from '@/components/tasks/ListView';
@@ -11,7 +14,9 @@ import { CalendarView } from '@/components/tasks/CalendarView';
 import { TimelineView } from '@/components/tasks/TimelineView';
 import { TaskDetailPanel } from '@/components/tasks/TaskDetailPanel';
 import { CreateTaskDialog } from '@/components/tasks/CreateTaskDialog';
+import { ImportTasksDialog } from '@/components/tasks/ImportTasksDialog';
 import { Sheet, SheetContent } from '@/components/ui/sheet';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -33,10 +38,20 @@ export function ProjectDetail() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
   const isMobile = useIsMobile();
-  const { projects, currentTaskId, setCurrentTaskId, setCurrentProjectId, deleteProject } = useProject();
+  const {
+    projects,
+    currentTaskId,
+    setCurrentTaskId,
+    setCurrentProjectId,
+    deleteProject,
+    getProjectTasks,
+    getProjectWorkflow,
+    isLoading,
+  } = useProject();
   
   const [currentView, setCurrentView] = useState<ViewType>('kanban');
   const [createTaskOpen, setCreateTaskOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
   const project = projects.find(p => p.id === projectId);
 
@@ -47,6 +62,14 @@ export function ProjectDetail() {
     return () => setCurrentProjectId(null);
   }, [projectId, setCurrentProjectId]);
 
+  if (!project && isLoading) {
+    return (
+      <div className="flex items-center justify-center h-full">
+        <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
   if (!project) {
     return (
       <div className="flex items-center justify-center h-full">
@@ -64,6 +87,13 @@ export function ProjectDetail() {
     navigate('/');
   };
 
+  // Forecast from the critical path, so it moves as soon as a task slips
+  const workflow = getProjectWorkflow(project.id);
+  const forecast = scheduleProject(getProjectTasks(project.id), task => isDoneStatus(workflow, task.status)).finish;
+  const daysLate = forecast && project.endDate
+    ? differenceInCalendarDays(forecast, parseISO(project.endDate))
+    : 0;
+
   return (
     <div className="h-full flex">
       {/* Main content */}
@@ -87,6 +117,27 @@ export function ProjectDetail() {
               </div>
             </div>
             <div className="flex items-center gap-1 md:gap-2 shrink-0">
+              {forecast && (
+                <Tooltip>
+                  <TooltipTrigger asChild>
+                    <span
+                      className={cn(
+                        'flex items-center gap-1.5 px-2 text-xs md:text-sm',
+                        daysLate > 0 ? 'text-destructive font-medium' : 'text-muted-foreground'
+                      )}
+                    >
+                      <Flag className="h-4 w-4" />
+                      {!isMobile && 'Finishes on '}
+                      {format(forecast, 'MMM d, yyyy')}
+                    </span>
+                  </TooltipTrigger>
+                  <TooltipContent>
+                    {daysLate > 0
+                      ? `${daysLate} ${daysLate === 1 ? 'day' : 'days'} after the planned end of ${format(parseISO(project.endDate), 'MMM d, yyyy')}`
+                      : 'Forecast from the critical path in the timeline'}
+                  </TooltipContent>
+                </Tooltip>
+              )}
               <Button size={isMobile ? "icon" : "sm"} onClick={() => setCreateTaskOpen(true)} className={cn(!isMobile && "gap-2")}>
                 <Plus className="h-4 w-4" />
                 {!isMobile && <span>Add Task</span>}
@@ -102,6 +153,10 @@ export function ProjectDetail() {
                     <Settings className="h-4 w-4 mr-2" />
                     Project Settings
                   </DropdownMenuItem>
+                  <DropdownMenuItem onClick={() => setImportOpen(true)}>
+                    <Upload className="h-4 w-4 mr-2" />
+                    Import from CSV
+                  </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem 
                     className="text-destructive"
@@ -149,6 +204,7 @@ export function ProjectDetail() {
           <SheetContent side="right" className="p-0 w-full sm:max-w-lg">
             {currentTaskId && (
               <TaskDetailPanel 
+                key={currentTaskId}
                 taskId={currentTaskId} 
                 onClose={() => setCurrentTaskId(null)} 
               />
@@ -158,6 +214,7 @@ export function ProjectDetail() {
       ) : (
         currentTaskId && (
           <TaskDetailPanel 
+            key={currentTaskId}
             taskId={currentTaskId} 
             onClose={() => setCurrentTaskId(null)} 
           />
@@ -170,6 +227,13 @@ export function ProjectDetail() {
         onOpenChange={setCreateTaskOpen}
         projectId={project.id}
       />
+
+      {/* CSV import dialog */}
+      <ImportTasksDialog
+        open={importOpen}
+        onOpenChange={setImportOpen}
+        projectId={project.id}
+      />
     </div>
   );
 }
@@ -13,7 +13,17 @@ import { Badge } from '@/components/ui/badge';
 import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle, DialogTrigger } from '@/components/ui/dialog';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
-import { ROLE_LABELS, Role } from '@/types';
+import { CustomFieldDefinition, ROLE_LABELS, Role, TransitionRules, WipLimit, WorkflowStatus } from '@/types';
+import { TaskTemplateSettings } from '@/components/settings/TaskTemplateSettings';
+import { CustomFieldSettings } from '@/components/settings/CustomFieldSettings';
+import { WorkflowSettings } from '@/components/settings/WorkflowSettings';
+import { TransitionRuleSettings } from '@/components/settings/TransitionRuleSettings';
+import { WipLimitSettings } from '@/components/settings/WipLimitSettings';
+import { useCanManage } from '@/hooks/useCanManage';
+import { validateCustomFields } from '@/lib/customFields';
+import { projectWorkflow, validateWorkflow } from '@/lib/workflow';
+import { pruneTransitionRules } from '@/lib/transitions';
+import { pruneWipLimits, validateWipLimits } from '@/lib/wipLimits';
 
 interface TeamMemberDB {
   id: string;
@@ -27,8 +37,9 @@ interface TeamMemberDB {
 export function ProjectSettings() {
   const { projectId } = useParams<{ projectId: string }>();
   const navigate = useNavigate();
-  const { projects, updateProject } = useProject();
+  const { projects, updateProject, updateWorkflow, getProjectTasks } = useProject();
   const { toast } = useToast();
+  const canManage = useCanManage();
 
   const project = projects.find(p => p.id === projectId);
 
@@ -38,6 +49,10 @@ export function ProjectSettings() {
   const [startDate, setStartDate] = useState('');
   const [endDate, setEndDate] = useState('');
   const [color, setColor] = useState('#6366f1');
+  const [customFields, setCustomFields] = useState<CustomFieldDefinition[]>([]);
+  const [workflow, setWorkflow] = useState<WorkflowStatus[]>([]);
+  const [transitionRules, setTransitionRules] = useState<TransitionRules | undefined>(undefined);
+  const [wipLimits, setWipLimits] = useState<WipLimit[]>([]);
 
   // Team members state
   const [allTeamMembers, setAllTeamMembers] = useState<TeamMemberDB[]>([]);
@@ -55,6 +70,10 @@ export function ProjectSettings() {
       setEndDate(project.endDate?.split('T')[0] || '');
       setColor(project.color);
       setProjectMemberIds(project.teamMemberIds || []);
+      setCustomFields(project.customFields || []);
+      setWorkflow(projectWorkflow(project));
+      setTransitionRules(project.transitionRules);
+      setWipLimits(project.wipLimits || []);
     }
   }, [project]);
 
@@ -89,6 +108,24 @@ export function ProjectSettings() {
   }
 
   const handleSave = () => {
+    const fieldProblems = validateCustomFields(customFields);
+    if (fieldProblems.length > 0) {
+      toast({ title: 'Check the custom fields', description: fieldProblems[0], variant: 'destructive' });
+      return;
+    }
+    const workflowProblems = validateWorkflow(workflow);
+    if (workflowProblems.length > 0) {
+      toast({ title: 'Check the workflow', description: workflowProblems[0], variant: 'destructive' });
+      return;
+    }
+    const limitProblems = validateWipLimits(wipLimits);
+    if (limitProblems.length > 0) {
+      toast({ title: 'Check the WIP limits', description: limitProblems[0], variant: 'destructive' });
+      return;
+    }
+
+    const statuses = workflow.map(s => ({ ...s, label: s.label.trim() }));
+
     updateProject(project.id, {
       title,
       description,
@@ -97,11 +134,25 @@ export function ProjectSettings() {
       endDate: endDate ? new Date(endDate).toISOString() : undefined,
       color,
       teamMemberIds: projectMemberIds,
+      // Left out for other users so saving never overwrites a manager's changes
+      ...(canManage
+        ? {
+            customFields: customFields.map(f => ({ ...f, name: f.name.trim() })),
+            transitionRules: pruneTransitionRules(transitionRules ?? {}, statuses),
+            wipLimits: pruneWipLimits(wipLimits, statuses),
+          }
+        : {}),
     });
 
+    // Projects keep using the default workflow until someone actually changes it
+    const workflowChanged = JSON.stringify(statuses) !== JSON.stringify(projectWorkflow(project));
+    const movedTasks = canManage && workflowChanged ? updateWorkflow(project.id, statuses) : 0;
+
     toast({
       title: 'Project updated',
-      description: 'Your changes have been saved.',
+      description: movedTasks > 0
+        ? `Your changes have been saved. ${movedTasks} ${movedTasks === 1 ? 'task was' : 'tasks were'} moved out of removed statuses.`
+        : 'Your changes have been saved.',
     });
 
     navigate(`/projects/${project.id}`);
@@ -158,6 +209,11 @@ export function ProjectSettings() {
     });
   };
 
+  const taskCounts = getProjectTasks(project.id).reduce<Record<string, number>>((counts, task) => {
+    counts[task.status] = (counts[task.status] ?? 0) + 1;
+    return counts;
+  }, {});
+
   const projectMembers = allTeamMembers.filter(m => projectMemberIds.includes(m.id));
   const availableMembers = allTeamMembers.filter(m => !projectMemberIds.includes(m.id));
 
@@ -373,6 +429,26 @@ export function ProjectSettings() {
           </CardContent>
         </Card>
 
+        {/* Workflow Card */}
+        <WorkflowSettings statuses={workflow} onChange={setWorkflow} taskCounts={taskCounts} canEdit={canManage} />
+
+        {/* Transition Rules Card */}
+        <TransitionRuleSettings
+          rules={transitionRules}
+          onChange={setTransitionRules}
+          workflow={workflow}
+          canEdit={canManage}
+        />
+
+        {/* WIP Limits Card */}
+        <WipLimitSettings limits={wipLimits} onChange={setWipLimits} workflow={workflow} canEdit={canManage} />
+
+        {/* Custom Fields Card */}
+        <CustomFieldSettings fields={customFields} onChange={setCustomFields} canEdit={canManage} />
+
+        {/* Task Templates Card */}
+        <TaskTemplateSettings projectId={project.id} />
+
         {/* Save Button */}
         <div className="flex justify-end gap-3">
           <Button variant="outline" onClick={() => navigate(`/projects/${project.id}`)}>
@@ -1,9 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
-import { Camera, Loader2, Save, User, Bell, Palette, Globe, LogOut, Mail, Phone, Briefcase, Shield, Lock, Trash2, AlertTriangle } from 'lucide-react';
+import { Camera, Loader2, Save, User, Bell, Palette, Globe, LogOut, Mail, Phone, Briefcase, Shield, Lock, Trash2, AlertTriangle, Database } from 'lucide-react';
 import { PasswordInput } from '@/components/auth/PasswordInput';
 import { PasswordStrengthIndicator } from '@/components/auth/PasswordStrengthIndicator';
+import { WorkspaceBackup } from '@/components/settings/WorkspaceBackup';
+import { TrashSettings } from '@/components/settings/TrashSettings';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
@@ -276,7 +278,7 @@ export function Settings() {
       </div>
 
       <Tabs defaultValue="profile" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3 h-11">
+        <TabsList className="grid w-full grid-cols-4 h-11">
           <TabsTrigger value="profile" className="gap-2">
             <User className="h-4 w-4 hidden sm:block" />
             Profile
@@ -285,6 +287,10 @@ export function Settings() {
             <Palette className="h-4 w-4 hidden sm:block" />
             Preferences
           </TabsTrigger>
+          <TabsTrigger value="data" className="gap-2">
+            <Database className="h-4 w-4 hidden sm:block" />
+            Data
+          </TabsTrigger>
           <TabsTrigger value="account" className="gap-2">
             <Shield className="h-4 w-4 hidden sm:block" />
             Account
@@ -551,6 +557,12 @@ export function Settings() {
           </div>
         </TabsContent>
 
+        {/* Data Tab */}
+        <TabsContent value="data" className="space-y-6">
+          <WorkspaceBackup />
+          <TrashSettings />
+        </TabsContent>
+
         {/* Account Tab */}
         <TabsContent value="account" className="space-y-6">
           <Card>
@@ -0,0 +1,248 @@
+import React, { useState } from 'react';
+import { format, formatDistanceToNowStrict } from 'date-fns';
+import { FolderKanban, ListTodo, Loader2, RotateCcw, Trash2 } from 'lucide-react';
+import { useProject } from '@/contexts/ProjectContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Tooltip, TooltipContent, TooltipTrigger } from '@/components/ui/tooltip';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { getSafeErrorMessage, logError } from '@/lib/errorHandler';
+import { TrashSelection, purgeDate } from '@/lib/trash';
+import { Task } from '@/types';
+
+interface PendingPurge {
+  selection: TrashSelection;
+  title: string;
+  description: string;
+}
+
+export function Trash() {
+  const {
+    projects,
+    trashedProjects,
+    trashedTasks,
+    preferences,
+    restoreProject,
+    restoreTask,
+    purgeTrash,
+    getTeamMember,
+    isOnline,
+  } = useProject();
+  const { toast } = useToast();
+  const [pendingPurge, setPendingPurge] = useState<PendingPurge | null>(null);
+  const [isPurging, setIsPurging] = useState(false);
+
+  const retentionDays = preferences.trashRetentionDays;
+  const trashedProjectIds = new Set(trashedProjects.map(p => p.id));
+  const projectTitle = (id: string) =>
+    projects.find(p => p.id === id)?.title ?? trashedProjects.find(p => p.id === id)?.title ?? 'Unknown project';
+  const isEmpty = trashedProjects.length === 0 && trashedTasks.length === 0;
+
+  const describeDeletion = (deletedAt: string, deletedBy?: string) => {
+    const who = deletedBy ? getTeamMember(deletedBy)?.name ?? 'a former member' : 'someone';
+    const purgeIn = formatDistanceToNowStrict(purgeDate(deletedAt, retentionDays));
+    return `Deleted by ${who} on ${format(new Date(deletedAt), 'MMM d, yyyy')} · removed for good in ${purgeIn}`;
+  };
+
+  const handleRestoreProject = (id: string, title: string) => {
+    restoreProject(id);
+    toast({ title: 'Project restored', description: `"${title}" and its tasks are back.` });
+  };
+
+  const handleRestoreTask = (task: Task) => {
+    restoreTask(task.id);
+    toast({ title: 'Task restored', description: `"${task.title}" is back in ${projectTitle(task.projectId)}.` });
+  };
+
+  const handlePurge = async () => {
+    if (!pendingPurge) return;
+    setIsPurging(true);
+    try {
+      const { purged, skipped } = await purgeTrash(pendingPurge.selection);
+      if (skipped > 0) {
+        toast({
+          title: `${skipped} item(s) could not be deleted`,
+          description: 'Only the creator of a project or an admin can delete it permanently.',
+          variant: 'destructive',
+        });
+      } else {
+        toast({ title: 'Deleted permanently', description: `${purged} item(s) removed from the trash.` });
+      }
+    } catch (error) {
+      logError('Trash:purge', error);
+      toast({ title: 'Could not empty the trash', description: getSafeErrorMessage(error), variant: 'destructive' });
+    } finally {
+      setIsPurging(false);
+      setPendingPurge(null);
+    }
+  };
+
+  const confirmEmptyTrash = () => {
+    setPendingPurge({
+      selection: {
+        projectIds: trashedProjects.map(p => p.id),
+        // Tasks inside a trashed project go with it
+        taskIds: trashedTasks.filter(t => !trashedProjectIds.has(t.projectId)).map(t => t.id),
+      },
+      title: 'Empty trash?',
+      description: 'Every project and task in the trash will be deleted permanently, along with their comments and attachments.',
+    });
+  };
+
+  return (
+    <div className="p-4 md:p-6 h-full overflow-y-auto space-y-6">
+      <div className="flex items-center justify-between gap-4">
+        <div>
+          <h1 className="text-xl md:text-2xl font-bold text-foreground">Trash</h1>
+          <p className="text-sm md:text-base text-muted-foreground">
+            Deleted projects and tasks are kept for {retentionDays} days before they are removed for good.
+          </p>
+        </div>
+        <Button variant="outline" onClick={confirmEmptyTrash} disabled={isEmpty || !isOnline}>
+          <Trash2 className="h-4 w-4 mr-2" />
+          Empty Trash
+        </Button>
+      </div>
+
+      {isEmpty ? (
+        <div className="flex flex-col items-center justify-center py-16 text-center">
+          <Trash2 className="h-16 w-16 text-muted-foreground/30 mb-4" />
+          <h3 className="text-lg font-medium text-foreground mb-2">Trash is empty</h3>
+          <p className="text-muted-foreground max-w-md">
+            Projects and tasks you delete will appear here, so they can be restored if needed.
+          </p>
+        </div>
+      ) : (
+        <>
+          {trashedProjects.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <FolderKanban className="h-5 w-5" />
+                  Projects
+                </CardTitle>
+                <CardDescription>Restoring a project brings back its tasks too.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {trashedProjects.map(project => (
+                  <div key={project.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+                    <div
+                      className="w-8 h-8 rounded-lg flex items-center justify-center font-bold text-primary-foreground shrink-0"
+                      style={{ backgroundColor: project.color }}
+                    >
+                      {project.title.charAt(0)}
+                    </div>
+                    <div className="flex-1 min-w-0">
+                      <p className="font-medium text-foreground truncate">{project.title}</p>
+                      <p className="text-xs text-muted-foreground truncate">
+                        {describeDeletion(project.deletedAt!, project.deletedBy)}
+                      </p>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleRestoreProject(project.id, project.title)}>
+                      <RotateCcw className="h-4 w-4 mr-2" />
+                      Restore
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      disabled={!isOnline}
+                      onClick={() => setPendingPurge({
+                        selection: { projectIds: [project.id], taskIds: [] },
+                        title: 'Delete project permanently?',
+                        description: `"${project.title}" will be deleted with all of its tasks, comments and attachments. This action cannot be undone.`,
+                      })}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))}
+              </CardContent>
+            </Card>
+          )}
+
+          {trashedTasks.length > 0 && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="text-lg flex items-center gap-2">
+                  <ListTodo className="h-5 w-5" />
+                  Tasks
+                </CardTitle>
+                <CardDescription>Tasks deleted on their own. Comments and attachments come back with them.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {trashedTasks.map(task => {
+                  const projectInTrash = trashedProjectIds.has(task.projectId);
+                  return (
+                    <div key={task.id} className="flex items-center gap-3 p-3 rounded-lg border border-border">
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium text-foreground truncate">{task.title}</p>
+                        <p className="text-xs text-muted-foreground truncate">
+                          {projectTitle(task.projectId)} · {describeDeletion(task.deletedAt!, task.deletedBy)}
+                        </p>
+                      </div>
+                      <Tooltip>
+                        <TooltipTrigger asChild>
+                          {/* Disabled buttons swallow pointer events, so the tooltip needs a wrapper */}
+                          <span>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              disabled={projectInTrash}
+                              onClick={() => handleRestoreTask(task)}
+                            >
+                              <RotateCcw className="h-4 w-4 mr-2" />
+                              Restore
+                            </Button>
+                          </span>
+                        </TooltipTrigger>
+                        {projectInTrash && <TooltipContent>Restore its project first</TooltipContent>}
+                      </Tooltip>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-8 w-8 text-destructive hover:text-destructive"
+                        disabled={!isOnline}
+                        onClick={() => setPendingPurge({
+                          selection: { projectIds: [], taskIds: [task.id] },
+                          title: 'Delete task permanently?',
+                          description: `"${task.title}" will be deleted with its comments and attachments. This action cannot be undone.`,
+                        })}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          )}
+        </>
+      )}
+
+      <AlertDialog open={!!pendingPurge} onOpenChange={open => !open && !isPurging && setPendingPurge(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingPurge?.title}</AlertDialogTitle>
+            <AlertDialogDescription>{pendingPurge?.description}</AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={isPurging}>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={event => {
+                event.preventDefault();
+                handlePurge();
+              }}
+              disabled={isPurging}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              {isPurging && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+              Delete Permanently
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 export type TaskType = 'development' | 'research' | 'gis' | 'marketing' | 'general';
 export type Priority = 'low' | 'medium' | 'high' | 'urgent';
-export type Status = 'backlog' | 'todo' | 'in-progress' | 'review' | 'blocked' | 'done';
+// Id of a status in the task's project workflow, see lib/workflow
+export type Status = string;
 export type Role = 'developer' | 'researcher' | 'gis-specialist' | 'marketer' | 'manager';
 
 export interface TeamMember {
@@ -10,6 +11,8 @@ export interface TeamMember {
   avatar?: string;
   role: Role;
   initials: string;
+  // Auth account linked to this member, if they have signed up
+  userId?: string;
 }
 
 export interface Comment {
@@ -21,6 +24,106 @@ export interface Comment {
   updatedAt?: string;
 }
 
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  done: boolean;
+}
+
+export type StatusCategory = 'not-started' | 'active' | 'done';
+
+// One column of a project's workflow
+export interface WorkflowStatus {
+  id: Status;
+  label: string;
+  // Hex color, e.g. #0da2e7
+  color: string;
+  category: StatusCategory;
+  // Email the assignees when a task moves into this status
+  notify?: boolean;
+}
+
+// Conditions a task must meet before it may move into a status, see lib/transitions
+export type TransitionRequirement = 'ethics-approved' | 'pr-link' | 'subtasks-done' | 'checklist-done' | 'assignee';
+
+// Extra checks on moves into one status
+export interface TransitionGuard {
+  id: string;
+  to: Status;
+  // Only tasks of these types are checked; unset for all
+  taskTypes?: TaskType[];
+  // Team roles that may make the move; unset for everyone. Admins always may.
+  roles?: Role[];
+  requires?: TransitionRequirement[];
+}
+
+export interface TransitionRules {
+  // Statuses each status may move to; statuses without an entry may move anywhere
+  allowed?: Record<Status, Status[]>;
+  guards?: TransitionGuard[];
+}
+
+// A WIP limit counts the whole column, or each assignee's tasks in it separately
+export type WipScope = 'column' | 'assignee';
+
+// Work-in-progress limit on one status, see lib/wipLimits
+export interface WipLimit {
+  id: string;
+  status: Status;
+  scope: WipScope;
+  // Over a soft limit is highlighted; a hard limit refuses moves unless a manager overrides
+  soft?: number;
+  hard?: number;
+}
+
+// A move that left a status over one of its WIP limits
+export interface WipBreach {
+  id: string;
+  projectId: string;
+  taskId: string;
+  status: Status;
+  scope: WipScope;
+  level: 'soft' | 'hard';
+  limit: number;
+  // Tasks in the status (for the assignee) after the move
+  count: number;
+  assigneeId?: string;
+  // Team member who overrode a hard limit
+  overriddenBy?: string;
+  createdAt: string;
+}
+
+export type CustomFieldType = 'text' | 'number' | 'date' | 'select' | 'multi-select' | 'url' | 'user' | 'checkbox';
+
+// A field a project adds to its tasks, see lib/customFields
+export interface CustomFieldDefinition {
+  id: string;
+  name: string;
+  type: CustomFieldType;
+  // Choices of select and multi-select fields
+  options?: string[];
+}
+
+// Dates are yyyy-MM-dd, user fields hold a team member id
+export type CustomFieldValue = string | number | boolean | string[];
+
+export type Weekday = 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA' | 'SU';
+
+// RRULE-style schedule, see lib/recurrence
+export interface RecurrenceRule {
+  frequency: 'daily' | 'weekly' | 'monthly' | 'yearly';
+  // Every n days, weeks, months or years
+  interval: number;
+  // Weekly rules: the days of the week it falls on
+  weekdays?: Weekday[];
+  // Monthly rules: a day of the month (-1 is the last day), or e.g. the 2nd Tuesday
+  monthDay?: number;
+  nthWeekday?: { weekday: Weekday; n: number };
+  // Last possible date (yyyy-MM-dd), or the occurrences left including this one
+  until?: string;
+  count?: number;
+}
+
 export interface Task {
   id: string;
   projectId: string;
@@ -31,6 +134,9 @@ export interface Task {
   status: Status;
   assigneeIds: string[];
   dueDate?: string;
+  // Planned start (yyyy-MM-dd) and length in days, see lib/criticalPath
+  startDate?: string;
+  duration?: number;
   tags: string[];
   createdAt: string;
   updatedAt: string;
@@ -58,6 +164,60 @@ export interface Task {
   
   dependencies?: string[];
   blockedBy?: string[];
+
+  // Set on subtasks; a subtask is a full task of the same project
+  parentId?: string;
+  checklist?: ChecklistItem[];
+
+  // Position within its board column, see lib/rank
+  rank?: string;
+
+  // Set on the open instance of a recurring task
+  recurrence?: RecurrenceRule;
+
+  // Values of the project's custom fields, by field id
+  customFieldValues?: Record<string, CustomFieldValue>;
+
+  // Set while the task is in the trash; deletedBy is a team member id
+  deletedAt?: string;
+  deletedBy?: string;
+}
+
+// Type-specific fields and checklist a template copies into new tasks
+export type TemplateFields = Partial<Omit<
+  Task,
+  'id' | 'projectId' | 'title' | 'description' | 'type' | 'priority' | 'status' | 'assigneeIds' | 'dueDate' | 'tags' | 'createdAt' | 'updatedAt'
+>>;
+
+export interface TaskTemplate {
+  id: string;
+  name: string;
+  // Unset for templates shared across the workspace
+  projectId?: string;
+  // Task title; may contain placeholders, see lib/taskTemplates
+  titlePattern: string;
+  description: string;
+  type: TaskType;
+  priority: Priority;
+  tags: string[];
+  fields: TemplateFields;
+  // Due date of new tasks, in days after the day they are created
+  dueOffsetDays?: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TaskActivity {
+  id: string;
+  taskId: string;
+  kind: 'created' | 'updated' | 'comment' | 'attachment';
+  // Task field that changed, for 'updated' entries
+  field?: string;
+  oldValue?: unknown;
+  newValue?: unknown;
+  // Auth user who made the change
+  actorId?: string;
+  createdAt: string;
 }
 
 export interface Project {
@@ -69,8 +229,17 @@ export interface Project {
   endDate?: string;
   status: 'active' | 'completed' | 'archived' | 'on-hold';
   color: string;
+  customFields?: CustomFieldDefinition[];
+  // Task statuses in board order; unset for the default workflow
+  workflow?: WorkflowStatus[];
+  // Unset when every move between statuses is allowed
+  transitionRules?: TransitionRules;
+  wipLimits?: WipLimit[];
   createdAt: string;
   updatedAt: string;
+  // Set while the project is in the trash; deletedBy is a team member id
+  deletedAt?: string;
+  deletedBy?: string;
 }
 
 export interface Notification {
@@ -82,25 +251,18 @@ export interface Notification {
   createdAt: string;
   taskId?: string;
   projectId?: string;
+  // Auth user the notification is for; missing on ones kept from before sign-in
+  userId?: string;
 }
 
 export interface UserPreferences {
   defaultView: 'kanban' | 'list' | 'calendar' | 'timeline';
   sidebarCollapsed: boolean;
   theme: 'light' | 'dark' | 'system';
+  // Days items stay in the trash before they are deleted permanently
+  trashRetentionDays: number;
 }
 
-export const STATUS_ORDER: Status[] = ['backlog', 'todo', 'in-progress', 'review', 'blocked', 'done'];
-
-export const STATUS_LABELS: Record<Status, string> = {
-  'backlog': 'Backlog',
-  'todo': 'To Do',
-  'in-progress': 'In Progress',
-  'review': 'Review',
-  'blocked': 'Blocked',
-  'done': 'Done'
-};
-
 export const PRIORITY_LABELS: Record<Priority, string> = {
   'low': 'Low',
   'medium': 'Medium',
@@ -123,3 +285,6 @@ export const ROLE_LABELS: Record<Role, string> = {
   'marketer': 'Marketer',
   'manager': 'Manager'
 };
+
+// Omit applied to each member of a union, so every variant keeps its own fields
+export type DistributiveOmit<T, K extends PropertyKey> = T extends unknown ? Omit<T, K> : never;
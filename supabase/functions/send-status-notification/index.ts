@@ -18,9 +18,14 @@ interface StatusChangeRequest {
   taskTitle: string;
   projectName: string;
   newStatus: string;
+  // From the project's workflow; older clients only send newStatus
+  statusLabel?: string;
+  statusColor?: string;
+  statusCategory?: 'not-started' | 'active' | 'done';
   changedBy?: string;
 }
 
+// Fallbacks for the default workflow's status ids
 const getStatusLabel = (status: string): string => {
   const labels: Record<string, string> = {
     'backlog': 'Backlog',
@@ -41,14 +46,21 @@ const getStatusColor = (status: string): string => {
   }
 };
 
-const getStatusEmoji = (status: string): string => {
+const getStatusCategory = (status: string): string => {
   switch (status) {
-    case 'done': return '✅';
-    case 'review': return '👀';
-    default: return '📋';
+    case 'done': return 'done';
+    case 'backlog':
+    case 'todo': return 'not-started';
+    default: return 'active';
   }
 };
 
+// Statuses like "Review", "Ethics Review" or "Approval" ask the assignees to take a look
+const isReviewStatus = (label: string): boolean => /review|approv/i.test(label);
+
+// Security: Only a plain hex color is interpolated into the email's styles
+const isHexColor = (color?: string): color is string => !!color && /^#[0-9a-f]{6}$/i.test(color);
+
 // Security: Sanitize user-provided content to prevent HTML injection
 const sanitizeHtml = (text: string): string => {
   return text
@@ -94,6 +106,9 @@ const handler = async (req: Request): Promise<Response> => {
       taskTitle, 
       projectName,
       newStatus,
+      statusLabel: requestedLabel,
+      statusColor: requestedColor,
+      statusCategory: requestedCategory,
       changedBy,
     }: StatusChangeRequest = await req.json();
 
@@ -127,11 +142,14 @@ const handler = async (req: Request): Promise<Response> => {
 
     console.log(`Sending status change notification for task: ${taskTitle} to ${assignees.length} assignee(s)`);
 
-    const statusLabel = getStatusLabel(newStatus);
-    const statusColor = getStatusColor(newStatus);
-    const statusEmoji = getStatusEmoji(newStatus);
+    const statusLabel = requestedLabel?.trim() || getStatusLabel(newStatus);
+    const statusColor = isHexColor(requestedColor) ? requestedColor : getStatusColor(newStatus);
+    const isDone = (requestedCategory ?? getStatusCategory(newStatus)) === 'done';
+    const isReview = !isDone && isReviewStatus(statusLabel);
+    const statusEmoji = isDone ? '✅' : isReview ? '👀' : '📋';
 
     // Security: Sanitize user-provided content
+    const safeStatusLabel = sanitizeHtml(statusLabel);
     const safeTaskTitle = sanitizeHtml(taskTitle);
     const safeProjectName = sanitizeHtml(projectName);
     const safeChangedBy = changedBy ? sanitizeHtml(changedBy) : null;
@@ -142,7 +160,7 @@ const handler = async (req: Request): Promise<Response> => {
       const emailResponse = await resend.emails.send({
         from: "Task Updates <onboarding@resend.dev>",
         to: [assignee.email],
-        subject: `${statusEmoji} Task moved to ${statusLabel}: ${safeTaskTitle}`,
+        subject: `${statusEmoji} Task moved to ${safeStatusLabel}: ${safeTaskTitle}`,
         html: `
           <!DOCTYPE html>
           <html>
@@ -171,7 +189,7 @@ const handler = async (req: Request): Promise<Response> => {
                   <span style="font-size: 14px; color: #6b7280;">New Status:</span>
                   <span style="display: inline-flex; align-items: center; gap: 6px; background: ${statusColor}20; color: ${statusColor}; padding: 6px 12px; border-radius: 20px; font-weight: 600; font-size: 14px;">
                     <span style="width: 8px; height: 8px; border-radius: 50%; background: ${statusColor};"></span>
-                    ${statusLabel}
+                    ${safeStatusLabel}
                   </span>
                 </div>
                 
@@ -180,7 +198,7 @@ const handler = async (req: Request): Promise<Response> => {
                 </p>
               </div>
               
-              ${newStatus === 'review' ? `
+              ${isReview ? `
               <div style="background: #fef3c7; border: 1px solid #fcd34d; border-radius: 8px; padding: 16px; margin: 20px 0;">
                 <p style="margin: 0; font-size: 14px; color: #92400e;">
                   <strong>👀 Review Needed:</strong> This task is ready for review. Please take a look when you have a moment.
@@ -188,10 +206,10 @@ const handler = async (req: Request): Promise<Response> => {
               </div>
               ` : ''}
               
-              ${newStatus === 'done' ? `
+              ${isDone ? `
               <div style="background: #dcfce7; border: 1px solid #86efac; border-radius: 8px; padding: 16px; margin: 20px 0;">
                 <p style="margin: 0; font-size: 14px; color: #166534;">
-                  <strong>🎉 Task Completed:</strong> Great work! This task has been marked as done.
+                  <strong>🎉 Task Completed:</strong> Great work! This task has been marked as ${safeStatusLabel}.
                 </p>
               </div>
               ` : ''}
@@ -0,0 +1,184 @@
+-- Shared workspace tables: projects, tasks, comments and per-user notifications.
+-- IDs stay TEXT so records created client-side with generateId() keep their identity
+-- (file_attachments.task_id already references tasks by that text id).
+-- updated_at is written by the client, which owns the edit timestamp used for merging.
+
+-- Projects
+CREATE TABLE public.projects (
+  id TEXT NOT NULL PRIMARY KEY,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  team_member_ids TEXT[] NOT NULL DEFAULT '{}',
+  start_date TEXT NOT NULL,
+  end_date TEXT,
+  status TEXT NOT NULL DEFAULT 'active',
+  color TEXT NOT NULL DEFAULT '#4F46E5',
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Tasks
+CREATE TABLE public.tasks (
+  id TEXT NOT NULL PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  type TEXT NOT NULL DEFAULT 'general',
+  priority TEXT NOT NULL DEFAULT 'medium',
+  status TEXT NOT NULL DEFAULT 'todo',
+  assignee_ids TEXT[] NOT NULL DEFAULT '{}',
+  due_date TEXT,
+  tags TEXT[] NOT NULL DEFAULT '{}',
+
+  -- Development
+  git_branch TEXT,
+  pr_link TEXT,
+  story_points INTEGER,
+  technical_notes TEXT,
+
+  -- Research
+  protocol_number TEXT,
+  literature_refs TEXT[],
+  data_sources TEXT[],
+  ethics_approval TEXT,
+
+  -- GIS
+  coordinates JSONB,
+  map_layer TEXT,
+  field_work_date TEXT,
+  spatial_data_links TEXT[],
+
+  -- Marketing
+  campaign_name TEXT,
+  content_type TEXT,
+  approval_status TEXT,
+  publication_date TEXT,
+
+  dependencies TEXT[],
+  blocked_by TEXT[],
+
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_tasks_project_id ON public.tasks(project_id);
+
+-- Comments
+CREATE TABLE public.comments (
+  id TEXT NOT NULL PRIMARY KEY,
+  task_id TEXT NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  author_id TEXT NOT NULL,
+  content TEXT NOT NULL,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX idx_comments_task_id ON public.comments(task_id);
+
+-- Notifications (private to each user)
+CREATE TABLE public.notifications (
+  id TEXT NOT NULL PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  read BOOLEAN NOT NULL DEFAULT false,
+  task_id TEXT,
+  project_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_notifications_user_id ON public.notifications(user_id);
+
+-- Enable RLS
+ALTER TABLE public.projects ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.notifications ENABLE ROW LEVEL SECURITY;
+
+-- Projects: the whole team collaborates on every board
+CREATE POLICY "Authenticated users can view projects"
+ON public.projects FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can create projects"
+ON public.projects FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Authenticated users can update projects"
+ON public.projects FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Creators or admins can delete projects"
+ON public.projects FOR DELETE
+TO authenticated
+USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+-- Tasks
+CREATE POLICY "Authenticated users can view tasks"
+ON public.tasks FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can create tasks"
+ON public.tasks FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Authenticated users can update tasks"
+ON public.tasks FOR UPDATE
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can delete tasks"
+ON public.tasks FOR DELETE
+TO authenticated
+USING (true);
+
+-- Comments
+CREATE POLICY "Authenticated users can view comments"
+ON public.comments FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can create comments"
+ON public.comments FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Authors can update their own comments"
+ON public.comments FOR UPDATE
+TO authenticated
+USING (created_by = auth.uid());
+
+CREATE POLICY "Authors or admins can delete comments"
+ON public.comments FOR DELETE
+TO authenticated
+USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'));
+
+-- Notifications: users only see and manage their own
+CREATE POLICY "Users can view their own notifications"
+ON public.notifications FOR SELECT
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Authenticated users can create notifications"
+ON public.notifications FOR INSERT
+TO authenticated
+WITH CHECK (true);
+
+CREATE POLICY "Users can update their own notifications"
+ON public.notifications FOR UPDATE
+TO authenticated
+USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own notifications"
+ON public.notifications FOR DELETE
+TO authenticated
+USING (user_id = auth.uid());
@@ -0,0 +1,9 @@
+-- Broadcast row changes on the shared workspace tables to connected clients
+-- REPLICA IDENTITY FULL so DELETE and UPDATE events carry the complete old row
+ALTER TABLE public.projects REPLICA IDENTITY FULL;
+ALTER TABLE public.tasks REPLICA IDENTITY FULL;
+ALTER TABLE public.comments REPLICA IDENTITY FULL;
+
+ALTER PUBLICATION supabase_realtime ADD TABLE public.projects;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.tasks;
+ALTER PUBLICATION supabase_realtime ADD TABLE public.comments;
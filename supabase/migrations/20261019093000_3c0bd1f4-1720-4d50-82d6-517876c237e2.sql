@@ -0,0 +1,118 @@
+-- Per-task activity history.
+-- Rows are written only by the triggers below, so the trail covers every client
+-- (including replayed offline edits) and cannot be edited from the app.
+CREATE TABLE public.task_activity (
+  id UUID NOT NULL PRIMARY KEY DEFAULT gen_random_uuid(),
+  task_id TEXT NOT NULL REFERENCES public.tasks(id) ON DELETE CASCADE,
+  -- created | updated | comment | attachment
+  kind TEXT NOT NULL,
+  -- Column that changed, for 'updated' entries
+  field TEXT,
+  old_value JSONB,
+  new_value JSONB,
+  actor_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_activity_task_id ON public.task_activity(task_id, created_at);
+
+ALTER TABLE public.task_activity ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view task activity"
+ON public.task_activity FOR SELECT
+TO authenticated
+USING (true);
+
+-- Task inserts and field changes
+CREATE OR REPLACE FUNCTION public.log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  column_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, kind, new_value, actor_id)
+    VALUES (NEW.id, 'created', jsonb_build_object('title', NEW.title, 'status', NEW.status), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+
+  FOR column_name IN SELECT jsonb_object_keys(new_row) LOOP
+    -- Bookkeeping columns are not user edits
+    CONTINUE WHEN column_name IN ('id', 'created_at', 'updated_at', 'created_by');
+    IF old_row -> column_name IS DISTINCT FROM new_row -> column_name THEN
+      INSERT INTO public.task_activity (task_id, kind, field, old_value, new_value, actor_id)
+      VALUES (NEW.id, 'updated', column_name, old_row -> column_name, new_row -> column_name, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_task_activity
+AFTER INSERT OR UPDATE ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.log_task_activity();
+
+-- New comments
+CREATE OR REPLACE FUNCTION public.log_comment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.task_activity (task_id, kind, new_value, actor_id, created_at)
+  VALUES (
+    NEW.task_id,
+    'comment',
+    jsonb_build_object('commentId', NEW.id, 'content', NEW.content),
+    COALESCE(auth.uid(), NEW.created_by),
+    NEW.created_at
+  );
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_comment_activity
+AFTER INSERT ON public.comments
+FOR EACH ROW
+EXECUTE FUNCTION public.log_comment_activity();
+
+-- Attachment uploads, including new versions of an existing file
+CREATE OR REPLACE FUNCTION public.log_attachment_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- file_attachments.task_id has no foreign key, so skip files of unknown tasks
+  IF EXISTS (SELECT 1 FROM public.tasks WHERE id = NEW.task_id) THEN
+    INSERT INTO public.task_activity (task_id, kind, new_value, actor_id)
+    VALUES (
+      NEW.task_id,
+      'attachment',
+      jsonb_build_object('fileName', NEW.file_name, 'version', NEW.version),
+      auth.uid()
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER log_attachment_activity
+AFTER INSERT ON public.file_attachments
+FOR EACH ROW
+EXECUTE FUNCTION public.log_attachment_activity();
+
+-- Let open task panels follow new entries live
+ALTER PUBLICATION supabase_realtime ADD TABLE public.task_activity;
@@ -0,0 +1,34 @@
+-- Soft delete for projects and tasks.
+-- Deleting in the app only sets deleted_at/deleted_by; rows are removed for good
+-- when the trash is purged. deleted_by holds the team member id, like comments.author_id.
+ALTER TABLE public.projects
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by TEXT;
+
+ALTER TABLE public.tasks
+  ADD COLUMN deleted_at TIMESTAMP WITH TIME ZONE,
+  ADD COLUMN deleted_by TEXT;
+
+CREATE INDEX idx_projects_deleted_at ON public.projects(deleted_at) WHERE deleted_at IS NOT NULL;
+CREATE INDEX idx_tasks_deleted_at ON public.tasks(deleted_at) WHERE deleted_at IS NOT NULL;
+
+-- file_attachments.task_id has no foreign key, so purged tasks (including those
+-- removed by a project's ON DELETE CASCADE) would leave their attachment rows behind.
+-- Runs as definer because users may only delete attachments they uploaded themselves.
+-- The storage objects are removed by the client, which knows the file paths.
+CREATE OR REPLACE FUNCTION public.delete_task_attachments()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  DELETE FROM public.file_attachments WHERE task_id = OLD.id;
+  RETURN OLD;
+END;
+$$;
+
+CREATE TRIGGER delete_task_attachments
+AFTER DELETE ON public.tasks
+FOR EACH ROW
+EXECUTE FUNCTION public.delete_task_attachments();
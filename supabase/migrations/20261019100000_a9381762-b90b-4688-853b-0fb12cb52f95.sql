@@ -0,0 +1,9 @@
+-- Subtasks and checklists.
+-- A subtask is an ordinary task with parent_id set. Purging a parent keeps its
+-- subtasks as top-level tasks instead of deleting work nobody chose to delete.
+-- checklist holds [{ id, text, done }] items that don't need to be full tasks.
+ALTER TABLE public.tasks
+  ADD COLUMN parent_id TEXT REFERENCES public.tasks(id) ON DELETE SET NULL,
+  ADD COLUMN checklist JSONB;
+
+CREATE INDEX idx_tasks_parent_id ON public.tasks(parent_id);
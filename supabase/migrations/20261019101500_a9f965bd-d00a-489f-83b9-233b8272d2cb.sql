@@ -0,0 +1,41 @@
+-- Manual ordering of tasks within a board column.
+-- rank is a fractional key compared as a plain string (see src/lib/rank.ts), so a
+-- moved card gets a key between its neighbours and no other row is rewritten.
+-- COLLATE "C" keeps server-side ordering byte-wise, matching the client.
+ALTER TABLE public.tasks ADD COLUMN rank TEXT COLLATE "C";
+
+CREATE INDEX idx_tasks_project_rank ON public.tasks(project_id, status, rank);
+
+-- Reordering is not an edit worth listing in a task's activity
+CREATE OR REPLACE FUNCTION public.log_task_activity()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB;
+  column_name TEXT;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO public.task_activity (task_id, kind, new_value, actor_id)
+    VALUES (NEW.id, 'created', jsonb_build_object('title', NEW.title, 'status', NEW.status), auth.uid());
+    RETURN NEW;
+  END IF;
+
+  old_row := to_jsonb(OLD);
+  new_row := to_jsonb(NEW);
+
+  FOR column_name IN SELECT jsonb_object_keys(new_row) LOOP
+    -- Bookkeeping columns are not user edits
+    CONTINUE WHEN column_name IN ('id', 'created_at', 'updated_at', 'created_by', 'rank');
+    IF old_row -> column_name IS DISTINCT FROM new_row -> column_name THEN
+      INSERT INTO public.task_activity (task_id, kind, field, old_value, new_value, actor_id)
+      VALUES (NEW.id, 'updated', column_name, old_row -> column_name, new_row -> column_name, auth.uid());
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
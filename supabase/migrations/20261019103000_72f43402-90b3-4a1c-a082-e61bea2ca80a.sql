@@ -0,0 +1,4 @@
+-- Recurring tasks.
+-- recurrence holds an RRULE-style schedule (see src/lib/recurrence.ts) on the open
+-- instance of a series; completing that task creates the next instance with it.
+ALTER TABLE public.tasks ADD COLUMN recurrence JSONB;
@@ -0,0 +1,39 @@
+-- Reusable task templates.
+-- A template is scoped to one project, or shared across the workspace when
+-- project_id is null. fields holds the type-specific task fields and checklist
+-- copied into new tasks; due_offset_days places the due date relative to the
+-- day a task is created from the template.
+CREATE TABLE public.task_templates (
+  id TEXT NOT NULL PRIMARY KEY,
+  project_id TEXT REFERENCES public.projects(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  title_pattern TEXT NOT NULL,
+  description TEXT NOT NULL DEFAULT '',
+  type TEXT NOT NULL DEFAULT 'general',
+  priority TEXT NOT NULL DEFAULT 'medium',
+  tags TEXT[] NOT NULL DEFAULT '{}',
+  fields JSONB NOT NULL DEFAULT '{}',
+  due_offset_days INTEGER,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_task_templates_project_id ON public.task_templates(project_id);
+
+ALTER TABLE public.task_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view task templates"
+ON public.task_templates FOR SELECT
+TO authenticated
+USING (true);
+
+CREATE POLICY "Authenticated users can create task templates"
+ON public.task_templates FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
+
+CREATE POLICY "Creators or admins can delete task templates"
+ON public.task_templates FOR DELETE
+TO authenticated
+USING (created_by = auth.uid() OR public.has_role(auth.uid(), 'admin'));
@@ -0,0 +1,5 @@
+-- Custom fields per project.
+-- projects.custom_fields lists the field definitions (id, name, type, options);
+-- tasks.custom_field_values maps field ids to values, see src/lib/customFields.ts.
+ALTER TABLE public.projects ADD COLUMN custom_fields JSONB;
+ALTER TABLE public.tasks ADD COLUMN custom_field_values JSONB;
@@ -0,0 +1,5 @@
+-- Per-project workflows.
+-- projects.workflow lists the project's statuses in board order (id, label, color,
+-- category, notify), see src/lib/workflow.ts. NULL means the default workflow,
+-- whose status ids are the ones tasks.status has always held.
+ALTER TABLE public.projects ADD COLUMN workflow JSONB;
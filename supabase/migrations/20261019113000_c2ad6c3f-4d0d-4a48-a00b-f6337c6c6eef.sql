@@ -0,0 +1,5 @@
+-- Workflow transition rules per project.
+-- projects.transition_rules holds the allowed moves between statuses and the
+-- guards on moves into a status (roles, preconditions), see src/lib/transitions.ts.
+-- NULL means every move is allowed.
+ALTER TABLE public.projects ADD COLUMN transition_rules JSONB;
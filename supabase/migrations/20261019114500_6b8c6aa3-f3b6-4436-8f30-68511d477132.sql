@@ -0,0 +1,39 @@
+-- Work-in-progress limits.
+-- projects.wip_limits lists soft and hard limits per status, for the whole column
+-- or per assignee, see src/lib/wipLimits.ts. NULL means no limits.
+ALTER TABLE public.projects ADD COLUMN wip_limits JSONB;
+
+-- Moves that left a status over one of its limits, for flow reports.
+-- overridden_by is the team member who pushed past a hard limit, like comments.author_id.
+-- Breaches outlive purged tasks, so task_id is cleared rather than cascading.
+CREATE TABLE public.wip_breaches (
+  id TEXT NOT NULL PRIMARY KEY,
+  project_id TEXT NOT NULL REFERENCES public.projects(id) ON DELETE CASCADE,
+  task_id TEXT REFERENCES public.tasks(id) ON DELETE SET NULL,
+  status TEXT NOT NULL,
+  -- column | assignee
+  scope TEXT NOT NULL,
+  assignee_id TEXT,
+  -- soft | hard
+  level TEXT NOT NULL,
+  wip_limit INTEGER NOT NULL,
+  count INTEGER NOT NULL,
+  overridden_by TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_wip_breaches_project_id ON public.wip_breaches(project_id, created_at);
+
+ALTER TABLE public.wip_breaches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Authenticated users can view WIP breaches"
+ON public.wip_breaches FOR SELECT
+TO authenticated
+USING (true);
+
+-- Breaches are a record, so there are no update or delete policies
+CREATE POLICY "Authenticated users can record WIP breaches"
+ON public.wip_breaches FOR INSERT
+TO authenticated
+WITH CHECK (created_by = auth.uid());
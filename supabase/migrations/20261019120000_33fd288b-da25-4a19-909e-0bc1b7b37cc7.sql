@@ -0,0 +1,7 @@
+-- Task scheduling for the critical path, see src/lib/criticalPath.ts.
+-- start_date is the planned start (yyyy-MM-dd, like due_date) and duration its
+-- length in days. Either may be NULL, in which case they are derived from the
+-- due date and creation date.
+ALTER TABLE public.tasks
+  ADD COLUMN start_date TEXT,
+  ADD COLUMN duration INTEGER CHECK (duration > 0);
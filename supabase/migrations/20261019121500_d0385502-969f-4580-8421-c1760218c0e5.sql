@@ -0,0 +1,41 @@
+-- Notifications could be inserted for any user_id. Users may now only create
+-- their own; notifications for teammates go through notify_task_unblocked,
+-- which writes the text itself and only reaches the task's assignees.
+DROP POLICY IF EXISTS "Authenticated users can create notifications" ON public.notifications;
+
+CREATE POLICY "Users can create their own notifications"
+ON public.notifications FOR INSERT
+TO authenticated
+WITH CHECK (user_id = auth.uid());
+
+-- Tells the signed-in assignees of a task, other than the caller, that it no
+-- longer waits on other tasks. blocked_by is not checked: the client may call
+-- this before its update of the task has been saved.
+CREATE OR REPLACE FUNCTION public.notify_task_unblocked(_task_id TEXT)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not authenticated';
+  END IF;
+
+  INSERT INTO public.notifications (id, user_id, type, title, message, task_id, project_id)
+  SELECT
+    'notif-' || gen_random_uuid(),
+    tm.user_id,
+    'task-updated',
+    'Task unblocked',
+    '"' || t.title || '" is no longer waiting on other tasks.',
+    t.id,
+    t.project_id
+  FROM public.tasks t
+  JOIN public.team_members tm ON tm.id::text = ANY (t.assignee_ids)
+  WHERE t.id = _task_id
+    AND t.deleted_at IS NULL
+    AND tm.user_id IS NOT NULL
+    AND tm.user_id <> auth.uid();
+END;
+$$;